@@ -0,0 +1,43 @@
+// app/api/leaderboard/history/route.ts
+// Rank and realized PnL across stored leaderboard scans for several wallets at once
+// (?wallets=a,b,c), so a board page needs one request instead of one per row.
+// Reads snapshots only; never triggers a scan.
+
+import {NextRequest, NextResponse} from 'next/server';
+import {getLeaderboardStore, getWalletHistories, WINDOW_KEYS, WindowKey} from '@/app/utils/leaderboardStore';
+import {isValidSolanaAddress} from '@/app/utils/validation';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_SCANS = 30;
+const MAX_SCANS = 200;
+// A full board page
+const MAX_WALLETS = 100;
+
+export async function GET(request: NextRequest) {
+    const wallets = Array.from(new Set(
+        (request.nextUrl.searchParams.get('wallets') ?? '').split(',').map(w => w.trim()).filter(Boolean)
+    ));
+    if (wallets.length === 0 || wallets.length > MAX_WALLETS) {
+        return NextResponse.json({error: `wallets must list 1 to ${MAX_WALLETS} addresses`}, {status: 400});
+    }
+    const valid = await Promise.all(wallets.map(isValidSolanaAddress));
+    if (valid.includes(false)) {
+        return NextResponse.json({error: 'wallets must be Solana wallet addresses'}, {status: 400});
+    }
+
+    // ?window=7d (repeatable) limits the response to those windows; all four by default
+    const requested = request.nextUrl.searchParams.getAll('window');
+    if (requested.some(w => !(WINDOW_KEYS as string[]).includes(w))) {
+        return NextResponse.json({error: 'window must be one of 1d, 7d, 30d, all'}, {status: 400});
+    }
+    const windows = requested.length > 0 ? requested as WindowKey[] : WINDOW_KEYS;
+
+    const scansParam = parseInt(request.nextUrl.searchParams.get('scans') ?? '', 10);
+    const scans = Number.isFinite(scansParam) && scansParam > 0 ? Math.min(scansParam, MAX_SCANS) : DEFAULT_SCANS;
+
+    const histories = await getWalletHistories(getLeaderboardStore(), wallets, windows, scans);
+    return NextResponse.json({histories}, {
+        headers: {'Cache-Control': 's-maxage=600, stale-while-revalidate=3600'},
+    });
+}
@@ -0,0 +1,114 @@
+// app/api/leaderboard/pool/[address]/route.ts
+// Top LPs of one DLMM pool: owners of its open positions (enumerated on-chain),
+// the most-claiming ones scored with their Meteora PnL in this pool. Claimed fees
+// are raw quote-token units, so they only rank LPs within the same pool. Only DLMM
+// pool addresses are scanned, and concurrent requests for a pool share one scan.
+
+import {NextResponse} from 'next/server';
+import {fetchPositionsPnl} from '@/app/utils/meteoraDataAPI';
+import {fetchPoolLpStats, isDlmmPoolAddress} from '@/app/utils/leaderboardScan';
+import {mapLimit} from '@/app/utils/rateLimitedFetch';
+import {isValidSolanaAddress} from '@/app/utils/validation';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+// LPs (by claimed fees) whose PnL is looked up; the rest only count toward totalLps
+const LP_LIMIT = 50;
+const PNL_CONCURRENCY = 8;
+const CACHE_TTL_MS = 10 * 60 * 1000;
+const MAX_CACHED_POOLS = 200;
+
+interface PoolLp {
+    wallet: string;
+    positions: number;
+    claimedY: number;
+    pnlUsd: number;
+    pnlSol: number;
+    feesUsd: number;
+}
+
+interface PoolLpPayload {
+    pool: string;
+    updatedAt: number;
+    totalLps: number;
+    totalPositions: number;
+    lps: PoolLp[];
+}
+
+const cache = new Map<string, PoolLpPayload>();
+// Scans in progress, so concurrent requests for a pool share one
+const building = new Map<string, Promise<PoolLpPayload | null>>();
+
+const num = (v: unknown): number => {
+    const n = typeof v === 'string' ? parseFloat(v) : typeof v === 'number' ? v : 0;
+    return Number.isFinite(n) ? n : 0;
+};
+
+// Null when the address is not a DLMM pool, which is checked before the full scan
+async function buildPoolPayload(pool: string): Promise<PoolLpPayload | null> {
+    if (!await isDlmmPoolAddress(pool)) return null;
+    const stats = await fetchPoolLpStats(pool);
+    const top = Array.from(stats.entries())
+        .sort(([, a], [, b]) => b.claimedY - a.claimedY || b.positions - a.positions)
+        .slice(0, LP_LIMIT);
+
+    const lps = await mapLimit(top, PNL_CONCURRENCY, async ([wallet, {claimedY, positions}]) => {
+        // Open and closed positions alike: the LP's whole history in this pool
+        const pnl = await fetchPositionsPnl(pool, wallet, 'all');
+        return {
+            wallet,
+            positions,
+            claimedY,
+            pnlUsd: pnl.reduce((sum, p) => sum + num(p.pnlUsd), 0),
+            pnlSol: pnl.reduce((sum, p) => sum + num(p.pnlSol), 0),
+            feesUsd: pnl.reduce((sum, p) => sum + num(p.allTimeFees?.total.usd), 0),
+        };
+    });
+
+    return {
+        pool,
+        updatedAt: Date.now(),
+        totalLps: stats.size,
+        totalPositions: Array.from(stats.values()).reduce((sum, s) => sum + s.positions, 0),
+        lps,
+    };
+}
+
+export async function GET(_request: Request, {params}: { params: Promise<{ address: string }> }) {
+    const {address} = await params;
+    if (!await isValidSolanaAddress(address)) {
+        return NextResponse.json({error: 'address must be a DLMM pool address'}, {status: 400});
+    }
+
+    let data = cache.get(address);
+    if (!data || Date.now() - data.updatedAt >= CACHE_TTL_MS) {
+        let build = building.get(address);
+        if (!build) {
+            build = buildPoolPayload(address).then(payload => {
+                if (payload) {
+                    cache.delete(address);
+                    cache.set(address, payload);
+                    // Maps iterate in insertion order, so the first key is the oldest entry
+                    if (cache.size > MAX_CACHED_POOLS) cache.delete(cache.keys().next().value!);
+                }
+                return payload;
+            }).finally(() => building.delete(address));
+            building.set(address, build);
+        }
+        try {
+            const built = await build;
+            if (!built) {
+                return NextResponse.json({error: 'address must be a DLMM pool address'}, {status: 400});
+            }
+            data = built;
+        } catch (err) {
+            // Not cached, so the next request retries the scan
+            console.error(`LP leaderboard for ${address} failed:`, err);
+            return NextResponse.json({error: 'Could not enumerate the pool\'s positions'}, {status: 502});
+        }
+    }
+    return NextResponse.json(data, {
+        headers: {'Cache-Control': 's-maxage=600, stale-while-revalidate=3600'},
+    });
+}
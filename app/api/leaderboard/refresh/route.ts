@@ -0,0 +1,36 @@
+// app/api/leaderboard/refresh/route.ts
+// Cron trigger for the leaderboard refresh job. Each request rebuilds one window, so a scan
+// always fits the function's time limit: ?window=7d names it, otherwise the one with the oldest
+// snapshot is taken, and a cron schedule works through all four over successive runs. Only stale
+// windows are rebuilt unless ?force=1. When CRON_SECRET is set, requests must carry it as a
+// bearer token (the header Vercel Cron sends); without it, ?force=1 is refused so anyone can't
+// keep the scanner busy.
+
+import {NextRequest, NextResponse} from 'next/server';
+import {WINDOW_KEYS, WindowKey} from '@/app/utils/leaderboardStore';
+import {refreshOldestWindow, refreshWindowIfDue} from '@/app/utils/leaderboardRefresh';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+export async function GET(request: NextRequest) {
+    const secret = process.env.CRON_SECRET;
+    if (secret && request.headers.get('authorization') !== `Bearer ${secret}`) {
+        return NextResponse.json({error: 'Unauthorized'}, {status: 401});
+    }
+
+    const force = request.nextUrl.searchParams.get('force') === '1';
+    if (force && !secret) {
+        return NextResponse.json({error: 'force requires CRON_SECRET to be configured'}, {status: 403});
+    }
+
+    const windowParam = request.nextUrl.searchParams.get('window');
+    if (windowParam === null) {
+        return NextResponse.json(await refreshOldestWindow(!force));
+    }
+    if (!(WINDOW_KEYS as string[]).includes(windowParam)) {
+        return NextResponse.json({error: 'window must be one of 1d, 7d, 30d, all'}, {status: 400});
+    }
+    const window = windowParam as WindowKey;
+    return NextResponse.json({window, result: await refreshWindowIfDue(window, !force)});
+}
@@ -0,0 +1,34 @@
+// app/api/leaderboard/wallet/[address]/route.ts
+// One wallet's rank and realized PnL across stored leaderboard scans, per window.
+// Reads snapshots only; never triggers a scan.
+
+import {NextRequest, NextResponse} from 'next/server';
+import {getLeaderboardStore, getWalletHistory, WINDOW_KEYS, WindowKey} from '@/app/utils/leaderboardStore';
+import {isValidSolanaAddress} from '@/app/utils/validation';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_SCANS = 30;
+const MAX_SCANS = 200;
+
+export async function GET(request: NextRequest, {params}: { params: Promise<{ address: string }> }) {
+    const {address} = await params;
+    if (!await isValidSolanaAddress(address)) {
+        return NextResponse.json({error: 'address must be a Solana wallet address'}, {status: 400});
+    }
+
+    // ?window=7d (repeatable) limits the response to those windows; all four by default
+    const requested = request.nextUrl.searchParams.getAll('window');
+    if (requested.some(w => !(WINDOW_KEYS as string[]).includes(w))) {
+        return NextResponse.json({error: 'window must be one of 1d, 7d, 30d, all'}, {status: 400});
+    }
+    const windows = requested.length > 0 ? requested as WindowKey[] : WINDOW_KEYS;
+
+    const scansParam = parseInt(request.nextUrl.searchParams.get('scans') ?? '', 10);
+    const scans = Number.isFinite(scansParam) && scansParam > 0 ? Math.min(scansParam, MAX_SCANS) : DEFAULT_SCANS;
+
+    const history = await getWalletHistory(getLeaderboardStore(), address, windows, scans);
+    return NextResponse.json(history, {
+        headers: {'Cache-Control': 's-maxage=600, stale-while-revalidate=3600'},
+    });
+}
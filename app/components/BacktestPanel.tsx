@@ -0,0 +1,172 @@
+// app/components/BacktestPanel.tsx
+'use client';
+
+import React, {useEffect, useMemo, useState} from 'react';
+import {MeteoraPool} from '@/app/utils/meteoraDataAPI';
+import {BacktestMarket, fetchBacktestMarket, runBacktest, StrategyShape} from '@/app/utils/backtest';
+import {formatStreak} from '@/app/utils/rangeMetrics';
+import {formatCurrency, prettifyNumber} from '@/app/utils/numberFormatting';
+
+interface BacktestPanelProps {
+    pool: MeteoraPool;
+}
+
+const LOOKBACK_DAYS = [1, 7, 30];
+// Widest range a single DLMM position can cover, entry bin included
+const MAX_POSITION_BINS = 69;
+
+const SHAPES: { key: StrategyShape; label: string }[] = [
+    {key: 'spot', label: 'Spot'},
+    {key: 'curve', label: 'Curve'},
+    {key: 'bidAsk', label: 'Bid-Ask'},
+];
+
+const signedUsd = (v: number): string => `${v >= 0 ? '+' : '-'}${formatCurrency(Math.abs(v))}`;
+const signedClass = (v: number): string => v >= 0 ? 'text-success' : 'text-error';
+
+// "What if I had opened this position N days ago" simulator for a DLMM pool
+const BacktestPanel: React.FC<BacktestPanelProps> = ({pool}) => {
+    const [days, setDays] = useState(7);
+    const [binsBelow, setBinsBelow] = useState(34);
+    const [binsAbove, setBinsAbove] = useState(34);
+    const [shape, setShape] = useState<StrategyShape>('spot');
+    const [capitalUsd, setCapitalUsd] = useState(1000);
+    const [market, setMarket] = useState<BacktestMarket | null | undefined>(undefined);
+
+    useEffect(() => {
+        let cancelled = false;
+        setMarket(undefined);
+        fetchBacktestMarket(pool, days)
+            .then(result => {
+                if (!cancelled) setMarket(result);
+            })
+            .catch(err => {
+                console.error(`Error loading backtest data for ${pool.address}:`, err);
+                if (!cancelled) setMarket(null);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [pool, days]);
+
+    const result = useMemo(
+        () => market ? runBacktest(market, {binsBelow, binsAbove, shape, capitalUsd}) : null,
+        [market, binsBelow, binsAbove, shape, capitalUsd]
+    );
+
+    // Whole bins only, and never more than one position can hold in total
+    const clampBins = (value: number, otherSide: number) =>
+        Math.min(Math.floor(value), MAX_POSITION_BINS - 1 - otherSide);
+
+    const [nameX = 'X', nameY = 'Y'] = pool.name.split('-').map(t => t.trim());
+    const numberInput = (value: number, onChange: (v: number) => void, min = 0) => (
+        <input
+            type="number"
+            min={min}
+            className="input input-bordered input-sm w-24"
+            value={value}
+            onChange={(e) => onChange(Math.max(parseFloat(e.target.value) || 0, min))}
+        />
+    );
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-end gap-3">
+                <label className="form-control">
+                    <span className="label-text text-xs mb-1">Opened</span>
+                    <div className="join">
+                        {LOOKBACK_DAYS.map(d => (
+                            <button
+                                key={d}
+                                className={`join-item btn btn-sm ${days === d ? 'btn-primary' : 'btn-ghost'}`}
+                                onClick={() => setDays(d)}
+                            >
+                                {d}d ago
+                            </button>
+                        ))}
+                    </div>
+                </label>
+                <label className="form-control">
+                    <span className="label-text text-xs mb-1">Bins below</span>
+                    {numberInput(binsBelow, v => setBinsBelow(clampBins(v, binsAbove)))}
+                </label>
+                <label className="form-control">
+                    <span className="label-text text-xs mb-1">Bins above</span>
+                    {numberInput(binsAbove, v => setBinsAbove(clampBins(v, binsBelow)))}
+                </label>
+                <label className="form-control">
+                    <span className="label-text text-xs mb-1">Shape</span>
+                    <select
+                        className="select select-bordered select-sm"
+                        value={shape}
+                        onChange={(e) => setShape(e.target.value as StrategyShape)}
+                    >
+                        {SHAPES.map(s => <option key={s.key} value={s.key}>{s.label}</option>)}
+                    </select>
+                </label>
+                <label className="form-control">
+                    <span className="label-text text-xs mb-1">Capital (USD)</span>
+                    {numberInput(capitalUsd, setCapitalUsd, 1)}
+                </label>
+            </div>
+
+            {market === undefined ? (
+                <div className="flex justify-center py-8">
+                    <span className="loading loading-spinner loading-md"></span>
+                </div>
+            ) : !market || !result ? (
+                <div className="alert alert-warning">
+                    <span>Not enough price history or token prices to simulate this pool.</span>
+                </div>
+            ) : (
+                <>
+                    <div className="text-sm text-base-content/70">
+                        Range {prettifyNumber(result.lowerPrice)} → {prettifyNumber(result.upperPrice)} {nameY}/{nameX}
+                        {' '}({result.upperBinId - result.lowerBinId + 1} bins around entry
+                        at {prettifyNumber(result.entryPrice)}; now {prettifyNumber(result.exitPrice)})
+                    </div>
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                        <div>
+                            <div className="text-xs text-base-content/60">Final Value</div>
+                            <div className="font-bold">{formatCurrency(result.finalValueUsd)}</div>
+                            <div className={`text-xs ${signedClass(result.pnlUsd)}`}>{signedUsd(result.pnlUsd)}</div>
+                        </div>
+                        <div>
+                            <div className="text-xs text-base-content/60">Est. Fees</div>
+                            <div className="font-bold text-success">{formatCurrency(result.feesUsd)}</div>
+                        </div>
+                        <div>
+                            <div className="text-xs text-base-content/60">Impermanent Loss</div>
+                            <div className={`font-bold ${signedClass(result.impermanentLossUsd)}`}>
+                                {signedUsd(result.impermanentLossUsd)}
+                            </div>
+                        </div>
+                        <div>
+                            <div className="text-xs text-base-content/60">vs HODL</div>
+                            <div className={`font-bold ${signedClass(result.vsHodlUsd)}`}>{signedUsd(result.vsHodlUsd)}</div>
+                            <div className="text-xs text-base-content/60">HODL {formatCurrency(result.hodlValueUsd)}</div>
+                        </div>
+                        <div>
+                            <div className="text-xs text-base-content/60">Time in Range</div>
+                            <div className="font-bold">
+                                {result.range ? `${result.range.timeInRangePct.toFixed(1)}%` : 'N/A'}
+                            </div>
+                        </div>
+                        <div>
+                            <div className="text-xs text-base-content/60">Longest Out of Range</div>
+                            <div className="font-bold">
+                                {result.range ? formatStreak(result.range.longestOutOfRangeSeconds) : 'N/A'}
+                            </div>
+                        </div>
+                    </div>
+                    <p className="text-xs text-base-content/50">
+                        Estimate only: fees assume the active bin&apos;s other liquidity matches today&apos;s pool
+                        average, are not compounded, and USD values use the current {nameY} price.
+                    </p>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default BacktestPanel;
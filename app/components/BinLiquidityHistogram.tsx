@@ -0,0 +1,100 @@
+// app/components/BinLiquidityHistogram.tsx
+import React from 'react';
+import {PositionBinLiquidity} from "@/app/types";
+import {prettifyNumber} from "@/app/utils/numberFormatting";
+import {getPriceFromBinId} from "@/app/utils/dlmm";
+
+interface BinLiquidityHistogramProps {
+    bins: PositionBinLiquidity[];
+    activeBin: number;
+    binStep: number;
+    mintXDigits: number;
+    mintYDigits: number;
+    nameX: string;
+    nameY: string;
+}
+
+const WIDTH = 600;
+const HEIGHT = 140;
+const PAD_TOP = 14;
+const PAD_BOTTOM = 18;
+
+// Stacked bars per bin; token X is valued in token Y at the bin price so both sides share one scale
+const BinLiquidityHistogram: React.FC<BinLiquidityHistogramProps> = ({
+    bins, activeBin, binStep, mintXDigits, mintYDigits, nameX, nameY
+}) => {
+    if (bins.length === 0) {
+        return <div className="text-xs opacity-60 italic">No bin data available.</div>;
+    }
+
+    const sorted = [...bins].sort((a, b) => a.binId - b.binId);
+    const values = sorted.map(bin => ({bin, xValue: bin.xAmount * bin.price, yValue: bin.yAmount}));
+    const maxValue = Math.max(...values.map(v => v.xValue + v.yValue)) || 1;
+
+    const slot = WIDTH / sorted.length;
+    const barWidth = Math.max(slot - (slot > 4 ? 1 : 0), 0.5);
+    const plotHeight = HEIGHT - PAD_TOP - PAD_BOTTOM;
+    const scale = (v: number) => (v / maxValue) * plotHeight;
+
+    const firstBin = sorted[0].binId;
+    const lastBin = sorted[sorted.length - 1].binId;
+    const isInRange = activeBin >= firstBin && activeBin <= lastBin;
+    const activeX = isInRange
+        ? (activeBin - firstBin + 0.5) * slot
+        : activeBin < firstBin ? 1 : WIDTH - 1;
+    const currentPrice = getPriceFromBinId(activeBin, binStep, mintXDigits, mintYDigits);
+
+    const totalX = sorted.reduce((acc, bin) => acc + bin.xAmount, 0);
+    const totalY = sorted.reduce((acc, bin) => acc + bin.yAmount, 0);
+
+    return (
+        <div className="w-full">
+            <div className="flex flex-wrap justify-between items-center text-xs mb-1 gap-2">
+                <div className="flex items-center gap-3">
+                    <span className="flex items-center gap-1">
+                        <span className="inline-block w-3 h-3 rounded-sm bg-amber-400"></span>
+                        {nameX} {prettifyNumber(totalX)}
+                    </span>
+                    <span className="flex items-center gap-1">
+                        <span className="inline-block w-3 h-3 rounded-sm bg-emerald-400"></span>
+                        {nameY} {prettifyNumber(totalY)}
+                    </span>
+                </div>
+                <span className={isInRange ? 'text-info' : 'text-warning'}>
+                    Active bin {activeBin} · {prettifyNumber(currentPrice)} {nameY}/{nameX}
+                    {!isInRange && (activeBin < firstBin ? ' (below range)' : ' (above range)')}
+                </span>
+            </div>
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-36" preserveAspectRatio="none">
+                {values.map(({bin, xValue, yValue}, i) => {
+                    const x = i * slot;
+                    const yHeight = scale(yValue);
+                    const xHeight = scale(xValue);
+                    const base = HEIGHT - PAD_BOTTOM;
+                    return (
+                        <g key={bin.binId}>
+                            <title>{`Bin ${bin.binId} @ ${prettifyNumber(bin.price)}\n${prettifyNumber(bin.xAmount)} ${nameX}\n${prettifyNumber(bin.yAmount)} ${nameY}`}</title>
+                            <rect x={x} y={PAD_TOP} width={slot} height={plotHeight} fill="transparent"/>
+                            {yHeight > 0 && (
+                                <rect x={x} y={base - yHeight} width={barWidth} height={yHeight} fill="#34d399"/>
+                            )}
+                            {xHeight > 0 && (
+                                <rect x={x} y={base - yHeight - xHeight} width={barWidth} height={xHeight} fill="#fbbf24"/>
+                            )}
+                        </g>
+                    );
+                })}
+                <line x1={activeX} x2={activeX} y1={PAD_TOP - 4} y2={HEIGHT - PAD_BOTTOM}
+                      stroke={isInRange ? '#3b82f6' : '#f59e0b'} strokeWidth="2" strokeDasharray="4 3"/>
+                <text x={2} y={HEIGHT - 4} fontSize="10" fill="currentColor" opacity="0.6">
+                    {prettifyNumber(sorted[0].price)}
+                </text>
+                <text x={WIDTH - 2} y={HEIGHT - 4} fontSize="10" fill="currentColor" opacity="0.6" textAnchor="end">
+                    {prettifyNumber(sorted[sorted.length - 1].price)}
+                </text>
+            </svg>
+        </div>
+    );
+};
+
+export default BinLiquidityHistogram;
@@ -0,0 +1,54 @@
+// app/components/ExportButtons.tsx
+'use client';
+
+import React, {useState} from 'react';
+import {FaDownload} from 'react-icons/fa';
+import {ExportFormat} from '@/app/utils/export';
+
+interface ExportButtonsProps {
+    label?: string;
+    onExport: (format: ExportFormat) => void | Promise<void>;
+}
+
+const FORMATS: ExportFormat[] = ['csv', 'json'];
+
+const ExportButtons: React.FC<ExportButtonsProps> = ({label = 'Export', onExport}) => {
+    const [busy, setBusy] = useState<ExportFormat | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleExport = async (format: ExportFormat) => {
+        setBusy(format);
+        setError(null);
+        try {
+            await onExport(format);
+        } catch (err) {
+            console.error('Export failed:', err);
+            setError('Export failed, nothing was downloaded. Please try again.');
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    return (
+        <div className="flex items-center gap-2">
+            <span className="text-sm text-base-content/70 flex items-center gap-1">
+                <FaDownload className="w-3 h-3"/> {label}
+            </span>
+            <div className="join">
+                {FORMATS.map(format => (
+                    <button
+                        key={format}
+                        className="join-item btn btn-xs btn-outline"
+                        disabled={busy !== null}
+                        onClick={() => handleExport(format)}
+                    >
+                        {busy === format ? <span className="loading loading-spinner loading-xs"></span> : format.toUpperCase()}
+                    </button>
+                ))}
+            </div>
+            {error && <span className="text-xs text-error">{error}</span>}
+        </div>
+    );
+};
+
+export default ExportButtons;
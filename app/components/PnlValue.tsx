@@ -0,0 +1,19 @@
+// app/components/PnlValue.tsx
+import React from 'react';
+import {formatCurrency, prettifyNumber} from '@/app/utils/numberFormatting';
+
+const PnlValue: React.FC<{ usd: number; sol?: number }> = ({usd, sol}) => (
+    <div className={`font-semibold ${usd >= 0 ? 'text-success' : 'text-error'}`}
+         title={`${usd >= 0 ? '+' : '-'}$${Math.abs(usd).toFixed(4)} USD`}>
+        {usd >= 0 ? '+' : '-'}{formatCurrency(Math.abs(usd))}
+        <span className="text-[10px] opacity-60 font-normal ml-0.5">USD</span>
+        {sol !== undefined && (
+            <div className="text-xs opacity-70 font-normal"
+                 title="The same PnL measured in SOL: every deposit, withdrawal, and fee is valued in SOL at the time it happened. Shows whether LPing beat simply holding SOL.">
+                {sol >= 0 ? '+' : ''}{prettifyNumber(sol)} SOL
+            </div>
+        )}
+    </div>
+);
+
+export default PnlValue;
@@ -0,0 +1,144 @@
+// app/components/RangeWatcher.tsx
+'use client';
+
+import React, {useCallback, useEffect, useState} from 'react';
+import {
+    checkRanges,
+    DEFAULT_RANGE_WATCH_SETTINGS,
+    getRangeWatchSettings,
+    RangeWatchSettings,
+    saveRangeWatchSettings
+} from '@/app/utils/rangeWatcher';
+import {readTrackedWallets} from '@/app/utils/trackedWallets';
+
+const INTERVAL_OPTIONS = [1, 5, 15, 30, 60];
+
+const notificationsSupported = (): boolean => typeof window !== 'undefined' && 'Notification' in window;
+
+// Bell menu that polls saved wallets in the background and raises browser notifications
+// when a position leaves or re-enters its range, or drifts close to a range edge
+const RangeWatcher: React.FC = () => {
+    const [settings, setSettings] = useState<RangeWatchSettings>(DEFAULT_RANGE_WATCH_SETTINGS);
+    const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>('default');
+    const [lastCheck, setLastCheck] = useState<Date | null>(null);
+
+    useEffect(() => {
+        setSettings(getRangeWatchSettings());
+        setPermission(notificationsSupported() ? Notification.permission : 'unsupported');
+    }, []);
+
+    const updateSettings = useCallback((patch: Partial<RangeWatchSettings>) => {
+        setSettings(prev => {
+            const next = {...prev, ...patch};
+            saveRangeWatchSettings(next);
+            return next;
+        });
+    }, []);
+
+    const toggleEnabled = async (enabled: boolean) => {
+        if (enabled && notificationsSupported() && Notification.permission === 'default') {
+            setPermission(await Notification.requestPermission());
+        }
+        updateSettings({enabled});
+    };
+
+    const active = settings.enabled && permission === 'granted';
+
+    useEffect(() => {
+        if (!active) return;
+        let cancelled = false;
+
+        const check = async () => {
+            const wallets = readTrackedWallets();
+            if (wallets.length === 0) return;
+            try {
+                const alerts = await checkRanges(wallets, settings.edgeBins);
+                if (cancelled) return;
+                alerts.forEach(alert => {
+                    const notification = new Notification(alert.title, {body: alert.body, tag: alert.position});
+                    notification.onclick = () => {
+                        window.focus();
+                        window.location.href = `/position/${alert.position}`;
+                    };
+                });
+                setLastCheck(new Date());
+            } catch (err) {
+                console.error('Error checking position ranges:', err);
+            }
+        };
+
+        check();
+        const timer = setInterval(check, settings.intervalMinutes * 60_000);
+        return () => {
+            cancelled = true;
+            clearInterval(timer);
+        };
+    }, [active, settings.intervalMinutes, settings.edgeBins]);
+
+    return (
+        <div className="dropdown dropdown-end">
+            <div tabIndex={0} role="button" className="btn btn-ghost btn-circle" title="Range alerts">
+                <div className="indicator">
+                    <BellIcon/>
+                    {active && <span className="badge badge-success badge-xs indicator-item"></span>}
+                </div>
+            </div>
+            <div tabIndex={0} className="dropdown-content z-50 card card-compact bg-base-100 shadow-lg w-72 mt-2">
+                <div className="card-body space-y-2">
+                    <h3 className="font-semibold">Range Alerts</h3>
+                    {permission === 'unsupported' ? (
+                        <p className="text-sm text-base-content/70">This browser does not support notifications.</p>
+                    ) : (
+                        <>
+                            <label className="label cursor-pointer p-0">
+                                <span className="label-text text-sm">Notify me</span>
+                                <input
+                                    type="checkbox"
+                                    className="toggle toggle-success toggle-sm"
+                                    checked={settings.enabled}
+                                    onChange={(e) => toggleEnabled(e.target.checked)}
+                                />
+                            </label>
+                            {permission === 'denied' && (
+                                <p className="text-xs text-error">Notifications are blocked in the browser settings.</p>
+                            )}
+                            <label className="form-control">
+                                <span className="label-text text-xs mb-1">Check every</span>
+                                <select
+                                    className="select select-bordered select-sm"
+                                    value={settings.intervalMinutes}
+                                    onChange={(e) => updateSettings({intervalMinutes: Number(e.target.value)})}
+                                >
+                                    {INTERVAL_OPTIONS.map(m => <option key={m} value={m}>{m} min</option>)}
+                                </select>
+                            </label>
+                            <label className="form-control">
+                                <span className="label-text text-xs mb-1">Warn within N bins of an edge (0 = off)</span>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    className="input input-bordered input-sm"
+                                    value={settings.edgeBins}
+                                    onChange={(e) => updateSettings({edgeBins: Math.max(parseInt(e.target.value, 10) || 0, 0)})}
+                                />
+                            </label>
+                            <p className="text-xs text-base-content/60">
+                                Watches wallets from your search history and saved groups while this tab is open.
+                                {lastCheck && ` Last check ${lastCheck.toLocaleTimeString()}.`}
+                            </p>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const BellIcon: React.FC = () => (
+    <svg className="w-6 h-6" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+              d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9"/>
+    </svg>
+);
+
+export default RangeWatcher;
@@ -0,0 +1,67 @@
+// app/components/TimeInRange.tsx
+'use client';
+
+import React, {useEffect, useState} from 'react';
+import {fetchRangeMetrics, formatStreak, RangeMetrics, RangeMetricsInput} from '@/app/utils/rangeMetrics';
+
+interface TimeInRangeProps extends RangeMetricsInput {
+    compact?: boolean;
+}
+
+const pctClass = (pct: number): string =>
+    pct >= 80 ? 'text-success' : pct >= 50 ? 'text-warning' : 'text-error';
+
+// Historical share of the position's lifetime spent in range, from pool OHLCV closes
+const TimeInRange: React.FC<TimeInRangeProps> = ({compact = false, ...input}) => {
+    const [metrics, setMetrics] = useState<RangeMetrics | null | undefined>(undefined);
+    const {poolAddress, lowerBinId, upperBinId, binStep, tokenXDecimal, tokenYDecimal, startTime, endTime} = input;
+
+    useEffect(() => {
+        let cancelled = false;
+        setMetrics(undefined);
+        fetchRangeMetrics({poolAddress, lowerBinId, upperBinId, binStep, tokenXDecimal, tokenYDecimal, startTime, endTime})
+            .then(result => {
+                if (!cancelled) setMetrics(result);
+            })
+            .catch(() => {
+                if (!cancelled) setMetrics(null);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [poolAddress, lowerBinId, upperBinId, binStep, tokenXDecimal, tokenYDecimal, startTime, endTime]);
+
+    if (metrics === undefined) {
+        return <span className="loading loading-dots loading-xs opacity-50"></span>;
+    }
+    if (metrics === null) {
+        return <span className="opacity-50">N/A</span>;
+    }
+
+    const pct = `${metrics.timeInRangePct.toFixed(1)}%`;
+    const streak = formatStreak(metrics.longestOutOfRangeSeconds);
+
+    if (compact) {
+        return (
+            <div title={`Longest out-of-range streak: ${streak} (${metrics.candleCount} candles)`}>
+                <div className={`font-medium ${pctClass(metrics.timeInRangePct)}`}>{pct}</div>
+                <div className="opacity-60">out {streak}</div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+                <p className="text-sm text-base-content/70">Time in Range</p>
+                <p className={`text-xl font-medium ${pctClass(metrics.timeInRangePct)}`}>{pct}</p>
+            </div>
+            <div className="space-y-1">
+                <p className="text-sm text-base-content/70">Longest Out of Range</p>
+                <p className="text-xl font-medium">{streak}</p>
+            </div>
+        </div>
+    );
+};
+
+export default TimeInRange;
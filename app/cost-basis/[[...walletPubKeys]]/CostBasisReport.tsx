@@ -0,0 +1,252 @@
+// app/cost-basis/[[...walletPubKeys]]/CostBasisReport.tsx
+'use client';
+
+import React, {useEffect, useMemo, useState} from 'react';
+import Decimal from "decimal.js";
+import {getPositionsInfo, PositionsInfo} from "@/app/utils/dlmm";
+import {getNoRetryConnection} from "@/app/utils/cachedConnection";
+import {
+    buildCostBasisReport,
+    COST_BASIS_METHODS,
+    CostBasisMethod,
+    fetchWalletPositionKeys,
+    TokenYearSummary
+} from "@/app/utils/costBasis";
+import {downloadRows} from "@/app/utils/export";
+import {formatCurrency, prettifyNumber} from "@/app/utils/numberFormatting";
+import {formatPubKey} from "@/app/utils/formatters";
+import ExportButtons from "@/app/components/ExportButtons";
+
+interface CostBasisReportProps {
+    wallets: string[];
+}
+
+// Closed positions further back than this are not part of the report
+const CLOSED_HISTORY_DAYS = 3 * 365;
+
+const signedUsd = (v: Decimal): string => `${v.gte(0) ? '' : '-'}${formatCurrency(v.abs())}`;
+const signedClass = (v: Decimal): string => v.gte(0) ? 'text-success' : 'text-error';
+
+const sumYear = (rows: TokenYearSummary[]) => rows.reduce((acc, r) => ({
+    acquiredCost: acc.acquiredCost.plus(r.acquiredCost),
+    proceeds: acc.proceeds.plus(r.proceeds),
+    costBasis: acc.costBasis.plus(r.costBasis),
+    realizedGain: acc.realizedGain.plus(r.realizedGain),
+    income: acc.income.plus(r.income),
+}), {
+    acquiredCost: new Decimal(0),
+    proceeds: new Decimal(0),
+    costBasis: new Decimal(0),
+    realizedGain: new Decimal(0),
+    income: new Decimal(0),
+});
+
+const CostBasisReport: React.FC<CostBasisReportProps> = ({wallets}) => {
+    const [loaded, setLoaded] = useState<PositionsInfo | null>(null);
+    const [closedKeys, setClosedKeys] = useState<ReadonlySet<string>>(new Set());
+    const [progress, setProgress] = useState('Finding positions…');
+    const [error, setError] = useState<string | null>(null);
+    const [method, setMethod] = useState<CostBasisMethod>('fifo');
+    const walletsKey = wallets.join(',');
+
+    useEffect(() => {
+        let cancelled = false;
+        setLoaded(null);
+        setError(null);
+        setProgress('Finding positions…');
+
+        (async () => {
+            const perWallet = await Promise.all(walletsKey.split(',').map(w => fetchWalletPositionKeys(w, CLOSED_HISTORY_DAYS)));
+            if (cancelled) return;
+            const keys = perWallet.flatMap(k => [...k.open, ...k.closed]);
+            setProgress(`Loading history for ${keys.length} position${keys.length === 1 ? '' : 's'}…`);
+            const data = await getPositionsInfo(getNoRetryConnection(), keys);
+            if (cancelled) return;
+            setClosedKeys(new Set(perWallet.flatMap(k => k.closed)));
+            setLoaded(data);
+        })().catch(err => {
+            console.error('Error loading cost basis positions:', err);
+            if (!cancelled) setError('Failed to load position history. Please try again later.');
+        });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [walletsKey]);
+
+    const report = useMemo(
+        () => loaded ? buildCostBasisReport(loaded.positions, method, closedKeys) : null,
+        [loaded, method, closedKeys]
+    );
+
+    const yearGroups = useMemo(() => {
+        const groups = new Map<number, TokenYearSummary[]>();
+        report?.realized.forEach(row => {
+            if (!groups.has(row.year)) groups.set(row.year, []);
+            groups.get(row.year)!.push(row);
+        });
+        return Array.from(groups.entries());
+    }, [report]);
+
+    if (error) {
+        return <div className="alert alert-error">{error}</div>;
+    }
+
+    if (!report) {
+        return (
+            <div className="flex flex-col items-center gap-4 py-16">
+                <span className="loading loading-spinner loading-lg"></span>
+                <span className="text-sm text-base-content/70">{progress}</span>
+            </div>
+        );
+    }
+
+    const exportRealized = (format: 'csv' | 'json') => downloadRows(report.realized.map(r => ({
+        year: r.year,
+        token: r.symbol,
+        mint: r.mint,
+        method: report.method,
+        acquiredQuantity: r.acquiredQuantity.toString(),
+        acquiredCostUsd: r.acquiredCost.toFixed(2),
+        disposedQuantity: r.disposedQuantity.toString(),
+        proceedsUsd: r.proceeds.toFixed(2),
+        costBasisUsd: r.costBasis.toFixed(2),
+        realizedGainUsd: r.realizedGain.toFixed(2),
+        incomeUsd: r.income.toFixed(2),
+    })), `cost-basis-${report.method}`, format);
+
+    return (
+        <div className="p-4 max-w-6xl mx-auto space-y-6">
+            <div className="bg-base-100 rounded-lg p-6 shadow-sm">
+                <h1 className="text-3xl font-bold mb-2 text-base-content">Cost Basis Report</h1>
+                <p className="text-sm text-base-content/70 mb-4">
+                    {wallets.length === 1 ? 'Wallet' : 'Wallets'} {wallets.map(formatPubKey).join(', ')}
+                    {' '}· {Object.keys(loaded?.positions ?? {}).length} positions · closed positions from the last {CLOSED_HISTORY_DAYS / 365} years
+                </p>
+                <div className="flex flex-wrap justify-between items-center gap-4">
+                    <div className="join">
+                        {COST_BASIS_METHODS.map(m => (
+                            <button
+                                key={m.key}
+                                className={`join-item btn btn-sm ${method === m.key ? 'btn-primary' : 'btn-ghost'}`}
+                                onClick={() => setMethod(m.key)}
+                            >
+                                {m.label}
+                            </button>
+                        ))}
+                    </div>
+                    <ExportButtons label="Export yearly summary" onExport={exportRealized}/>
+                </div>
+            </div>
+
+            {loaded && loaded.failed.length > 0 && (
+                <div className="alert alert-warning">
+                    <span>
+                        {loaded.failed.length} position{loaded.failed.length === 1 ? '' : 's'} could not be loaded and
+                        {loaded.failed.length === 1 ? ' is' : ' are'} left out of every total below. Reload to try again.
+                    </span>
+                </div>
+            )}
+
+            {yearGroups.length === 0 ? (
+                <div className="text-center text-base-content/70 italic">No deposits, withdrawals or claims found.</div>
+            ) : yearGroups.map(([year, rows]) => {
+                const totals = sumYear(rows);
+                return (
+                    <div key={year} className="bg-base-100 rounded-lg p-6 shadow-sm">
+                        <div className="flex flex-wrap justify-between items-baseline gap-2 mb-4">
+                            <h2 className="text-xl font-semibold">{year}</h2>
+                            <div className="text-sm">
+                                Realized <span className={`font-semibold ${signedClass(totals.realizedGain)}`}>{signedUsd(totals.realizedGain)}</span>
+                                {' '}· Income <span className="font-semibold text-success">{formatCurrency(totals.income)}</span>
+                            </div>
+                        </div>
+                        <div className="overflow-x-auto">
+                            <table className="table table-zebra table-sm w-full">
+                                <thead>
+                                <tr>
+                                    <th>Token</th>
+                                    <th className="text-right">Acquired</th>
+                                    <th className="text-right">Cost</th>
+                                    <th className="text-right">Disposed</th>
+                                    <th className="text-right">Proceeds</th>
+                                    <th className="text-right">Cost Basis</th>
+                                    <th className="text-right">Realized Gain</th>
+                                    <th className="text-right">Fee & Reward Income</th>
+                                </tr>
+                                </thead>
+                                <tbody>
+                                {rows.map(row => (
+                                    <tr key={row.mint}>
+                                        <td className="font-medium" title={row.mint}>{row.symbol}</td>
+                                        <td className="text-right">{prettifyNumber(row.acquiredQuantity)}</td>
+                                        <td className="text-right">{formatCurrency(row.acquiredCost)}</td>
+                                        <td className="text-right">{prettifyNumber(row.disposedQuantity)}</td>
+                                        <td className="text-right">{formatCurrency(row.proceeds)}</td>
+                                        <td className="text-right">{formatCurrency(row.costBasis)}</td>
+                                        <td className={`text-right ${signedClass(row.realizedGain)}`}>{signedUsd(row.realizedGain)}</td>
+                                        <td className="text-right">{formatCurrency(row.income)}</td>
+                                    </tr>
+                                ))}
+                                <tr className="font-semibold">
+                                    <td>Total</td>
+                                    <td></td>
+                                    <td className="text-right">{formatCurrency(totals.acquiredCost)}</td>
+                                    <td></td>
+                                    <td className="text-right">{formatCurrency(totals.proceeds)}</td>
+                                    <td className="text-right">{formatCurrency(totals.costBasis)}</td>
+                                    <td className={`text-right ${signedClass(totals.realizedGain)}`}>{signedUsd(totals.realizedGain)}</td>
+                                    <td className="text-right">{formatCurrency(totals.income)}</td>
+                                </tr>
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+                );
+            })}
+
+            {report.unrealized.length > 0 && (
+                <div className="bg-base-100 rounded-lg p-6 shadow-sm">
+                    <h2 className="text-xl font-semibold mb-4">Unrealized (Open Positions)</h2>
+                    <div className="overflow-x-auto">
+                        <table className="table table-zebra table-sm w-full">
+                            <thead>
+                            <tr>
+                                <th>Token</th>
+                                <th className="text-right">Held</th>
+                                <th className="text-right">Cost Basis</th>
+                                <th className="text-right">Market Value</th>
+                                <th className="text-right">Unrealized Gain</th>
+                                <th className="text-right">Unclaimed Fees</th>
+                            </tr>
+                            </thead>
+                            <tbody>
+                            {report.unrealized.map(h => (
+                                <tr key={h.mint}>
+                                    <td className="font-medium" title={h.mint}>{h.symbol}</td>
+                                    <td className="text-right">{prettifyNumber(h.quantity)}</td>
+                                    <td className="text-right">{formatCurrency(h.costBasis)}</td>
+                                    <td className="text-right">{h.marketValue ? formatCurrency(h.marketValue) : 'N/A'}</td>
+                                    <td className={`text-right ${h.unrealizedGain ? signedClass(h.unrealizedGain) : ''}`}>
+                                        {h.unrealizedGain ? signedUsd(h.unrealizedGain) : 'N/A'}
+                                    </td>
+                                    <td className="text-right">{formatCurrency(h.unclaimedFees)}</td>
+                                </tr>
+                            ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+
+            <p className="text-xs text-base-content/50">
+                Deposits acquire token lots at their USD value at the time; withdrawals dispose of them, matched within
+                each position. Tokens the pool converted while the price moved through the range show up as
+                zero-basis proceeds in one token and as lots disposed of for nothing at close in the other.
+                Not tax advice.
+            </p>
+        </div>
+    );
+};
+
+export default CostBasisReport;
@@ -0,0 +1,28 @@
+// app/cost-basis/[[...walletPubKeys]]/page.tsx
+'use client';
+import React from 'react';
+import {useParams} from 'next/navigation';
+import CostBasisReport from "./CostBasisReport";
+
+const CostBasisPage = () => {
+    const params = useParams();
+
+    let wallets: string[] = [];
+    if (params.walletPubKeys) {
+        const raw = Array.isArray(params.walletPubKeys) ? params.walletPubKeys.join(',') : params.walletPubKeys;
+        wallets = decodeURIComponent(raw).split(',');
+    }
+    wallets = wallets.map(wallet => wallet.trim()).filter(Boolean);
+
+    if (wallets.length === 0) {
+        return <div>No wallets specified. Please provide at least one wallet address.</div>;
+    }
+
+    return (
+        <div className="container mx-auto my-8">
+            <CostBasisReport wallets={wallets}/>
+        </div>
+    );
+};
+
+export default CostBasisPage;
@@ -3,6 +3,7 @@ import {Inter} from "next/font/google";
 import "./globals.css";
 import {ThemeProvider} from './contexts/ThemeContext';
 import ThemeToggle from './components/ThemeToggle';
+import RangeWatcher from './components/RangeWatcher';
 import React from "react";
 import { Analytics } from "@vercel/analytics/react";
 import {SpeedInsights} from "@vercel/speed-insights/next";
@@ -38,7 +39,8 @@ export default function RootLayout({children}: { children: React.ReactNode }) {
         </head>
         <body className={`${inter.className} min-h-screen bg-base-100 text-base-content`}>
         <ThemeProvider>
-            <div className="absolute top-4 right-4">
+            <div className="absolute top-4 right-4 flex items-center gap-2">
+                <RangeWatcher/>
                 <ThemeToggle/>
             </div>
             <div className="min-h-screen flex flex-col">
@@ -3,17 +3,12 @@
 
 import React, {useCallback, useEffect, useMemo, useState} from 'react';
 import Link from 'next/link';
-import {formatDistanceToNow} from 'date-fns';
+import {format, formatDistanceToNow} from 'date-fns';
 import {fetchPortfolioTotal} from '@/app/utils/meteoraDataAPI';
 import {formatCurrency, prettifyNumber} from '@/app/utils/numberFormatting';
 import {formatPubKey} from '@/app/utils/formatters';
 import {isValidSolanaAddress} from '@/app/utils/validation';
-
-interface WalletGroup {
-    id: string;
-    name: string;
-    wallets: string[];
-}
+import {readJson, readTrackedWallets} from '@/app/utils/trackedWallets';
 
 type SortKey = 'usd' | 'sol' | 'roi';
 
@@ -99,8 +94,75 @@ interface GlobalWallet {
     positions: number;
     deposits?: number;
     roiPct?: number | null;
+    previousRank?: number | null;
+    risk?: GlobalRisk | null;
 }
 
+// Computed server-side from per-pool closed data; windowed boards only
+interface GlobalRisk {
+    pools: number;
+    winRatePct: number;
+    avgPnlPerPosition: number;
+    medianPnlPerPool: number;
+    largestLoss: number;
+    consistency: number | null;
+    activeDays: number;
+    pnlPerActiveDay: number;
+}
+
+type RiskSortKey = 'winRate' | 'avgPnl' | 'medianPnl' | 'largestLoss' | 'consistency' | 'pnlPerDay';
+type GlobalSortKey = SortKey | RiskSortKey;
+
+// Fewer closed pools than this make rates and spreads noise; risk rankings sink those wallets.
+const RISK_MIN_POOLS = 3;
+
+const RISK_SORTS: { key: RiskSortKey; label: string; value: (risk: GlobalRisk) => number | null }[] = [
+    {key: 'winRate', label: 'Win rate', value: r => r.winRatePct},
+    {key: 'avgPnl', label: 'Avg PnL / position', value: r => r.avgPnlPerPosition},
+    {key: 'medianPnl', label: 'Median PnL / pool', value: r => r.medianPnlPerPool},
+    // Losses are ≤ 0, so descending puts the smallest worst loss first
+    {key: 'largestLoss', label: 'Smallest worst loss', value: r => r.largestLoss},
+    {key: 'consistency', label: 'Consistency', value: r => r.consistency},
+    {key: 'pnlPerDay', label: 'PnL / active day', value: r => r.pnlPerActiveDay},
+];
+
+const PNL_SORTS: { key: SortKey; label: string }[] = [
+    {key: 'usd', label: 'PnL (USD)'},
+    {key: 'sol', label: 'PnL (SOL)'},
+    {key: 'roi', label: 'ROI'},
+];
+
+const isRiskSort = (key: GlobalSortKey): key is RiskSortKey => RISK_SORTS.some(s => s.key === key);
+
+const riskSortValue = (key: RiskSortKey, risk: GlobalRisk | null | undefined): number => {
+    if (!risk || risk.pools < RISK_MIN_POOLS) return -Infinity;
+    return RISK_SORTS.find(s => s.key === key)!.value(risk) ?? -Infinity;
+};
+
+const signedCurrency = (v: number): string => `${v >= 0 ? '+' : '-'}${formatCurrency(Math.abs(v))}`;
+
+// One line of risk figures under the wallet; the metric being ranked by is emphasized
+const RiskLine: React.FC<{ risk: GlobalRisk; active: GlobalSortKey }> = ({risk, active}) => {
+    const item = (key: RiskSortKey, text: string, title: string) => (
+        <span key={key} title={title} className={active === key ? 'font-semibold opacity-100' : ''}>{text}</span>
+    );
+    const items = [
+        item('winRate', `${risk.winRatePct.toFixed(0)}% wins`, `${risk.pools} closed pools`),
+        item('avgPnl', `avg ${signedCurrency(risk.avgPnlPerPosition)}`, 'Average PnL per closed position'),
+        item('medianPnl', `median ${signedCurrency(risk.medianPnlPerPool)}`, 'Median PnL per closed pool'),
+        item('largestLoss', `worst ${signedCurrency(risk.largestLoss)}`, 'Largest loss in a single pool'),
+        item('consistency', `consistency ${risk.consistency !== null ? risk.consistency.toFixed(2) : 'N/A'}`,
+            'Mean over standard deviation of per-pool % returns'),
+        item('pnlPerDay', `${signedCurrency(risk.pnlPerActiveDay)}/day`,
+            `Over ${risk.activeDays} day${risk.activeDays === 1 ? '' : 's'} with a position close`),
+    ];
+    return (
+        <div className="text-[10px] opacity-60 flex flex-wrap gap-x-2">
+            {items}
+        </div>
+    );
+};
+
 interface GlobalPayload {
     window: WindowKey;
     updatedAt: number;
@@ -113,20 +175,130 @@ interface GlobalPayload {
         total_pools: number;
     } | null;
     wallets: GlobalWallet[];
+    // A background rebuild is running; this payload is the last completed scan
+    refreshing?: boolean;
+}
+
+// While the server rebuilds a window, re-check this often for the new scan
+const REFRESH_POLL_MS = 30 * 1000;
+
+interface RankHistoryPoint {
+    updatedAt: number;
+    rank: number | null;
+    pnlUsd: number | null;
+}
+
+interface RankHistoryResponse {
+    histories: { wallet: string; windows: Partial<Record<WindowKey, RankHistoryPoint[]>> }[];
 }
 
+// Shared across re-renders; keyed by window and scan time so a new scan refetches. One request
+// covers every wallet on the board.
+const rankHistoryRequests = new Map<string, Promise<Map<string, RankHistoryPoint[]>>>();
+// Boards remembered at once: four windows, a few scans each
+const MAX_RANK_HISTORY_REQUESTS = 16;
+
+const fetchRankHistories = (
+    wallets: string[],
+    window: WindowKey,
+    updatedAt: number
+): Promise<Map<string, RankHistoryPoint[]>> => {
+    const key = `${window}:${updatedAt}`;
+    let request = rankHistoryRequests.get(key);
+    if (!request) {
+        const query = new URLSearchParams({window, wallets: wallets.join(',')});
+        request = fetch(`/api/leaderboard/history?${query}`)
+            .then(res => {
+                if (!res.ok) throw new Error(`Rank history request failed: ${res.status}`);
+                return res.json() as Promise<RankHistoryResponse>;
+            })
+            .then(json => new Map(json.histories.map(h => [h.wallet, h.windows[window] ?? []])))
+            .catch(err => {
+                console.error('Error loading rank histories:', err);
+                // Not kept, so loading this board again retries
+                rankHistoryRequests.delete(key);
+                return new Map<string, RankHistoryPoint[]>();
+            });
+        rankHistoryRequests.set(key, request);
+        // Maps iterate in insertion order, so the first key is the oldest board
+        if (rankHistoryRequests.size > MAX_RANK_HISTORY_REQUESTS) {
+            rankHistoryRequests.delete(rankHistoryRequests.keys().next().value!);
+        }
+    }
+    return request;
+};
+
+// Movement since the previous scan; nothing when the scan had no predecessor.
+const RankChange: React.FC<{ rank: number; previousRank?: number | null }> = ({rank, previousRank}) => {
+    if (previousRank === undefined) return null;
+    if (previousRank === null) {
+        return <span className="badge badge-info badge-xs" title="Not ranked in the previous scan">new</span>;
+    }
+    const delta = previousRank - rank;
+    if (delta === 0) return <span className="text-[10px] opacity-40" title="Same rank as the previous scan">–</span>;
+    return (
+        <span className={`text-[10px] font-semibold ${delta > 0 ? 'text-success' : 'text-error'}`}
+              title={`Rank ${previousRank} in the previous scan`}>
+            {delta > 0 ? '▲' : '▼'}{Math.abs(delta)}
+        </span>
+    );
+};
+
+const SPARK_W = 64;
+const SPARK_H = 20;
+
+// Rank across stored scans, best rank at the top; scans where the wallet was unranked are skipped.
+// history is null while the board's histories load.
+const RankSparkline: React.FC<{ history: RankHistoryPoint[] | null }> = ({history}) => {
+    const points = useMemo(() => history?.filter(p => p.rank !== null) ?? null, [history]);
+
+    if (!points || points.length < 2) {
+        return <span className="text-[10px] opacity-30">{points ? '—' : ''}</span>;
+    }
+
+    const ranks = points.map(p => p.rank!);
+    const best = Math.min(...ranks);
+    const worst = Math.max(...ranks);
+    const spread = worst - best || 1;
+    const start = points[0].updatedAt;
+    const span = points[points.length - 1].updatedAt - start || 1;
+    const path = points
+        .map((p, i) => {
+            const x = 1 + ((p.updatedAt - start) / span) * (SPARK_W - 2);
+            const y = 2 + ((p.rank! - best) / spread) * (SPARK_H - 4);
+            return `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+        })
+        .join('');
+    const first = ranks[0];
+    const last = ranks[ranks.length - 1];
+
+    return (
+        <svg width={SPARK_W} height={SPARK_H} viewBox={`0 0 ${SPARK_W} ${SPARK_H}`} className="inline-block">
+            <title>
+                {`Rank over ${points.length} scans since ${format(new Date(start), 'PP')}: best ${best}, worst ${worst}, now ${last}`}
+            </title>
+            <path d={path} fill="none" stroke={last <= first ? '#10b981' : '#ef4444'} strokeWidth="1.5"
+                  strokeLinejoin="round"/>
+        </svg>
+    );
+};
+
 const GlobalBoard: React.FC = () => {
     const [windowKey, setWindowKey] = useState<WindowKey>('1d');
     const [payloads, setPayloads] = useState<Partial<Record<WindowKey, GlobalPayload>>>({});
     const [loadingWindow, setLoadingWindow] = useState<WindowKey | null>(null);
     const [error, setError] = useState('');
-    const [sortKey, setSortKey] = useState<SortKey>('usd');
+    const [sortKey, setSortKey] = useState<GlobalSortKey>('usd');
 
     const load = useCallback(async (w: WindowKey) => {
         setLoadingWindow(w);
         setError('');
         try {
             const res = await fetch(`/api/leaderboard?window=${w}`);
+            if (res.status === 503) {
+                setError('The leaderboard for this window is still being built. Try again in a minute.');
+                return;
+            }
             if (!res.ok) throw new Error(`HTTP ${res.status}`);
             const json: GlobalPayload = await res.json();
             setPayloads(prev => ({...prev, [w]: json}));
@@ -137,6 +309,27 @@ const GlobalBoard: React.FC = () => {
         }
     }, []);
 
+    // Poll quietly while a rebuild runs; the stale board stays visible meanwhile
+    const refreshingWindow = payloads[windowKey]?.refreshing ? windowKey : null;
+    useEffect(() => {
+        if (!refreshingWindow) return;
+        let cancelled = false;
+        const timer = setTimeout(async () => {
+            try {
+                const res = await fetch(`/api/leaderboard?window=${refreshingWindow}`, {cache: 'no-store'});
+                if (!res.ok || cancelled) return;
+                const json: GlobalPayload = await res.json();
+                if (!cancelled) setPayloads(prev => ({...prev, [refreshingWindow]: json}));
+            } catch {
+                // Keep showing the last payload
+            }
+        }, REFRESH_POLL_MS);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [refreshingWindow, payloads]);
+
     useEffect(() => {
         if (payloads[windowKey] || loadingWindow || error) return;
         load(windowKey);
@@ -148,14 +341,34 @@ const GlobalBoard: React.FC = () => {
     };
 
     const payload = payloads[windowKey];
+    // The all-time board has no per-pool data, so risk rankings fall back to USD there
+    const activeSort: GlobalSortKey = windowKey === 'all' && isRiskSort(sortKey) ? 'usd' : sortKey;
     const wallets = useMemo(() => {
         if (!payload) return [];
         return [...payload.wallets].sort((a, b) => {
-            if (sortKey === 'sol') return b.pnlSol - a.pnlSol;
-            if (sortKey === 'roi') return roiSortValue(b.roiPct, b.deposits) - roiSortValue(a.roiPct, a.deposits);
+            if (isRiskSort(activeSort)) {
+                const diff = riskSortValue(activeSort, b.risk) - riskSortValue(activeSort, a.risk);
+                // Both unranked (-Infinity - -Infinity is NaN): fall back to PnL
+                return Number.isNaN(diff) || diff === 0 ? b.pnlUsd - a.pnlUsd : diff;
+            }
+            if (activeSort === 'sol') return b.pnlSol - a.pnlSol;
+            if (activeSort === 'roi') return roiSortValue(b.roiPct, b.deposits) - roiSortValue(a.roiPct, a.deposits);
             return b.pnlUsd - a.pnlUsd;
         });
-    }, [payload, sortKey]);
+    }, [payload, activeSort]);
+
+    const [rankHistories, setRankHistories] = useState<Map<string, RankHistoryPoint[]> | null>(null);
+    useEffect(() => {
+        setRankHistories(null);
+        if (!payload || payload.wallets.length === 0) return;
+        let cancelled = false;
+        fetchRankHistories(payload.wallets.map(w => w.wallet), payload.window, payload.updatedAt).then(histories => {
+            if (!cancelled) setRankHistories(histories);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [payload]);
 
     return (
         <>
@@ -171,10 +384,29 @@ const GlobalBoard: React.FC = () => {
                         </button>
                     ))}
                 </div>
+                <select
+                    className="select select-bordered select-sm"
+                    value={activeSort}
+                    onChange={(e) => setSortKey(e.target.value as GlobalSortKey)}
+                    title={windowKey === 'all' ? 'Risk metrics need a 24h, 7 or 30 day window' : 'Rank by'}
+                >
+                    {PNL_SORTS.map(s => <option key={s.key} value={s.key}>{s.label}</option>)}
+                    <optgroup label={`Risk, within the top${payload ? ` ${payload.wallets.length}` : ''} by PnL (min ${RISK_MIN_POOLS} closed pools)`}>
+                        {RISK_SORTS.map(s => (
+                            <option key={s.key} value={s.key} disabled={windowKey === 'all'}>{s.label}</option>
+                        ))}
+                    </optgroup>
+                </select>
                 {payload && (
                     <span className="text-xs text-base-content/50">
                         {payload.scannedWallets} wallets from {payload.scannedPools} top pools
                         · updated {formatDistanceToNow(new Date(payload.updatedAt), {addSuffix: true})}
+                        {payload.refreshing && (
+                            <span className="inline-flex items-center gap-1 ml-2">
+                                <span className="loading loading-spinner loading-xs"></span>
+                                refreshing
+                            </span>
+                        )}
                     </span>
                 )}
             </div>
@@ -226,16 +458,24 @@ const GlobalBoard: React.FC = () => {
                             <tr>
                                 <th className="w-12">#</th>
                                 <th>Wallet</th>
+                                <th className="hidden sm:table-cell" title="Rank across past scans">Trend</th>
                                 <th className="text-right">
-                                    <PnlSortHeader label="Realized PnL" sortKey={sortKey}
-                                                   onToggle={() => setSortKey(k => nextSortKey[k])}/>
+                                    <PnlSortHeader label="Realized PnL" sortKey={isRiskSort(activeSort) ? 'usd' : activeSort}
+                                                   onToggle={() => setSortKey(k => isRiskSort(k) ? 'usd' : nextSortKey[k])}/>
                                 </th>
                             </tr>
                             </thead>
                             <tbody>
                             {wallets.map((entry, index) => (
                                 <tr key={entry.wallet}>
-                                    <td className="text-lg">{rankBadge(index + 1)}</td>
+                                    <td className="text-lg">
+                                        {rankBadge(index + 1)}
+                                        {activeSort === 'usd' && (
+                                            <div className="leading-none">
+                                                <RankChange rank={index + 1} previousRank={entry.previousRank}/>
+                                            </div>
+                                        )}
+                                    </td>
                                     <td>
                                         <Link
                                             href={`/wallet/${entry.wallet}`}
@@ -245,6 +485,11 @@ const GlobalBoard: React.FC = () => {
                                             <span className="lg:hidden">{formatPubKey(entry.wallet)}</span>
                                             <span className="hidden lg:inline">{entry.wallet}</span>
                                         </Link>
+                                        {entry.risk && <RiskLine risk={entry.risk} active={activeSort}/>}
+                                    </td>
+                                    <td className="hidden sm:table-cell">
+                                        <RankSparkline
+                                            history={rankHistories ? rankHistories.get(entry.wallet) ?? [] : null}/>
                                     </td>
                                     <td className="text-right whitespace-nowrap">
                                         <PnlCell usd={entry.pnlUsd} sol={entry.pnlSol} positions={entry.positions}
@@ -258,8 +503,12 @@ const GlobalBoard: React.FC = () => {
                     <div className="text-xs text-base-content/50 mt-3">
                         Wallets are discovered from open positions in top DLMM pools (by 24h fees, by fee/TVL
                         concentration, and by TVL), prioritized by pool fees per LP, then ranked by realized
-                        PnL (closed positions) from Meteora data. Wallets that fully exited before the last
-                        scan are not discovered.
+                        PnL (closed positions) from Meteora data. Wallets found by earlier scans keep being
+                        scored after they exit. Rank changes compare with the previous scan (USD ranking).
+                        Risk metrics come from closed positions in the window, which Meteora aggregates per
+                        pool: win rate, median, worst loss and consistency are over those pools. Risk sorts only
+                        reorder the {payload.wallets.length} wallets ranked by realized PnL; a wallet outside them
+                        is not shown however good its risk figures.
                     </div>
                 </div>
             )}
@@ -288,33 +537,6 @@ const allTimeRoi = (pnlUsd: number, pctChange: number): { deposits: number; roiP
 const MANUAL_WALLETS_KEY = 'leaderboardWallets';
 const FETCH_CHUNK_SIZE = 8;
 
-const readJson = <T, >(key: string, fallback: T): T => {
-    try {
-        const raw = localStorage.getItem(key);
-        return raw ? JSON.parse(raw) as T : fallback;
-    } catch {
-        return fallback;
-    }
-};
-
-// Wallets the user has explored: search history entries (possibly comma-separated) and saved groups.
-const readTrackedWallets = (): string[] => {
-    const wallets: string[] = [];
-    for (const item of readJson<(string | WalletGroup)[]>('walletHistory', [])) {
-        if (typeof item === 'string') {
-            wallets.push(...item.split(',').map(w => w.trim()));
-        } else if (item && Array.isArray(item.wallets)) {
-            wallets.push(...item.wallets);
-        }
-    }
-    for (const group of readJson<WalletGroup[]>('walletGroups', [])) {
-        if (group && Array.isArray(group.wallets)) {
-            wallets.push(...group.wallets);
-        }
-    }
-    return wallets;
-};
-
 const readManualWallets = (): string[] => readJson<string[]>(MANUAL_WALLETS_KEY, []);
 
 const saveManualWallets = (wallets: string[]) => {
@@ -12,12 +12,7 @@ import {
     setCustomRpcEndpoint
 } from "@/app/utils/rpcSettings";
 import Link from 'next/link';
-
-interface WalletGroup {
-    id: string;
-    name: string;
-    wallets: string[];
-}
+import {WalletGroup} from "@/app/types";
 
 interface FormState {
     walletPubKey: string;
@@ -118,14 +113,15 @@ const Home = () => {
                 return;
             }
 
-            // Multiple addresses - treat as wallets (could enhance this later)
+            // Multiple addresses - treat as wallets; saved groups open in the combined view
             const existingGroup = groups.find(b => b.wallets.join(',') === walletPubKey);
             if (existingGroup) {
                 updateHistory(existingGroup);
-            } else {
-                updateHistory(walletPubKey);
+                router.push(`/wallet/${walletPubKey}?view=combined`);
+                return;
             }
 
+            updateHistory(walletPubKey);
             router.push(`/wallet/${walletPubKey}`);
         } catch (error) {
             console.error('Error processing addresses:', error);
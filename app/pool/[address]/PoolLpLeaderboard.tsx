@@ -0,0 +1,156 @@
+// app/pool/[address]/PoolLpLeaderboard.tsx
+'use client';
+
+import React, {useEffect, useMemo, useState} from 'react';
+import Link from 'next/link';
+import {formatDistanceToNow} from 'date-fns';
+import {formatCurrency, prettifyNumber} from '@/app/utils/numberFormatting';
+import {formatTokenBalance} from '@/app/utils/solana';
+import {formatPubKey} from '@/app/utils/formatters';
+import PnlValue from '@/app/components/PnlValue';
+
+interface PoolLpLeaderboardProps {
+    poolAddress: string;
+    tokenYDecimal: number;
+    nameY: string;
+}
+
+interface PoolLp {
+    wallet: string;
+    positions: number;
+    claimedY: number;
+    pnlUsd: number;
+    pnlSol: number;
+    feesUsd: number;
+}
+
+interface PoolLpPayload {
+    pool: string;
+    updatedAt: number;
+    totalLps: number;
+    totalPositions: number;
+    lps: PoolLp[];
+}
+
+type LpSort = 'claimed' | 'positions' | 'pnl';
+
+const SORT_VALUE: Record<LpSort, (lp: PoolLp) => number> = {
+    claimed: lp => lp.claimedY,
+    positions: lp => lp.positions,
+    pnl: lp => lp.pnlUsd,
+};
+
+// The pool's current LPs ranked by claimed fees, open positions or PnL in this pool
+const PoolLpLeaderboard: React.FC<PoolLpLeaderboardProps> = ({poolAddress, tokenYDecimal, nameY}) => {
+    const [payload, setPayload] = useState<PoolLpPayload | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [sortKey, setSortKey] = useState<LpSort>('claimed');
+
+    useEffect(() => {
+        let cancelled = false;
+        setPayload(null);
+        setError(null);
+        fetch(`/api/leaderboard/pool/${poolAddress}`)
+            .then(res => {
+                if (!res.ok) throw new Error(`HTTP ${res.status}`);
+                return res.json() as Promise<PoolLpPayload>;
+            })
+            .then(json => {
+                if (!cancelled) setPayload(json);
+            })
+            .catch(err => {
+                console.error(`Error loading LP leaderboard for ${poolAddress}:`, err);
+                if (!cancelled) setError('Failed to load the LP leaderboard');
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [poolAddress]);
+
+    const ranked = useMemo(
+        () => [...(payload?.lps ?? [])].sort((a, b) => SORT_VALUE[sortKey](b) - SORT_VALUE[sortKey](a)),
+        [payload, sortKey]
+    );
+
+    return (
+        <div className="bg-base-100 rounded-lg p-4 shadow-sm">
+            <div className="flex flex-wrap justify-between items-center gap-2 mb-3">
+                <h2 className="text-base font-medium">
+                    Top LPs
+                    {payload && (
+                        <span className="text-sm text-base-content/60 font-normal ml-2">
+                            {payload.totalLps} wallets · {payload.totalPositions} open positions
+                            · updated {formatDistanceToNow(new Date(payload.updatedAt), {addSuffix: true})}
+                        </span>
+                    )}
+                </h2>
+                <select
+                    className="select select-bordered select-xs"
+                    value={sortKey}
+                    onChange={(e) => setSortKey(e.target.value as LpSort)}
+                >
+                    <option value="claimed">Most claimed fees</option>
+                    <option value="positions">Most open positions (top claimers)</option>
+                    <option value="pnl">Highest PnL (top claimers)</option>
+                </select>
+            </div>
+
+            {error ? (
+                <div className="alert alert-error"><span>{error}</span></div>
+            ) : !payload ? (
+                <div className="flex justify-center py-8">
+                    <span className="loading loading-spinner loading-md"></span>
+                </div>
+            ) : ranked.length === 0 ? (
+                <div className="text-center text-base-content/60 italic py-8">No open positions found.</div>
+            ) : (
+                <>
+                    <div className="overflow-x-auto">
+                        <table className="table table-zebra table-sm w-full text-xs">
+                            <thead>
+                            <tr>
+                                <th className="w-10">#</th>
+                                <th>Wallet</th>
+                                <th className="text-right">Open Positions</th>
+                                <th className="text-right">Claimed Fees</th>
+                                <th className="text-right">PnL in Pool</th>
+                            </tr>
+                            </thead>
+                            <tbody>
+                            {ranked.map((lp, index) => (
+                                <tr key={lp.wallet}>
+                                    <td className="opacity-60">{index + 1}</td>
+                                    <td>
+                                        <Link href={`/wallet/${lp.wallet}`} className="font-mono hover:underline"
+                                              title={lp.wallet}>
+                                            {formatPubKey(lp.wallet)}
+                                        </Link>
+                                    </td>
+                                    <td className="text-right">{lp.positions}</td>
+                                    <td className="text-right whitespace-nowrap">
+                                        <div>{prettifyNumber(formatTokenBalance(lp.claimedY, tokenYDecimal))} {nameY}</div>
+                                        <div className="opacity-60" title="All-time fees earned in this pool">
+                                            {formatCurrency(lp.feesUsd)} all-time
+                                        </div>
+                                    </td>
+                                    <td className="text-right whitespace-nowrap">
+                                        <PnlValue usd={lp.pnlUsd} sol={lp.pnlSol}/>
+                                    </td>
+                                </tr>
+                            ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    <div className="text-xs text-base-content/50 mt-3">
+                        The {ranked.length} LPs with the most claimed {nameY} fees across their open positions
+                        {payload.totalLps > ranked.length && ` (of ${payload.totalLps})`}; sorting by open positions or
+                        PnL only reorders these, so an LP outside them can have more of either. PnL and all-time fees
+                        cover every position the wallet has held in this pool, closed ones included, from Meteora data.
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default PoolLpLeaderboard;
@@ -0,0 +1,191 @@
+// app/pool/[address]/PoolPositions.tsx
+'use client';
+
+import React, {useEffect, useMemo, useState} from 'react';
+import Link from 'next/link';
+import {formatDistanceToNow} from 'date-fns';
+import {PoolLpPosition, scanPoolPositions} from '@/app/utils/positionScan';
+import {getRpcEndpoint} from '@/app/utils/rpcSettings';
+import {getPriceFromBinId} from '@/app/utils/dlmm';
+import {prettifyNumber} from '@/app/utils/numberFormatting';
+import {blockTime2Date, formatTokenBalance} from '@/app/utils/solana';
+import {formatPubKey} from '@/app/utils/formatters';
+
+interface PoolPositionsProps {
+    poolAddress: string;
+    activeBin: number;
+    binStep: number;
+    tokenXDecimal: number;
+    tokenYDecimal: number;
+    nameX: string;
+    nameY: string;
+}
+
+type PositionSort = 'claimed' | 'updated' | 'width';
+
+const PAGE_SIZE = 50;
+
+// Open LP positions in the pool, enumerated on-chain
+const PoolPositions: React.FC<PoolPositionsProps> = ({
+    poolAddress, activeBin, binStep, tokenXDecimal, tokenYDecimal, nameX, nameY
+}) => {
+    const [positions, setPositions] = useState<PoolLpPosition[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [sortKey, setSortKey] = useState<PositionSort>('claimed');
+    const [inRangeOnly, setInRangeOnly] = useState(false);
+    const [visible, setVisible] = useState(PAGE_SIZE);
+
+    useEffect(() => {
+        let cancelled = false;
+        setPositions(null);
+        setError(null);
+        scanPoolPositions(getRpcEndpoint(), poolAddress)
+            .then(result => {
+                if (!cancelled) setPositions(result);
+            })
+            .catch(err => {
+                console.error(`Error scanning positions for ${poolAddress}:`, err);
+                if (!cancelled) setError('Failed to load open positions: the RPC request failed. Try again or switch RPC endpoint.');
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [poolAddress]);
+
+    // Both claimed fee tokens in token Y at the current price, so X-heavy claimers rank too
+    const claimedValue = useMemo(() => {
+        const priceX = getPriceFromBinId(activeBin, binStep, tokenXDecimal, tokenYDecimal).toNumber();
+        return (p: PoolLpPosition) => formatTokenBalance(p.claimedFeeX, tokenXDecimal) * priceX
+            + formatTokenBalance(p.claimedFeeY, tokenYDecimal);
+    }, [activeBin, binStep, tokenXDecimal, tokenYDecimal]);
+
+    const sorted = useMemo(() => {
+        let list = positions ?? [];
+        if (inRangeOnly) {
+            list = list.filter(p => activeBin >= p.lowerBinId && activeBin <= p.upperBinId);
+        }
+        return [...list].sort((a, b) => {
+            switch (sortKey) {
+                case 'updated':
+                    return b.lastUpdatedAt - a.lastUpdatedAt;
+                case 'width':
+                    return (b.upperBinId - b.lowerBinId) - (a.upperBinId - a.lowerBinId);
+                default:
+                    return claimedValue(b) - claimedValue(a);
+            }
+        });
+    }, [positions, sortKey, inRangeOnly, activeBin, claimedValue]);
+
+    const owners = useMemo(() => new Set((positions ?? []).map(p => p.owner)).size, [positions]);
+    const inRangeCount = useMemo(
+        () => (positions ?? []).filter(p => activeBin >= p.lowerBinId && activeBin <= p.upperBinId).length,
+        [positions, activeBin]
+    );
+
+    const price = (binId: number) => prettifyNumber(getPriceFromBinId(binId, binStep, tokenXDecimal, tokenYDecimal));
+
+    return (
+        <div className="bg-base-100 rounded-lg p-4 shadow-sm">
+            <div className="flex flex-wrap justify-between items-center gap-2 mb-3">
+                <h2 className="text-base font-medium">
+                    Open LP Positions
+                    {positions && (
+                        <span className="text-sm text-base-content/60 font-normal ml-2">
+                            {positions.length} positions · {owners} wallets · {inRangeCount} in range
+                        </span>
+                    )}
+                </h2>
+                <div className="flex items-center gap-3">
+                    <label className="label cursor-pointer gap-2">
+                        <input
+                            type="checkbox"
+                            className="toggle toggle-success toggle-xs"
+                            checked={inRangeOnly}
+                            onChange={(e) => setInRangeOnly(e.target.checked)}
+                        />
+                        <span className="label-text text-xs">In range only</span>
+                    </label>
+                    <select
+                        className="select select-bordered select-xs"
+                        value={sortKey}
+                        onChange={(e) => setSortKey(e.target.value as PositionSort)}
+                    >
+                        <option value="claimed">Most claimed fees (in {nameY})</option>
+                        <option value="updated">Recently updated</option>
+                        <option value="width">Widest range</option>
+                    </select>
+                </div>
+            </div>
+
+            {error ? (
+                <div className="alert alert-error"><span>{error}</span></div>
+            ) : !positions ? (
+                <div className="flex justify-center py-8">
+                    <span className="loading loading-spinner loading-md"></span>
+                </div>
+            ) : sorted.length === 0 ? (
+                <div className="text-center text-base-content/60 italic py-8">No open positions found.</div>
+            ) : (
+                <>
+                    <div className="overflow-x-auto">
+                        <table className="table table-zebra table-sm w-full text-xs">
+                            <thead>
+                            <tr>
+                                <th>Wallet</th>
+                                <th>Position</th>
+                                <th>Range ({nameY}/{nameX})</th>
+                                <th className="text-right">Claimed Fees</th>
+                                <th>Last Updated</th>
+                            </tr>
+                            </thead>
+                            <tbody>
+                            {sorted.slice(0, visible).map(p => {
+                                const isInRange = activeBin >= p.lowerBinId && activeBin <= p.upperBinId;
+                                return (
+                                    <tr key={p.position}>
+                                        <td>
+                                            <Link href={`/wallet/${p.owner}`} className="font-mono hover:underline">
+                                                {formatPubKey(p.owner)}
+                                            </Link>
+                                        </td>
+                                        <td>
+                                            <Link href={`/position/${p.position}`} className="font-mono hover:underline">
+                                                {formatPubKey(p.position)}
+                                            </Link>
+                                        </td>
+                                        <td className="whitespace-nowrap">
+                                            <span className={`badge badge-xs mr-2 ${isInRange ? 'badge-success' : 'badge-warning'}`}>
+                                                {isInRange ? 'in' : 'out'}
+                                            </span>
+                                            {price(p.lowerBinId)} → {price(p.upperBinId)}
+                                            <span className="text-base-content/50 ml-1">({p.upperBinId - p.lowerBinId + 1} bins)</span>
+                                        </td>
+                                        <td className="text-right whitespace-nowrap">
+                                            <div>{prettifyNumber(formatTokenBalance(p.claimedFeeX, tokenXDecimal))} {nameX}</div>
+                                            <div>{prettifyNumber(formatTokenBalance(p.claimedFeeY, tokenYDecimal))} {nameY}</div>
+                                        </td>
+                                        <td className="whitespace-nowrap">
+                                            {p.lastUpdatedAt > 0
+                                                ? formatDistanceToNow(blockTime2Date(p.lastUpdatedAt), {addSuffix: true})
+                                                : 'N/A'}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                            </tbody>
+                        </table>
+                    </div>
+                    {sorted.length > visible && (
+                        <div className="text-center mt-3">
+                            <button className="btn btn-sm btn-ghost" onClick={() => setVisible(v => v + PAGE_SIZE)}>
+                                Show more ({sorted.length - visible} remaining)
+                            </button>
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+export default PoolPositions;
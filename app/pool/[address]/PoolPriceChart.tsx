@@ -0,0 +1,131 @@
+// app/pool/[address]/PoolPriceChart.tsx
+'use client';
+
+import React, {useEffect, useState} from 'react';
+import {format} from 'date-fns';
+import {
+    fetchPoolOhlcv,
+    OHLCV_TIMEFRAME_SECONDS,
+    OhlcvCandle,
+    OhlcvTimeframe
+} from '@/app/utils/meteoraDataAPI';
+import {formatCurrency, prettifyNumber} from '@/app/utils/numberFormatting';
+import {blockTime2Date, date2BlockTime} from '@/app/utils/solana';
+
+interface PoolPriceChartProps {
+    poolAddress: string;
+    nameX: string;
+    nameY: string;
+}
+
+const TIMEFRAMES = Object.keys(OHLCV_TIMEFRAME_SECONDS) as OhlcvTimeframe[];
+const CANDLES_PER_VIEW = 120;
+
+const WIDTH = 800;
+const HEIGHT = 280;
+const PAD = {top: 12, right: 64, bottom: 24, left: 8};
+const VOLUME_HEIGHT = 48;
+
+// Candlestick price chart with volume bars for any OHLCV timeframe
+const PoolPriceChart: React.FC<PoolPriceChartProps> = ({poolAddress, nameX, nameY}) => {
+    const [timeframe, setTimeframe] = useState<OhlcvTimeframe>('1h');
+    const [candles, setCandles] = useState<OhlcvCandle[] | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        setCandles(null);
+        const startTime = date2BlockTime() - CANDLES_PER_VIEW * OHLCV_TIMEFRAME_SECONDS[timeframe];
+        fetchPoolOhlcv(poolAddress, timeframe, startTime).then(data => {
+            if (!cancelled) setCandles(data);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [poolAddress, timeframe]);
+
+    const renderChart = () => {
+        if (!candles) {
+            return (
+                <div className="flex justify-center items-center h-64">
+                    <span className="loading loading-spinner loading-md"></span>
+                </div>
+            );
+        }
+        if (candles.length === 0) {
+            return <div className="text-center text-base-content/60 italic py-16">No price history for this pool.</div>;
+        }
+
+        const min = Math.min(...candles.map(c => c.low));
+        const max = Math.max(...candles.map(c => c.high));
+        const range = max - min || 1;
+        const maxVolume = Math.max(...candles.map(c => c.volume)) || 1;
+
+        const plotWidth = WIDTH - PAD.left - PAD.right;
+        const priceHeight = HEIGHT - PAD.top - PAD.bottom - VOLUME_HEIGHT - 8;
+        const slot = plotWidth / candles.length;
+        const bodyWidth = Math.max(slot * 0.6, 1);
+        const y = (price: number) => PAD.top + (1 - (price - min) / range) * priceHeight;
+        const volumeBase = HEIGHT - PAD.bottom;
+
+        const ticks = [min, min + range / 2, max];
+        const labelEvery = Math.ceil(candles.length / 6);
+
+        return (
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-72">
+                {ticks.map(t => (
+                    <g key={t}>
+                        <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(t)} y2={y(t)}
+                              stroke="currentColor" strokeOpacity="0.1"/>
+                        <text x={WIDTH - PAD.right + 4} y={y(t) + 3} fontSize="10" fill="currentColor" opacity="0.6">
+                            {prettifyNumber(t)}
+                        </text>
+                    </g>
+                ))}
+                {candles.map((c, i) => {
+                    const cx = PAD.left + (i + 0.5) * slot;
+                    const isUp = c.close >= c.open;
+                    const color = isUp ? '#10b981' : '#ef4444';
+                    const bodyTop = y(Math.max(c.open, c.close));
+                    const bodyHeight = Math.max(Math.abs(y(c.open) - y(c.close)), 1);
+                    const volumeHeight = (c.volume / maxVolume) * VOLUME_HEIGHT;
+                    return (
+                        <g key={c.timestamp}>
+                            <title>{`${format(blockTime2Date(c.timestamp), 'MMM d, HH:mm')}\nO ${prettifyNumber(c.open)}  H ${prettifyNumber(c.high)}\nL ${prettifyNumber(c.low)}  C ${prettifyNumber(c.close)}\nVolume ${formatCurrency(c.volume)}`}</title>
+                            <line x1={cx} x2={cx} y1={y(c.high)} y2={y(c.low)} stroke={color}/>
+                            <rect x={cx - bodyWidth / 2} y={bodyTop} width={bodyWidth} height={bodyHeight} fill={color}/>
+                            <rect x={cx - bodyWidth / 2} y={volumeBase - volumeHeight} width={bodyWidth}
+                                  height={volumeHeight} fill={color} opacity="0.35"/>
+                            {i % labelEvery === 0 && (
+                                <text x={cx} y={HEIGHT - 6} fontSize="10" fill="currentColor" opacity="0.6" textAnchor="middle">
+                                    {format(blockTime2Date(c.timestamp), OHLCV_TIMEFRAME_SECONDS[timeframe] >= 43200 ? 'MMM d' : 'MMM d HH:mm')}
+                                </text>
+                            )}
+                        </g>
+                    );
+                })}
+            </svg>
+        );
+    };
+
+    return (
+        <div className="bg-base-100 rounded-lg p-4 shadow-sm">
+            <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+                <h2 className="text-base font-medium">Price ({nameY} per {nameX})</h2>
+                <div className="join">
+                    {TIMEFRAMES.map(tf => (
+                        <button
+                            key={tf}
+                            className={`join-item btn btn-xs ${timeframe === tf ? 'btn-primary' : 'btn-ghost'}`}
+                            onClick={() => setTimeframe(tf)}
+                        >
+                            {tf}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            {renderChart()}
+        </div>
+    );
+};
+
+export default PoolPriceChart;
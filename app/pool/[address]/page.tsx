@@ -0,0 +1,273 @@
+// app/pool/[address]/page.tsx
+'use client';
+
+import React, {useEffect, useState} from 'react';
+import {useParams} from 'next/navigation';
+import {PublicKey} from '@solana/web3.js';
+import DLMM from '@meteora-ag/dlmm';
+import {PositionBinLiquidity} from '@/app/types';
+import {getDefaultConnection} from '@/app/utils/cachedConnection';
+import {fetchWithRetry} from '@/app/utils/rateLimitedFetch';
+import {fetchPool, MeteoraPool, TimeWindowData} from '@/app/utils/meteoraDataAPI';
+import {formatCurrency, prettifyNumber} from '@/app/utils/numberFormatting';
+import {formatTokenBalance} from '@/app/utils/solana';
+import {isValidSolanaAddress} from '@/app/utils/validation';
+import {CompactTrendBars} from '@/app/components/Trend';
+import BinLiquidityHistogram from '@/app/components/BinLiquidityHistogram';
+import BacktestPanel from '@/app/components/BacktestPanel';
+import PoolPriceChart from './PoolPriceChart';
+import PoolPositions from './PoolPositions';
+import PoolLpLeaderboard from './PoolLpLeaderboard';
+
+// Bins fetched on each side of the active bin for the liquidity view
+const BINS_AROUND_ACTIVE = 35;
+
+const WINDOWS: (keyof TimeWindowData)[] = ['30m', '1h', '2h', '4h', '12h', '24h'];
+
+type LpTab = 'positions' | 'lps';
+
+interface OnChainPool {
+    activeBin: number;
+    binStep: number;
+    tokenXDecimal: number;
+    tokenYDecimal: number;
+    bins: PositionBinLiquidity[];
+}
+
+const loadOnChainPool = async (address: string): Promise<OnChainPool> => {
+    const connection = getDefaultConnection();
+    const dlmm = await fetchWithRetry(() => DLMM.create(connection, new PublicKey(address)));
+    const tokenXDecimal = dlmm.tokenX.mint.decimals;
+    const tokenYDecimal = dlmm.tokenY.mint.decimals;
+    const {activeBin, bins} = await fetchWithRetry(() =>
+        dlmm.getBinsAroundActiveBin(BINS_AROUND_ACTIVE, BINS_AROUND_ACTIVE)
+    );
+    return {
+        activeBin,
+        binStep: dlmm.lbPair.binStep,
+        tokenXDecimal,
+        tokenYDecimal,
+        bins: bins.map(bin => ({
+            binId: bin.binId,
+            price: parseFloat(bin.pricePerToken),
+            xAmount: formatTokenBalance(BigInt(bin.xAmount.toString()), tokenXDecimal),
+            yAmount: formatTokenBalance(BigInt(bin.yAmount.toString()), tokenYDecimal),
+        })),
+    };
+};
+
+const Stat: React.FC<{ label: string; value: React.ReactNode }> = ({label, value}) => (
+    <div>
+        <div className="text-xs text-base-content/50 mb-1">{label}</div>
+        <div className="font-bold text-base sm:text-lg">{value}</div>
+    </div>
+);
+
+const PoolDetailPage: React.FC = () => {
+    const params = useParams();
+    const address = decodeURIComponent(
+        typeof params.address === 'string' ? params.address : params.address?.[0] ?? ''
+    ).trim();
+
+    const [pool, setPool] = useState<MeteoraPool | null>(null);
+    const [onChain, setOnChain] = useState<OnChainPool | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [lpTab, setLpTab] = useState<LpTab>('positions');
+
+    useEffect(() => {
+        let cancelled = false;
+
+        const load = async () => {
+            if (!(await isValidSolanaAddress(address))) {
+                setError('Invalid pool address');
+                setIsLoading(false);
+                return;
+            }
+            setIsLoading(true);
+            setError(null);
+            try {
+                const [poolInfo, chainInfo] = await Promise.all([
+                    fetchPool(address),
+                    loadOnChainPool(address),
+                ]);
+                if (cancelled) return;
+                setPool(poolInfo);
+                setOnChain(chainInfo);
+            } catch (err) {
+                if (!cancelled) {
+                    console.error(`Error loading pool ${address}:`, err);
+                    setError('Failed to load pool. Is this a DLMM pool address?');
+                }
+            } finally {
+                if (!cancelled) setIsLoading(false);
+            }
+        };
+
+        load();
+        return () => {
+            cancelled = true;
+        };
+    }, [address]);
+
+    if (isLoading) {
+        return (
+            <div className="flex justify-center items-center h-screen">
+                <span className="loading loading-spinner loading-lg"></span>
+            </div>
+        );
+    }
+
+    if (error || !onChain) {
+        return (
+            <div className="container mx-auto p-4">
+                <div className="alert alert-error">
+                    <span>{error ?? 'Pool not found'}</span>
+                </div>
+            </div>
+        );
+    }
+
+    const [nameX = 'X', nameY = 'Y'] = (pool?.name ?? 'X-Y').split('-').map(t => t.trim());
+    const liquidity = parseFloat(pool?.liquidity ?? '0');
+    const dailyYield = pool && liquidity > 0 ? (pool.fees_24h / liquidity) * 100 : 0;
+
+    return (
+        <div className="container mx-auto p-2 sm:p-4 space-y-4">
+            {/* Header */}
+            <div className="bg-base-100 rounded-lg p-4 sm:p-6 shadow-sm">
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                    <div>
+                        <h1 className="text-xl sm:text-3xl font-bold flex items-center gap-2">
+                            {pool?.name ?? 'DLMM Pool'}
+                            {pool?.is_verified && <span className="badge badge-success badge-sm">verified</span>}
+                        </h1>
+                        <a
+                            href={`https://solscan.io/account/${address}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="font-mono text-xs text-base-content/60 hover:underline break-all"
+                        >
+                            {address}
+                        </a>
+                    </div>
+                    <a
+                        href={`https://app.meteora.ag/dlmm/${address}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="btn btn-sm btn-primary"
+                    >
+                        Open on Meteora
+                    </a>
+                </div>
+
+                {pool && (
+                    <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-6 gap-4 mt-4 pt-4 border-t border-base-300">
+                        <Stat label="Liquidity" value={formatCurrency(pool.liquidity)}/>
+                        <Stat label="24h Volume" value={formatCurrency(pool.trade_volume_24h)}/>
+                        <Stat label="24h Fees" value={formatCurrency(pool.fees_24h)}/>
+                        <Stat label="Daily Yield" value={<span className="text-info">{prettifyNumber(dailyYield)}%</span>}/>
+                        <Stat label="APR" value={`${prettifyNumber(pool.apr)}%`}/>
+                        <Stat label={`Price (${nameY}/${nameX})`} value={prettifyNumber(pool.current_price)}/>
+                        <Stat label="Bin Step" value={onChain.binStep}/>
+                        <Stat label="Base Fee" value={`${pool.base_fee_percentage}%`}/>
+                        <Stat label="Max Fee" value={`${pool.max_fee_percentage}%`}/>
+                        <Stat label="Protocol Fee" value={`${pool.protocol_fee_percentage}%`}/>
+                        <Stat label="All-time Volume" value={formatCurrency(pool.cumulative_trade_volume)}/>
+                        <Stat label="All-time Fees" value={formatCurrency(pool.cumulative_fee_volume)}/>
+                    </div>
+                )}
+            </div>
+
+            {/* Fee / volume trends */}
+            {pool && (
+                <div className="bg-base-100 rounded-lg p-4 shadow-sm">
+                    <h2 className="text-base font-medium mb-3">Activity by Window</h2>
+                    <div className="overflow-x-auto">
+                        <table className="table table-sm w-full text-xs">
+                            <thead>
+                            <tr>
+                                <th></th>
+                                {WINDOWS.map(w => <th key={w} className="text-right">{w}</th>)}
+                                <th className="text-center">Trend</th>
+                            </tr>
+                            </thead>
+                            <tbody>
+                            {([
+                                ['Volume', pool.volume, formatCurrency],
+                                ['Fees', pool.fees, formatCurrency],
+                                ['Fee / TVL', pool.fee_tvl_ratio, (v: number) => `${prettifyNumber(v)}%`],
+                            ] as const).map(([label, data, fmt]) => (
+                                <tr key={label} className="hover:bg-base-200">
+                                    <td className="font-bold">{label}</td>
+                                    {WINDOWS.map(w => <td key={w} className="text-right">{fmt(data[w])}</td>)}
+                                    <td className="text-center"><CompactTrendBars data={data}/></td>
+                                </tr>
+                            ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+
+            <PoolPriceChart poolAddress={address} nameX={nameX} nameY={nameY}/>
+
+            {/* Bin liquidity */}
+            <div className="bg-base-100 rounded-lg p-4 shadow-sm">
+                <h2 className="text-base font-medium mb-3">
+                    Liquidity Around Active Bin
+                    <span className="text-sm text-base-content/60 font-normal ml-2">±{BINS_AROUND_ACTIVE} bins</span>
+                </h2>
+                <BinLiquidityHistogram
+                    bins={onChain.bins}
+                    activeBin={onChain.activeBin}
+                    binStep={onChain.binStep}
+                    mintXDigits={onChain.tokenXDecimal}
+                    mintYDigits={onChain.tokenYDecimal}
+                    nameX={nameX}
+                    nameY={nameY}
+                />
+            </div>
+
+            {pool && (
+                <div className="bg-base-100 rounded-lg p-4 shadow-sm">
+                    <h2 className="text-base font-medium mb-3">Backtest a Position</h2>
+                    <BacktestPanel pool={pool}/>
+                </div>
+            )}
+
+            <div role="tablist" className="tabs tabs-boxed w-fit">
+                <button
+                    role="tab"
+                    onClick={() => setLpTab('positions')}
+                    className={`tab ${lpTab === 'positions' ? 'tab-active' : ''}`}
+                >
+                    Open Positions
+                </button>
+                <button
+                    role="tab"
+                    onClick={() => setLpTab('lps')}
+                    className={`tab ${lpTab === 'lps' ? 'tab-active' : ''}`}
+                >
+                    Top LPs
+                </button>
+            </div>
+
+            {lpTab === 'positions' ? (
+                <PoolPositions
+                    poolAddress={address}
+                    activeBin={onChain.activeBin}
+                    binStep={onChain.binStep}
+                    tokenXDecimal={onChain.tokenXDecimal}
+                    tokenYDecimal={onChain.tokenYDecimal}
+                    nameX={nameX}
+                    nameY={nameY}
+                />
+            ) : (
+                <PoolLpLeaderboard poolAddress={address} tokenYDecimal={onChain.tokenYDecimal} nameY={nameY}/>
+            )}
+        </div>
+    );
+};
+
+export default PoolDetailPage;
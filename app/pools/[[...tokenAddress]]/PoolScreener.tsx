@@ -0,0 +1,272 @@
+// app/pools/[[...tokenAddress]]/PoolScreener.tsx
+'use client';
+
+import React, {useCallback, useEffect, useMemo, useState} from 'react';
+import {usePathname, useRouter, useSearchParams} from 'next/navigation';
+import {
+    fetchPoolsPage,
+    MeteoraPool,
+    PoolProtocol,
+    PoolSortKey
+} from '@/app/utils/meteoraDataAPI';
+import {formatCurrency, prettifyNumber} from '@/app/utils/numberFormatting';
+import {CompactTrendBars} from '@/app/components/Trend';
+
+// DLMM pools open the in-app pool page; DAMM v2 pools still go to app.meteora.ag
+export const poolLinkProps = (pool: MeteoraPool): React.AnchorHTMLAttributes<HTMLAnchorElement> =>
+    pool.protocol === 'DLMM'
+        ? {href: `/pool/${pool.address}`}
+        : {href: `https://app.meteora.ag/dammv2/${pool.address}`, target: '_blank', rel: 'noopener noreferrer'};
+
+type ScreenerSort = 'fee_24h' | 'fee_tvl_ratio' | 'tvl' | 'volume';
+type ProtocolFilter = 'all' | 'dlmm' | 'damm-v2';
+
+const SORTS: { key: ScreenerSort; label: string; api: PoolSortKey; value: (p: MeteoraPool) => number }[] = [
+    {key: 'fee_24h', label: '24h Fees', api: 'fee_24h', value: p => p.fees_24h},
+    {key: 'fee_tvl_ratio', label: '24h Fee/TVL', api: 'fee_tvl_ratio_24h', value: p => p.fee_tvl_ratio['24h']},
+    {key: 'tvl', label: 'TVL', api: 'tvl', value: p => parseFloat(p.liquidity)},
+    {key: 'volume', label: '24h Volume', api: 'volume_24h', value: p => p.trade_volume_24h},
+];
+
+const PROTOCOLS: Record<ProtocolFilter, PoolProtocol[]> = {
+    'all': ['DLMM', 'DAMM v2'],
+    'dlmm': ['DLMM'],
+    'damm-v2': ['DAMM v2'],
+};
+
+const MIN_TVL_OPTIONS = [0, 1_000, 10_000, 100_000, 1_000_000];
+const PAGE_SIZE = 50;
+// Bin step and verified only filter loaded pages, so an empty result keeps paging up to this many pages
+const MAX_FILTER_PAGES = 20;
+
+interface ScreenerFilters {
+    sort: ScreenerSort;
+    protocol: ProtocolFilter;
+    binStep: number;
+    minTvl: number;
+    verified: boolean;
+}
+
+// Filters live in the query string (?sort=&protocol=&binStep=&minTvl=&verified=1) so views can be shared
+const readFilters = (params: URLSearchParams): ScreenerFilters => {
+    const sort = params.get('sort') as ScreenerSort;
+    const protocol = params.get('protocol') as ProtocolFilter;
+    return {
+        sort: SORTS.some(s => s.key === sort) ? sort : 'fee_24h',
+        protocol: protocol in PROTOCOLS ? protocol : 'all',
+        binStep: Math.max(parseInt(params.get('binStep') ?? '', 10) || 0, 0),
+        minTvl: Math.max(parseFloat(params.get('minTvl') ?? '') || 0, 0),
+        verified: params.get('verified') === '1',
+    };
+};
+
+const writeFilters = (filters: ScreenerFilters): string => {
+    const params = new URLSearchParams();
+    if (filters.sort !== 'fee_24h') params.set('sort', filters.sort);
+    if (filters.protocol !== 'all') params.set('protocol', filters.protocol);
+    if (filters.binStep > 0) params.set('binStep', String(filters.binStep));
+    if (filters.minTvl > 0) params.set('minTvl', String(filters.minTvl));
+    if (filters.verified) params.set('verified', '1');
+    return params.toString();
+};
+
+const PoolScreener: React.FC = () => {
+    const router = useRouter();
+    const pathname = usePathname();
+    const searchParams = useSearchParams();
+    const filters = useMemo(() => readFilters(new URLSearchParams(searchParams.toString())), [searchParams]);
+    const sort = SORTS.find(s => s.key === filters.sort)!;
+
+    const [pools, setPools] = useState<MeteoraPool[]>([]);
+    const [page, setPage] = useState(1);
+    const [hasMore, setHasMore] = useState(false);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const updateFilters = useCallback((patch: Partial<ScreenerFilters>) => {
+        const query = writeFilters({...filters, ...patch});
+        router.replace(query ? `${pathname}?${query}` : pathname, {scroll: false});
+    }, [filters, pathname, router]);
+
+    // Server-side sort and TVL floor reset paging; bin step and verified filter the loaded pages
+    useEffect(() => {
+        setPools([]);
+        setPage(1);
+    }, [filters.sort, filters.protocol, filters.minTvl]);
+
+    useEffect(() => {
+        let cancelled = false;
+        setIsLoading(true);
+        setError(null);
+
+        Promise.all(PROTOCOLS[filters.protocol].map(protocol =>
+            fetchPoolsPage(protocol, sort.api, page, PAGE_SIZE, filters.minTvl)
+        )).then(results => {
+            if (cancelled) return;
+            if (results.every(r => r === null)) {
+                setError('Failed to load pools');
+            } else {
+                const loaded = results.flatMap(r => r?.pools ?? []);
+                setPools(prev => page === 1 ? loaded : [...prev, ...loaded]);
+                setHasMore(results.some(r => r?.hasMore));
+            }
+            setIsLoading(false);
+        });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [filters.protocol, filters.minTvl, sort.api, page]);
+
+    const visiblePools = useMemo(() => {
+        const seen = new Set<string>();
+        return pools
+            .filter(p => {
+                if (seen.has(p.address)) return false;
+                seen.add(p.address);
+                return true;
+            })
+            .filter(p => filters.binStep === 0 || (p.protocol === 'DLMM' && p.bin_step === filters.binStep))
+            .filter(p => !filters.verified || p.is_verified)
+            .sort((a, b) => sort.value(b) - sort.value(a));
+    }, [pools, filters.binStep, filters.verified, sort]);
+
+    // The API can't filter by bin step or verification: page on until something matches
+    const clientFiltered = filters.binStep > 0 || filters.verified;
+    useEffect(() => {
+        if (clientFiltered && !isLoading && !error && hasMore && visiblePools.length === 0 && page < MAX_FILTER_PAGES) {
+            setPage(p => p + 1);
+        }
+    }, [clientFiltered, isLoading, error, hasMore, visiblePools.length, page]);
+
+    return (
+        <div className="container mx-auto p-2 sm:p-4">
+            <div className="bg-base-100 rounded-lg p-4 sm:p-6 shadow-sm mb-4">
+                <h1 className="text-xl sm:text-3xl font-bold mb-4">Pool Screener</h1>
+                <div className="flex flex-wrap items-end gap-3 sm:gap-4">
+                    <div className="join">
+                        {(Object.keys(PROTOCOLS) as ProtocolFilter[]).map(p => (
+                            <button
+                                key={p}
+                                className={`join-item btn btn-xs sm:btn-sm ${filters.protocol === p ? 'btn-primary' : 'btn-ghost'}`}
+                                onClick={() => updateFilters({protocol: p})}
+                            >
+                                {p === 'all' ? 'All' : p === 'dlmm' ? 'DLMM' : 'DAMM v2'}
+                            </button>
+                        ))}
+                    </div>
+                    <label className="form-control">
+                        <span className="label-text text-xs mb-1">Sort by</span>
+                        <select
+                            className="select select-bordered select-sm"
+                            value={filters.sort}
+                            onChange={(e) => updateFilters({sort: e.target.value as ScreenerSort})}
+                        >
+                            {SORTS.map(s => <option key={s.key} value={s.key}>{s.label}</option>)}
+                        </select>
+                    </label>
+                    <label className="form-control">
+                        <span className="label-text text-xs mb-1">Min TVL</span>
+                        <select
+                            className="select select-bordered select-sm"
+                            value={filters.minTvl}
+                            onChange={(e) => updateFilters({minTvl: Number(e.target.value)})}
+                        >
+                            {MIN_TVL_OPTIONS.map(v => (
+                                <option key={v} value={v}>{v === 0 ? 'Any' : formatCurrency(v)}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="form-control">
+                        <span className="label-text text-xs mb-1">Bin step</span>
+                        <input
+                            type="number"
+                            min={0}
+                            placeholder="Any"
+                            className="input input-bordered input-sm w-24"
+                            value={filters.binStep || ''}
+                            onChange={(e) => updateFilters({binStep: Math.max(parseInt(e.target.value, 10) || 0, 0)})}
+                        />
+                    </label>
+                    <label className="label cursor-pointer gap-2">
+                        <input
+                            type="checkbox"
+                            className="toggle toggle-success toggle-sm"
+                            checked={filters.verified}
+                            onChange={(e) => updateFilters({verified: e.target.checked})}
+                        />
+                        <span className="label-text text-sm whitespace-nowrap">Verified tokens</span>
+                    </label>
+                </div>
+            </div>
+
+            {error ? (
+                <div className="alert alert-error"><span>{error}</span></div>
+            ) : (
+                <div className="overflow-x-auto bg-base-100 rounded-lg shadow-sm">
+                    <table className="table table-zebra w-full text-sm">
+                        <thead>
+                        <tr className="bg-base-200">
+                            <th>Pool</th>
+                            {SORTS.map(s => (
+                                <th
+                                    key={s.key}
+                                    className={`text-right cursor-pointer hover:bg-base-300 ${filters.sort === s.key ? 'text-primary' : ''}`}
+                                    onClick={() => updateFilters({sort: s.key})}
+                                >
+                                    {s.label} {filters.sort === s.key ? '↓' : <span className="opacity-30">↕</span>}
+                                </th>
+                            ))}
+                            <th className="text-center">Fee Yield Trend</th>
+                        </tr>
+                        </thead>
+                        <tbody>
+                        {visiblePools.map(pool => (
+                            <tr key={pool.address} className="hover:bg-base-200/50 transition-colors">
+                                <td>
+                                    <a {...poolLinkProps(pool)} className="font-semibold hover:text-primary transition-colors">
+                                        {pool.name}
+                                    </a>
+                                    {pool.is_verified && <span className="badge badge-success badge-xs ml-2">verified</span>}
+                                    <div className="text-xs text-base-content/60 mt-1">
+                                        {pool.protocol === 'DLMM' ? `Bin: ${pool.bin_step} | ` : ''}Fee: {pool.base_fee_percentage}%
+                                        {pool.protocol !== 'DLMM' && (
+                                            <span className="badge badge-ghost badge-xs ml-1">DAMM v2</span>
+                                        )}
+                                    </div>
+                                </td>
+                                <td className="text-right font-medium">{formatCurrency(pool.fees_24h)}</td>
+                                <td className="text-right font-medium text-info">{prettifyNumber(pool.fee_tvl_ratio['24h'])}%</td>
+                                <td className="text-right font-medium">{formatCurrency(pool.liquidity)}</td>
+                                <td className="text-right font-medium">{formatCurrency(pool.trade_volume_24h)}</td>
+                                <td className="text-center"><CompactTrendBars data={pool.fee_tvl_ratio}/></td>
+                            </tr>
+                        ))}
+                        {!isLoading && visiblePools.length === 0 && (
+                            <tr>
+                                <td colSpan={6} className="text-center py-8 text-base-content/70">
+                                    {hasMore
+                                        ? `No matches among the first ${pools.length} pools; load more to keep searching`
+                                        : 'No pools match these filters'}
+                                </td>
+                            </tr>
+                        )}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            <div className="flex justify-center py-4">
+                {isLoading ? (
+                    <span className="loading loading-spinner loading-md"></span>
+                ) : hasMore && !error && (
+                    <button className="btn btn-sm btn-ghost" onClick={() => setPage(p => p + 1)}>
+                        Load more
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default PoolScreener;
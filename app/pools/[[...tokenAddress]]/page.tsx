@@ -10,77 +10,18 @@ import {formatCurrency, prettifyNumber} from '@/app/utils/numberFormatting';
 import {CompactTrendBars} from "@/app/components/Trend";
 import {calculateLiquidityDistribution} from '@/app/utils/liquidity';
 import {fetchTokenAssets, TokenAsset} from "@/app/utils/jup";
-
-interface TimeWindowData {
-    '30m': number;
-    '1h': number;
-    '2h': number;
-    '4h': number;
-    '12h': number;
-    '24h': number;
-}
-
-type PoolProtocol = 'DLMM' | 'DAMM v2';
-
-interface PoolInfo {
-    address: string;
-    name: string;
-    protocol: PoolProtocol;
-    mint_x: string;
-    mint_y: string;
-    token_x_amount: number;
-    token_y_amount: number;
-    bin_step: number;
-    base_fee_percentage: string;
-    liquidity: string;
-    fees_24h: number;
-    trade_volume_24h: number;
-    current_price: number;
-    apr: number;
-    apy: number;
-    fees: TimeWindowData;
-    fee_tvl_ratio: TimeWindowData;
-    volume: TimeWindowData;
-    is_verified: boolean;
-}
-
-const EMPTY_WINDOW: TimeWindowData = {'30m': 0, '1h': 0, '2h': 0, '4h': 0, '12h': 0, '24h': 0};
-
-const PROTOCOL_API_BASE: Record<PoolProtocol, string> = {
-    'DLMM': 'https://dlmm.datapi.meteora.ag',
-    'DAMM v2': 'https://damm-v2.datapi.meteora.ag',
-};
-
-const poolAppUrl = (pool: PoolInfo): string =>
-    pool.protocol === 'DLMM'
-        ? `https://app.meteora.ag/dlmm/${pool.address}`
-        : `https://app.meteora.ag/dammv2/${pool.address}`;
-
-// Maps a pool object from the Meteora data APIs (DLMM and DAMM v2 share this shape) to PoolInfo
-const mapApiPool = (raw: any, protocol: PoolProtocol): PoolInfo => ({
-    address: raw.address,
-    name: raw.name,
-    protocol,
-    mint_x: raw.token_x?.address ?? '',
-    mint_y: raw.token_y?.address ?? '',
-    token_x_amount: raw.token_x_amount ?? 0,
-    token_y_amount: raw.token_y_amount ?? 0,
-    bin_step: raw.pool_config?.bin_step ?? 0,
-    base_fee_percentage: String(raw.pool_config?.base_fee_pct ?? 0),
-    liquidity: String(raw.tvl ?? 0),
-    fees_24h: raw.fees?.['24h'] ?? 0,
-    trade_volume_24h: raw.volume?.['24h'] ?? 0,
-    current_price: raw.current_price ?? 0,
-    apr: raw.apr ?? 0,
-    apy: raw.apy ?? 0,
-    fees: raw.fees ?? EMPTY_WINDOW,
-    fee_tvl_ratio: raw.fee_tvl_ratio ?? EMPTY_WINDOW,
-    volume: raw.volume ?? EMPTY_WINDOW,
-    is_verified: Boolean(raw.token_x?.is_verified && raw.token_y?.is_verified),
-});
-
-const fetchProtocolPools = async (protocol: PoolProtocol, tokenAddress: string): Promise<PoolInfo[]> => {
-    const pools: PoolInfo[] = [];
+import {mapApiPool, MeteoraPool, PoolProtocol, PROTOCOL_API_BASE} from "@/app/utils/meteoraDataAPI";
+import PoolScreener, {poolLinkProps} from "./PoolScreener";
+import BacktestPanel from "@/app/components/BacktestPanel";
+import {
+    DEFAULT_MOMENTUM_THRESHOLD,
+    getFeeMomentum,
+    getMomentumThreshold,
+    setMomentumThreshold as persistMomentumThreshold
+} from "@/app/utils/momentum";
+
+const fetchProtocolPools = async (protocol: PoolProtocol, tokenAddress: string): Promise<MeteoraPool[]> => {
+    const pools: MeteoraPool[] = [];
     const limit = 100;
     let page = 1;
 
@@ -101,19 +42,41 @@ const fetchProtocolPools = async (protocol: PoolProtocol, tokenAddress: string):
     return pools;
 };
 
-function getDailyYield(pool: PoolInfo): number {
+function getDailyYield(pool: MeteoraPool): number {
     const liquidity = parseFloat(pool.liquidity);
     return liquidity > 0 ? pool.fees_24h / liquidity : 0;
 }
 
-type SortKey = 'name' | 'liquidity' | 'fees_24h' | 'trade_volume_24h' | 'apr' | 'apy' | 'daily_yield';
+const formatMomentum = (score: number | null): string => score === null ? '—' : `${score.toFixed(1)}×`;
+
+const isHeatingUp = (pool: MeteoraPool, threshold: number): boolean => {
+    const score = getFeeMomentum(pool.fees);
+    return score !== null && score >= threshold;
+};
+
+const HeatingUpBadge: React.FC<{ pool: MeteoraPool; threshold: number }> = ({pool, threshold}) =>
+    isHeatingUp(pool, threshold) ? (
+        <span className="badge badge-error badge-xs whitespace-nowrap"
+              title={`Recent fee rate is ${formatMomentum(getFeeMomentum(pool.fees))} the 24h average`}>
+            🔥 heating up
+        </span>
+    ) : null;
+
+const BacktestButton: React.FC<{ pool: MeteoraPool; onBacktest: (pool: MeteoraPool) => void }> = ({pool, onBacktest}) =>
+    pool.protocol === 'DLMM' ? (
+        <button className="btn btn-ghost btn-xs ml-1" onClick={() => onBacktest(pool)}>
+            Backtest
+        </button>
+    ) : null;
+
+type SortKey = 'name' | 'liquidity' | 'fees_24h' | 'trade_volume_24h' | 'apr' | 'apy' | 'daily_yield' | 'momentum';
 type SortDirection = 'asc' | 'desc';
 
 const PoolPage: React.FC = () => {
     const params = useParams();
     const [tokenAddress, setTokenAddress] = useState<string>('');
     const [tokenInfo, setTokenInfo] = useState<any>(null);
-    const [pools, setPools] = useState<PoolInfo[]>([]);
+    const [pools, setPools] = useState<MeteoraPool[]>([]);
     const [tokenAssets, setTokenAssets] = useState<Map<string, TokenAsset>>(new Map());
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
@@ -121,6 +84,10 @@ const PoolPage: React.FC = () => {
     const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
     const [hideZeroVolume, setHideZeroVolume] = useState(true);
     const [hideLowLiquidity, setHideLowLiquidity] = useState(true);
+    const [momentumThreshold, setMomentumThreshold] = useState(DEFAULT_MOMENTUM_THRESHOLD);
+    // Raw input text, so the field can be cleared or hold "1." while typing
+    const [thresholdInput, setThresholdInput] = useState(String(DEFAULT_MOMENTUM_THRESHOLD));
+    const [backtestPool, setBacktestPool] = useState<MeteoraPool | null>(null);
     const [searchQuery, setSearchQuery] = useState('');
     const [protocolFilter, setProtocolFilter] = useState<'all' | PoolProtocol>('all');
 
@@ -154,7 +121,7 @@ const PoolPage: React.FC = () => {
                     fetchProtocolPools('DLMM', tokenAddress),
                     fetchProtocolPools('DAMM v2', tokenAddress).catch(err => {
                         console.error('DAMM v2 pools unavailable:', err);
-                        return [] as PoolInfo[];
+                        return [] as MeteoraPool[];
                     }),
                 ]);
                 const allPools = [...dlmmPools, ...dammPools];
@@ -200,6 +167,20 @@ const PoolPage: React.FC = () => {
         };
     }, [tokenAddress]);
 
+    useEffect(() => {
+        const stored = getMomentumThreshold();
+        setMomentumThreshold(stored);
+        setThresholdInput(String(stored));
+    }, []);
+
+    const handleThresholdChange = (raw: string) => {
+        setThresholdInput(raw);
+        const value = parseFloat(raw);
+        if (!(value > 0)) return;
+        setMomentumThreshold(value);
+        persistMomentumThreshold(value);
+    };
+
     const sortedPools = useMemo(() => {
         let filtered = pools;
 
@@ -254,6 +235,10 @@ const PoolPage: React.FC = () => {
                     aVal = getDailyYield(a);
                     bVal = getDailyYield(b);
                     break;
+                case 'momentum':
+                    aVal = getFeeMomentum(a.fees) ?? 0;
+                    bVal = getFeeMomentum(b.fees) ?? 0;
+                    break;
                 default:
                     return 0;
             }
@@ -356,6 +341,19 @@ const PoolPage: React.FC = () => {
                             />
                             <span className="label-text text-xs sm:text-sm whitespace-nowrap">Hide low-liquidity</span>
                         </label>
+
+                        <label className="label gap-2" title="Flag pools whose recent fee rate is at least this multiple of their 24h average">
+                            <span className="label-text text-xs sm:text-sm whitespace-nowrap">Heating up at</span>
+                            <input
+                                type="number"
+                                min={1}
+                                step={0.5}
+                                className="input input-bordered input-xs w-16"
+                                value={thresholdInput}
+                                onChange={(e) => handleThresholdChange(e.target.value)}
+                            />
+                            <span className="label-text text-xs sm:text-sm">×</span>
+                        </label>
                     </div>
                 </div>
             </div>
@@ -567,12 +565,19 @@ const PoolPage: React.FC = () => {
                                 >
                                     Daily Yield <SortIcon column="daily_yield"/>
                                 </th>
+                                <th
+                                    className="cursor-pointer hover:bg-base-300 transition-colors text-right"
+                                    onClick={() => handleSort('momentum')}
+                                    title="Recent (30m/1h) fee rate vs the 24h average"
+                                >
+                                    Momentum <SortIcon column="momentum"/>
+                                </th>
                             </tr>
                             </thead>
                             <tbody>
                             {sortedPools.length === 0 ? (
                                 <tr>
-                                    <td colSpan={7} className="text-center py-8">
+                                    <td colSpan={8} className="text-center py-8">
                                         <div className="text-base-content/70">
                                             No pools match {searchQuery}
                                         </div>
@@ -631,12 +636,11 @@ const PoolPage: React.FC = () => {
 
                                                     <div className="flex-1">
                                                         <a
-                                                            href={poolAppUrl(pool)}
-                                                            target="_blank"
-                                                            rel="noopener noreferrer"
+                                                            {...poolLinkProps(pool)}
                                                             className="font-semibold hover:text-primary transition-colors flex items-center gap-2"
                                                         >
                                                             {pool.name}
+                                                            <HeatingUpBadge pool={pool} threshold={momentumThreshold}/>
                                                             {pool.is_verified && (
                                                                 <svg
                                                                     xmlns="http://www.w3.org/2000/svg"
@@ -655,6 +659,7 @@ const PoolPage: React.FC = () => {
                                                             {pool.protocol !== 'DLMM' && (
                                                                 <span className="badge badge-ghost badge-xs ml-1">DAMM v2</span>
                                                             )}
+                                                            <BacktestButton pool={pool} onBacktest={setBacktestPool}/>
                                                         </div>
                                                     </div>
                                                 </div>
@@ -696,6 +701,9 @@ const PoolPage: React.FC = () => {
                                                     {prettifyNumber(getDailyYield(pool) * 100)}%
                                                 </span>
                                             </td>
+                                            <td className={`text-right font-medium ${isHeatingUp(pool, momentumThreshold) ? 'text-error' : ''}`}>
+                                                {formatMomentum(getFeeMomentum(pool.fees))}
+                                            </td>
                                         </tr>
                                     );
                                 })
@@ -772,12 +780,11 @@ const PoolPage: React.FC = () => {
                                             </div>
                                             <div className="flex-1">
                                                 <a
-                                                    href={poolAppUrl(pool)}
-                                                    target="_blank"
-                                                    rel="noopener noreferrer"
+                                                    {...poolLinkProps(pool)}
                                                     className="font-bold text-base hover:text-primary transition-colors flex items-center gap-2"
                                                 >
                                                     {pool.name}
+                                                    <HeatingUpBadge pool={pool} threshold={momentumThreshold}/>
                                                     {pool.is_verified && (
                                                         <svg
                                                             xmlns="http://www.w3.org/2000/svg"
@@ -796,6 +803,7 @@ const PoolPage: React.FC = () => {
                                                             {pool.protocol !== 'DLMM' && (
                                                                 <span className="badge badge-ghost badge-xs ml-1">DAMM v2</span>
                                                             )}
+                                                    <BacktestButton pool={pool} onBacktest={setBacktestPool}/>
                                                 </div>
                                             </div>
                                         </div>
@@ -842,6 +850,12 @@ const PoolPage: React.FC = () => {
                                                     {prettifyNumber(getDailyYield(pool) * 100)}%
                                                 </div>
                                             </div>
+                                            <div>
+                                                <div className="text-xs text-base-content/60">Fee Momentum</div>
+                                                <div className={`font-bold text-sm ${isHeatingUp(pool, momentumThreshold) ? 'text-error' : ''}`}>
+                                                    {formatMomentum(getFeeMomentum(pool.fees))}
+                                                </div>
+                                            </div>
                                         </div>
 
                                         {/* Trend */}
@@ -856,8 +870,27 @@ const PoolPage: React.FC = () => {
                     </div>
                 </>
             )}
+
+            {backtestPool && (
+                <dialog className="modal modal-open" onClose={() => setBacktestPool(null)}>
+                    <div className="modal-box max-w-3xl">
+                        <h3 className="font-bold text-lg mb-4">Backtest: {backtestPool.name}</h3>
+                        <BacktestPanel pool={backtestPool}/>
+                        <div className="modal-action">
+                            <button className="btn btn-sm" onClick={() => setBacktestPool(null)}>Close</button>
+                        </div>
+                    </div>
+                    <div className="modal-backdrop" onClick={() => setBacktestPool(null)}></div>
+                </dialog>
+            )}
         </div>
     );
 };
 
-export default PoolPage;
+// /pools without a token opens the protocol-wide screener
+const PoolsRoute: React.FC = () => {
+    const params = useParams();
+    return params.tokenAddress ? <PoolPage/> : <PoolScreener/>;
+};
+
+export default PoolsRoute;
@@ -1,26 +1,36 @@
 // app/position/[[...positionPubKeys]]/PositionStatus.tsx
 import React, {useCallback, useEffect, useMemo, useState, useRef} from 'react';
-import {blockTime2Date} from '@/app/utils/solana';
+import {blockTime2Date, date2BlockTime} from '@/app/utils/solana';
 import {formatDistanceToNow} from "date-fns";
-import {EventInfo, EventType, PositionLiquidityData, MetricsType} from "@/app/types";
+import {EventInfo, EventType, PositionLiquidityData, MetricsType, PnlBreakdown, PnlBreakdownTotal} from "@/app/types";
 import {prettifyNumber} from "@/app/utils/numberFormatting";
 import {getPositionsInfo} from "@/app/utils/dlmm";
 import Decimal from "decimal.js";
 import {formatPubKey} from "@/app/utils/formatters";
 import {getNoRetryConnection} from "@/app/utils/cachedConnection";
 import {fetchPositionsPnl, PositionPnl} from "@/app/utils/meteoraDataAPI";
+import {getPnlBreakdown, sumPnlBreakdowns} from "@/app/utils/pnl";
+import PositionTimelineChart from "./PositionTimelineChart";
+import TimeInRange from "@/app/components/TimeInRange";
+import ExportButtons from "@/app/components/ExportButtons";
+import {buildOperationRows, downloadRows} from "@/app/utils/export";
 
 const pnlNum = (v: string | number | null | undefined): number => {
     const n = typeof v === 'string' ? parseFloat(v) : (v ?? 0);
     return Number.isFinite(n) ? n : 0;
 };
 
+const binRangeOf = (pnl: PositionPnl | undefined) =>
+    pnl ? {lowerBinId: pnl.lowerBinId, upperBinId: pnl.upperBinId} : null;
+
 
 type MetricsResult = {
     totalInvested: Decimal;
     currentValue: Decimal;
     totalWithdrawn: Decimal;
+    totalRewards: Decimal;
     startDate: Date | null;
+    breakdown: PnlBreakdownTotal | null;
 };
 
 interface MetricsState {
@@ -37,6 +47,7 @@ const getEventColor = (operation: string | undefined): string => {
         'addLiquidity': 'bg-success bg-opacity-20 border-success text-success-content',
         'removeLiquidity': 'bg-error bg-opacity-20 border-error text-error-content',
         'claimFee': 'bg-warning bg-opacity-20 border-warning text-warning-content',
+        'claimReward': 'bg-accent bg-opacity-20 border-accent text-accent-content',
         'positionClose': 'bg-neutral bg-opacity-50 border border-neutral text-neutral-content',
         'positionCreate': 'bg-info bg-opacity-20 border-info text-info-content',
     };
@@ -48,13 +59,31 @@ const getEventIcon = (operation: string | undefined): string => {
         'addLiquidity': '➕',
         'removeLiquidity': '➖',
         'claimFee': '💰',
+        'claimReward': '🎁',
         'positionClose': '🔒',
         'positionCreate': '🆕',
     };
     return icons[operation as keyof typeof icons] || '❓';
 };
 
-const getEventDescription = (eventInfo: Partial<EventInfo> | undefined, tokenXSymbol: string, tokenYSymbol: string): string => {
+// Farming rewards sit in up to two reward tokens; an unused slot has no symbol
+const formatRewardAmounts = (
+    amountX: Decimal | undefined,
+    amountY: Decimal | undefined,
+    rewardXSymbol: string,
+    rewardYSymbol: string
+): string => [
+    rewardXSymbol && amountX && !amountX.isZero() ? `${prettifyNumber(amountX)} ${rewardXSymbol}` : '',
+    rewardYSymbol && amountY && !amountY.isZero() ? `${prettifyNumber(amountY)} ${rewardYSymbol}` : '',
+].filter(Boolean).join(' + ') || '0';
+
+const getEventDescription = (
+    eventInfo: Partial<EventInfo> | undefined,
+    tokenXSymbol: string,
+    tokenYSymbol: string,
+    rewardXSymbol: string,
+    rewardYSymbol: string
+): string => {
     if (eventInfo === undefined) {
         return 'Unknown operation';
     }
@@ -63,23 +92,81 @@ const getEventDescription = (eventInfo: Partial<EventInfo> | undefined, tokenXSy
         case EventType.RemoveLiquidity:
         case EventType.ClaimFee:
             return `${prettifyNumber(eventInfo.tokenXChange)} ${tokenXSymbol} + ${prettifyNumber(eventInfo.tokenYChange)} ${tokenYSymbol}`;
-        case EventType.PositionClose:
+        case EventType.ClaimReward:
+            return formatRewardAmounts(eventInfo.tokenXChange, eventInfo.tokenYChange, rewardXSymbol, rewardYSymbol);
         case EventType.PositionCreate:
-            return '';
+            return eventInfo.rent ? `Rent paid: ${prettifyNumber(eventInfo.rent)} SOL` : '';
+        case EventType.PositionClose:
+            return eventInfo.rent ? `Rent refunded: ${prettifyNumber(eventInfo.rent)} SOL` : '';
         default:
             return 'Unknown operation';
     }
 };
 
 
+const signedClass = (value: Decimal): string => value.gte(0) ? 'text-success' : 'text-error';
+
+// Fee income, impermanent loss and the HODL comparison for a position or a group of positions
+const PnlBreakdownRow: React.FC<{ breakdown: PnlBreakdown; compact?: boolean; skipped?: number }> = ({
+    breakdown, compact, skipped = 0
+}) => {
+    const vsHodl = breakdown.feeIncome.plus(breakdown.rewardIncome).plus(breakdown.impermanentLoss);
+    return (
+        <>
+            <div className={`divider ${compact ? 'my-2' : 'my-4'} opacity-10`}></div>
+            {skipped > 0 && (
+                <div className="mb-2">
+                    <span className="badge badge-warning badge-sm"
+                          title="These positions have no current token price, so they are missing from the figures below.">
+                        partial: {skipped} position{skipped === 1 ? '' : 's'} without a price
+                    </span>
+                </div>
+            )}
+            <div className={`grid grid-cols-2 sm:grid-cols-4 ${compact ? 'gap-4' : 'gap-6'}`}>
+                <div className="space-y-1">
+                    <p className="text-sm text-base-content/70">Fee Income</p>
+                    <p className="text-xl font-medium text-success">{prettifyNumber(breakdown.feeIncome)} USD</p>
+                    {!breakdown.rewardIncome.isZero() && (
+                        <p className="text-xs text-success">+{prettifyNumber(breakdown.rewardIncome)} USD rewards</p>
+                    )}
+                </div>
+                <div className="space-y-1">
+                    <p className="text-sm text-base-content/70 cursor-help"
+                       title="Current value plus withdrawals, minus what the deposited tokens would be worth today if held.">
+                        Impermanent Loss ⓘ
+                    </p>
+                    <p className={`text-xl font-medium ${signedClass(breakdown.impermanentLoss)}`}>
+                        {prettifyNumber(breakdown.impermanentLoss)} USD
+                    </p>
+                </div>
+                <div className="space-y-1">
+                    <p className="text-sm text-base-content/70">HODL Value</p>
+                    <p className="text-xl font-medium">{prettifyNumber(breakdown.hodlValue)} USD</p>
+                    <p className={`text-xs ${signedClass(breakdown.priceChange)}`}>
+                        {breakdown.priceChange.gte(0) ? '+' : ''}{prettifyNumber(breakdown.priceChange)} USD price move
+                    </p>
+                </div>
+                <div className="space-y-1">
+                    <p className="text-sm text-base-content/70">LP vs HODL</p>
+                    <p className={`text-xl font-medium ${signedClass(vsHodl)}`}>
+                        {vsHodl.gte(0) ? '+' : ''}{prettifyNumber(vsHodl)} USD
+                    </p>
+                </div>
+            </div>
+        </>
+    );
+};
+
 const PositionStatus: React.FC<PositionStatusProps> = ({ positionPubKeys }) => {
     const [positionsData, setPositionsData] = useState<{ [key: string]: PositionLiquidityData }>({});
     const [pnlMap, setPnlMap] = useState<Map<string, PositionPnl>>(new Map());
+    const [failedPositions, setFailedPositions] = useState<string[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [showDetails, setShowDetails] = useState<{ [key: string]: boolean }>({});
     const [showOperations, setShowOperations] = useState<{ [key: string]: boolean }>({});
     const [showPositions, setShowPositions] = useState<{ [key: string]: boolean }>({});
+    const [showCharts, setShowCharts] = useState<{ [key: string]: boolean }>({});
     const calculateCallCount = useRef(0);
 
     const fetchTransactions = useCallback(async () => {
@@ -88,8 +175,9 @@ const PositionStatus: React.FC<PositionStatusProps> = ({ positionPubKeys }) => {
 
         try {
             const connection = getNoRetryConnection();
-            const newPositionsData = await getPositionsInfo(connection, positionPubKeys);
-            setPositionsData(newPositionsData);
+            const {positions, failed} = await getPositionsInfo(connection, positionPubKeys);
+            setPositionsData(positions);
+            setFailedPositions(failed);
         } catch (err) {
             setError('Failed to fetch transactions. Please try again later.');
         } finally {
@@ -134,14 +222,19 @@ const PositionStatus: React.FC<PositionStatusProps> = ({ positionPubKeys }) => {
 
     const calculateMetrics = useCallback((positions: { [key: string]: PositionLiquidityData }) => {
         calculateCallCount.current += 1;
-        return Object.values(positions).reduce((acc, position) => {
+        const positionList = Object.values(positions);
+        const totals = positionList.reduce((acc, position) => {
             const convertedDeposits = position.totalDeposits.getTotalUSDValue();
             const convertedCurrent = position.totalCurrent.getTotalUSDValue().plus(position.totalUnclaimedFees.getTotalUSDValue());
-            const convertedWithdrawn = position.totalWithdrawals.getTotalUSDValue().plus(position.totalClaimedFees.getTotalUSDValue());
+            const convertedRewards = position.totalClaimedRewards.getTotalUSDValue();
+            const convertedWithdrawn = position.totalWithdrawals.getTotalUSDValue()
+                .plus(position.totalClaimedFees.getTotalUSDValue())
+                .plus(convertedRewards);
 
             acc.totalInvested = acc.totalInvested.plus(convertedDeposits);
             acc.currentValue = acc.currentValue.plus(convertedCurrent);
             acc.totalWithdrawn = acc.totalWithdrawn.plus(convertedWithdrawn);
+            acc.totalRewards = acc.totalRewards.plus(convertedRewards);
             acc.startDate = position.startDate && (!acc.startDate || position.startDate < acc.startDate)
                 ? position.startDate
                 : acc.startDate;
@@ -150,10 +243,18 @@ const PositionStatus: React.FC<PositionStatusProps> = ({ positionPubKeys }) => {
             totalInvested: new Decimal(0),
             currentValue: new Decimal(0),
             totalWithdrawn: new Decimal(0),
+            totalRewards: new Decimal(0),
             startDate: null as Date | null
         });
+        return {...totals, breakdown: sumPnlBreakdowns(positionList.map(getPnlBreakdown))};
     }, []);
 
+    const allPositions = useMemo(() => Object.values(positionsData), [positionsData]);
+    const timelinePositions = useMemo(
+        () => Object.entries(positionsData).map(([pubKey, position]) => ({position, range: binRangeOf(pnlMap.get(pubKey))})),
+        [positionsData, pnlMap]
+    );
+
     const groupedPositions = useMemo(() => {
         const sortedPositions = Object.entries(positionsData).sort((a, b) =>
             b[1].lastUpdatedAt.getTime() - a[1].lastUpdatedAt.getTime()
@@ -220,6 +321,9 @@ const PositionStatus: React.FC<PositionStatusProps> = ({ positionPubKeys }) => {
                 <div className="space-y-1">
                     <p className="text-sm text-base-content/70">Total Withdrawn</p>
                     <p className="text-xl font-medium text-warning">{prettifyNumber(metrics.totalWithdrawn)} USD</p>
+                    {metrics.totalRewards && !metrics.totalRewards.isZero() && (
+                        <p className="text-xs text-base-content/60">incl. {prettifyNumber(metrics.totalRewards)} USD rewards</p>
+                    )}
                 </div>
             </div>
             <div className="divider my-4 opacity-10"></div>
@@ -245,6 +349,7 @@ const PositionStatus: React.FC<PositionStatusProps> = ({ positionPubKeys }) => {
                     </p>
                 </div>
             </div>
+            {metrics.breakdown && <PnlBreakdownRow breakdown={metrics.breakdown} skipped={metrics.breakdown.skipped}/>}
         </div>
     );
 
@@ -266,8 +371,37 @@ const PositionStatus: React.FC<PositionStatusProps> = ({ positionPubKeys }) => {
     return (
         <div className="p-4 max-w-6xl mx-auto">
             <h1 className="text-3xl font-bold mb-8 text-base-content">Positions Status</h1>
+            {failedPositions.length > 0 && (
+                <div className="alert alert-warning mb-8">
+                    <span>
+                        {failedPositions.length} position{failedPositions.length === 1 ? '' : 's'} could not be loaded
+                        and {failedPositions.length === 1 ? 'is' : 'are'} left out of every total below:
+                        {' '}{failedPositions.map(key => formatPubKey(key)).join(', ')}
+                    </span>
+                    <button className="btn btn-sm" onClick={fetchTransactions}>Retry</button>
+                </div>
+            )}
             {/* Overall Summary */}
             {allMetrics.overall && renderSummary(allMetrics.overall, "Overall Summary")}
+            <div className="bg-base-100 rounded-lg p-6 shadow-sm mb-8">
+                <div className="flex flex-wrap justify-between items-center gap-4">
+                    <button
+                        className="btn btn-sm btn-outline"
+                        onClick={() => setShowCharts(prev => ({...prev, overall: !prev.overall}))}
+                    >
+                        {showCharts.overall ? 'Hide Value Timeline' : 'Show Value Timeline'}
+                    </button>
+                    <ExportButtons
+                        label="Export all operations"
+                        onExport={(format) => downloadRows(buildOperationRows(allPositions), 'position-operations', format)}
+                    />
+                </div>
+                {showCharts.overall && (
+                    <div className="mt-4">
+                        <PositionTimelineChart positions={timelinePositions}/>
+                    </div>
+                )}
+            </div>
 
             {Object.entries(groupedPositions).map(([pairKey, positions]) => {
                 const groupMetrics = allMetrics.grouped[pairKey] || {} as MetricsType;
@@ -302,6 +436,9 @@ const PositionStatus: React.FC<PositionStatusProps> = ({ positionPubKeys }) => {
                                             totalWithdrawals,
                                             totalUnclaimedFees,
                                             totalClaimedFees,
+                                            totalClaimedRewards,
+                                            rewardXSymbol,
+                                            rewardYSymbol,
                                             totalCurrent
                                         } = positionData;
 
@@ -314,13 +451,14 @@ const PositionStatus: React.FC<PositionStatusProps> = ({ positionPubKeys }) => {
                                         };
 // Update these calculation functions:
                                         const getTotalInvestment = () => prettifyNumber(totalDeposits.getTotalUSDValue());
-                                        const getTotalWithdrawn = () => prettifyNumber(totalWithdrawals.getTotalUSDValue().plus(totalClaimedFees.getTotalUSDValue()));
+                                        const getTotalWithdrawn = () => prettifyNumber(totalWithdrawals.getTotalUSDValue().plus(totalClaimedFees.getTotalUSDValue()).plus(totalClaimedRewards.getTotalUSDValue()));
                                         const getCurrentValue = () => prettifyNumber(totalCurrent.getTotalUSDValue().plus(totalUnclaimedFees.getTotalUSDValue()));
                                         const getNetProfit = () => {
                                             const profit = totalCurrent.getTotalUSDValue()
                                                 .plus(totalUnclaimedFees.getTotalUSDValue())
                                                 .plus(totalWithdrawals.getTotalUSDValue())
                                                 .plus(totalClaimedFees.getTotalUSDValue())
+                                                .plus(totalClaimedRewards.getTotalUSDValue())
                                                 .minus(totalDeposits.getTotalUSDValue());
                                             return prettifyNumber(profit);
                                         };
@@ -332,6 +470,7 @@ const PositionStatus: React.FC<PositionStatusProps> = ({ positionPubKeys }) => {
                                                 .plus(totalUnclaimedFees.getTotalUSDValue())
                                                 .plus(totalWithdrawals.getTotalUSDValue())
                                                 .plus(totalClaimedFees.getTotalUSDValue())
+                                                .plus(totalClaimedRewards.getTotalUSDValue())
                                                 .div(invested)
                                                 .minus(1)
                                                 .mul(100);
@@ -339,6 +478,7 @@ const PositionStatus: React.FC<PositionStatusProps> = ({ positionPubKeys }) => {
                                         };
 
                                         const apiPnl = pnlMap.get(pubKey);
+                                        const breakdown = getPnlBreakdown(positionData);
 
                                         return (
                                             <div key={pubKey}
@@ -398,6 +538,11 @@ const PositionStatus: React.FC<PositionStatusProps> = ({ positionPubKeys }) => {
                                                             <p className="text-sm text-base-content/70">Total
                                                                 Withdrawn</p>
                                                             <p className="text-xl font-medium text-warning">{getTotalWithdrawn()} USD</p>
+                                                            {!totalClaimedRewards.getTotalUSDValue().isZero() && (
+                                                                <p className="text-xs text-base-content/60">
+                                                                    incl. {prettifyNumber(totalClaimedRewards.getTotalUSDValue())} USD rewards
+                                                                </p>
+                                                            )}
                                                         </div>
                                                     </div>
                                                     <div className="divider my-2 opacity-10"></div>
@@ -430,10 +575,26 @@ const PositionStatus: React.FC<PositionStatusProps> = ({ positionPubKeys }) => {
                                                             <p className="text-xl font-medium">{getDaysActive()}</p>
                                                         </div>
                                                     </div>
+                                                    {breakdown && <PnlBreakdownRow breakdown={breakdown} compact/>}
+                                                    {apiPnl && (
+                                                        <>
+                                                            <div className="divider my-2 opacity-10"></div>
+                                                            <TimeInRange
+                                                                poolAddress={positionData.lbPair.toString()}
+                                                                lowerBinId={apiPnl.lowerBinId}
+                                                                upperBinId={apiPnl.upperBinId}
+                                                                binStep={positionData.binStep}
+                                                                tokenXDecimal={positionData.tokenXDecimals}
+                                                                tokenYDecimal={positionData.tokenYDecimals}
+                                                                startTime={date2BlockTime(startDate)}
+                                                                endTime={apiPnl.isClosed ? date2BlockTime(positionData.lastUpdatedAt) : undefined}
+                                                            />
+                                                        </>
+                                                    )}
                                                 </div>
 
                                                 {/* Toggles */}
-                                                <div className="flex space-x-4 mb-4">
+                                                <div className="flex flex-wrap gap-x-4 mb-4">
                                                     <div className="form-control">
                                                         <label className="cursor-pointer label">
                                                             <span className="label-text mr-2">Show Details</span>
@@ -448,6 +609,20 @@ const PositionStatus: React.FC<PositionStatusProps> = ({ positionPubKeys }) => {
                                                             />
                                                         </label>
                                                     </div>
+                                                    <div className="form-control">
+                                                        <label className="cursor-pointer label">
+                                                            <span className="label-text mr-2">Show Chart</span>
+                                                            <input
+                                                                type="checkbox"
+                                                                className="toggle toggle-accent toggle-sm"
+                                                                checked={showCharts[pubKey] || false}
+                                                                onChange={() => setShowCharts(prev => ({
+                                                                    ...prev,
+                                                                    [pubKey]: !prev[pubKey]
+                                                                }))}
+                                                            />
+                                                        </label>
+                                                    </div>
                                                     <div className="form-control">
                                                         <label className="cursor-pointer label">
                                                             <span className="label-text mr-2">Show Operations</span>
@@ -462,6 +637,11 @@ const PositionStatus: React.FC<PositionStatusProps> = ({ positionPubKeys }) => {
                                                             />
                                                         </label>
                                                     </div>
+                                                    <div className="flex items-center ml-auto">
+                                                        <ExportButtons
+                                                            onExport={(format) => downloadRows(buildOperationRows([positionData]), `operations-${pubKey}`, format)}
+                                                        />
+                                                    </div>
                                                 </div>
 
                                                 {showDetails[pubKey] && (
@@ -510,6 +690,24 @@ const PositionStatus: React.FC<PositionStatusProps> = ({ positionPubKeys }) => {
                                                             </tr>
                                                             </tbody>
                                                         </table>
+                                                        {totalClaimedRewards.balances.length > 0 && (
+                                                            <p className="text-sm mt-2 text-base-content/70">
+                                                                Claimed rewards: {formatRewardAmounts(
+                                                                    totalClaimedRewards.getTotalTokenXBalance(),
+                                                                    totalClaimedRewards.getTotalTokenYBalance(),
+                                                                    rewardXSymbol,
+                                                                    rewardYSymbol
+                                                                )} (${prettifyNumber(totalClaimedRewards.getTotalUSDValue())})
+                                                            </p>
+                                                        )}
+                                                    </div>
+                                                )}
+
+                                                {showCharts[pubKey] && (
+                                                    <div className="mb-4">
+                                                        <PositionTimelineChart
+                                                            positions={[{position: positionData, range: binRangeOf(apiPnl)}]}
+                                                        />
                                                     </div>
                                                 )}
 
@@ -530,7 +728,7 @@ const PositionStatus: React.FC<PositionStatusProps> = ({ positionPubKeys }) => {
                                                                     </a>
                                                                     <div className="flex-grow">
                                                                         <p className="font-semibold">{event.operation}</p>
-                                                                        <p className="text-sm opacity-70">{getEventDescription(event, tokenXSymbol, tokenYSymbol)}</p>
+                                                                        <p className="text-sm opacity-70">{getEventDescription(event, tokenXSymbol, tokenYSymbol, rewardXSymbol, rewardYSymbol)}</p>
                                                                     </div>
                                                                     <div className="text-xs opacity-50">
                                                                         {formatDistanceToNow(blockTime2Date(event.blockTime), {
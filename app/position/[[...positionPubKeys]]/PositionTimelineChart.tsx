@@ -0,0 +1,464 @@
+// app/position/[[...positionPubKeys]]/PositionTimelineChart.tsx
+'use client';
+
+import React, {useEffect, useMemo, useRef, useState} from 'react';
+import {format} from 'date-fns';
+import {BalanceInfo, EventType, PositionLiquidityData} from '@/app/types';
+import {getPriceFromBinId} from '@/app/utils/dlmm';
+import {fetchPoolOhlcv, OhlcvCandle, pickOhlcvTimeframe} from '@/app/utils/meteoraDataAPI';
+import {prettifyNumber} from '@/app/utils/numberFormatting';
+import {blockTime2Date, date2BlockTime} from '@/app/utils/solana';
+
+export interface TimelinePosition {
+    position: PositionLiquidityData;
+    // The position's bins; without them only the HODL mark can be drawn
+    range: { lowerBinId: number; upperBinId: number } | null;
+}
+
+interface PositionTimelineChartProps {
+    positions: TimelinePosition[];
+}
+
+type SeriesKey = 'capital' | 'value' | 'hodl' | 'fees' | 'price';
+
+const SERIES: { key: SeriesKey; label: string; color: string }[] = [
+    {key: 'capital', label: 'Net Deposited', color: '#3b82f6'},
+    {key: 'value', label: 'Position Value (modeled)', color: '#10b981'},
+    {key: 'hodl', label: 'Deposits Held (HODL)', color: '#64748b'},
+    {key: 'fees', label: 'Claimed Fees & Rewards', color: '#f59e0b'},
+    {key: 'price', label: 'Pool Price', color: '#a855f7'},
+];
+
+const CURRENT_VALUE_COLOR = '#047857';
+
+const MARKER_COLORS: Partial<Record<EventType, string>> = {
+    [EventType.AddLiquidity]: '#10b981',
+    [EventType.RemoveLiquidity]: '#ef4444',
+    [EventType.ClaimFee]: '#f59e0b',
+    [EventType.ClaimReward]: '#ec4899',
+};
+
+interface TimelinePoint {
+    t: number;
+    capital: number;
+    value: number | null;
+    hodl: number | null;
+    fees: number;
+    price: number | null;
+}
+
+interface Marker {
+    t: number;
+    operation: EventType;
+    signature: string;
+}
+
+const WIDTH = 800;
+const HEIGHT = 260;
+const PAD = {top: 12, right: 64, bottom: 28, left: 64};
+
+const sumUntil = (balances: BalanceInfo[], t: number, pick: (b: BalanceInfo) => number): number =>
+    balances.reduce((sum, b) => b.blockTime <= t ? sum + pick(b) : sum, 0);
+
+// Latest candle close at or before t (candles are sorted by timestamp)
+const closeAt = (candles: OhlcvCandle[], t: number): number | null => {
+    let lo = 0, hi = candles.length - 1, found = -1;
+    while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        if (candles[mid].timestamp <= t) {
+            found = mid;
+            lo = mid + 1;
+        } else {
+            hi = mid - 1;
+        }
+    }
+    return found >= 0 ? candles[found].close : null;
+};
+
+interface PositionModel {
+    // Applies the deposits and withdrawals up to t; calls must come in increasing t
+    advance(t: number): void;
+    // Position value and HODL mark at `price`, in token Y
+    valueAt(price: number): number | null;
+    hodlAt(price: number): number;
+}
+
+// Replays a position's deposits and withdrawals over its bins. Each bin keeps its liquidity as
+// x * binPrice + y in token Y, the sum DLMM holds constant while the price crosses the bin: bins
+// below the price hold only Y, bins above it only X. A deposit spreads its X evenly over the bins
+// above the price at the time and its Y over the rest (the spot shape; other shapes are not in the
+// operation history), and a withdrawal removes the share of the modeled value it took out, from every
+// bin and from the HODL holdings alike.
+function createPositionModel({position, range}: TimelinePosition, candles: OhlcvCandle[]): PositionModel {
+    const binPrices: number[] = [];
+    if (range) {
+        for (let bin = range.lowerBinId; bin <= range.upperBinId; bin++) {
+            binPrices.push(getPriceFromBinId(bin, position.binStep, position.tokenXDecimals, position.tokenYDecimals).toNumber());
+        }
+    }
+    const liquidity = binPrices.map(() => 0);
+    let hodlX = 0, hodlY = 0;
+
+    const valueAt = (price: number): number | null => range
+        ? binPrices.reduce((sum, binPrice, i) =>
+            sum + (binPrice <= price ? liquidity[i] : liquidity[i] / binPrice * price), 0)
+        : null;
+    const hodlAt = (price: number): number => hodlX * price + hodlY;
+
+    const deposit = (x: number, y: number, price: number) => {
+        hodlX += x;
+        hodlY += y;
+        const above = binPrices.map(binPrice => binPrice > price);
+        const aboveCount = above.filter(Boolean).length;
+        const belowCount = binPrices.length - aboveCount;
+        binPrices.forEach((binPrice, i) => {
+            // A side without bins (the price was outside the range) is spread over the whole range
+            if (above[i] || aboveCount === 0) liquidity[i] += x / (aboveCount || binPrices.length) * binPrice;
+            if (!above[i] || belowCount === 0) liquidity[i] += y / (belowCount || binPrices.length);
+        });
+    };
+
+    const withdraw = (x: number, y: number, price: number) => {
+        const base = valueAt(price) ?? hodlAt(price);
+        const share = base > 0 ? Math.min(1, (x * price + y) / base) : 1;
+        liquidity.forEach((l, i) => liquidity[i] = l * (1 - share));
+        hodlX *= 1 - share;
+        hodlY *= 1 - share;
+    };
+
+    // Deposits before withdrawals landing in the same second
+    const events = [
+        ...position.totalDeposits.balances.map(b => ({b, withdrawal: false})),
+        ...position.totalWithdrawals.balances.map(b => ({b, withdrawal: true})),
+    ].sort((a, b) => a.b.blockTime - b.b.blockTime || Number(a.withdrawal) - Number(b.withdrawal));
+    let next = 0;
+
+    return {
+        advance(t) {
+            for (; next < events.length && events[next].b.blockTime <= t; next++) {
+                const {b, withdrawal} = events[next];
+                // Before the first candle, the earliest known price is the best estimate
+                const price = closeAt(candles, b.blockTime) ?? candles[0]?.close;
+                if (price === undefined) continue;
+                const x = b.tokenXBalance.toNumber(), y = b.tokenYBalance.toNumber();
+                if (withdrawal) {
+                    withdraw(x, y, price);
+                } else {
+                    deposit(x, y, price);
+                }
+            }
+        },
+        valueAt,
+        hodlAt,
+    };
+}
+
+// Position value and HODL mark are in token Y at each candle's price (Y per X), converted with today's
+// token Y USD price; the value is a model (see createPositionModel), so the on-chain current value is
+// drawn as its own point at the end rather than spliced into the line.
+function buildTimeline(
+    positions: TimelinePosition[],
+    candlesByPool: Map<string, OhlcvCandle[]>,
+    start: number,
+    end: number
+): TimelinePoint[] {
+    const times = new Set<number>([start, end]);
+    candlesByPool.forEach(candles => candles.forEach(c => {
+        if (c.timestamp >= start && c.timestamp <= end) times.add(c.timestamp);
+    }));
+    positions.forEach(({position}) => position.operations.forEach(op => {
+        if (op.blockTime) times.add(op.blockTime);
+    }));
+
+    const singlePool = candlesByPool.size === 1 ? Array.from(candlesByPool.values())[0] : null;
+    const models = positions.map(p => {
+        const candles = candlesByPool.get(p.position.lbPair.toString()) ?? [];
+        return {...p, candles, model: createPositionModel(p, candles)};
+    });
+
+    return Array.from(times).sort((a, b) => a - b).map(t => {
+        let capital = 0, fees = 0;
+        let value: number | null = 0, hodl: number | null = 0;
+        for (const {position, candles, model} of models) {
+            capital += sumUntil(position.totalDeposits.balances, t, b => b.usdValue.toNumber())
+                - sumUntil(position.totalWithdrawals.balances, t, b => b.usdValue.toNumber());
+            fees += sumUntil(position.totalClaimedFees.balances, t, b => b.usdValue.toNumber())
+                + sumUntil(position.totalClaimedRewards.balances, t, b => b.usdValue.toNumber());
+
+            model.advance(t);
+            const close = closeAt(candles, t);
+            const yUsd = position.tokenYUsdPrice.toNumber();
+            if (close === null || yUsd <= 0) {
+                value = hodl = null;
+                continue;
+            }
+            const modeled = model.valueAt(close);
+            value = value === null || modeled === null ? null : value + modeled * yUsd;
+            hodl = hodl === null ? null : hodl + model.hodlAt(close) * yUsd;
+        }
+        return {
+            t,
+            capital,
+            value,
+            hodl,
+            fees,
+            price: singlePool ? closeAt(singlePool, t) : null,
+        };
+    });
+}
+
+const PositionTimelineChart: React.FC<PositionTimelineChartProps> = ({positions}) => {
+    const [candlesByPool, setCandlesByPool] = useState<Map<string, OhlcvCandle[]> | null>(null);
+    const [hidden, setHidden] = useState<Set<SeriesKey>>(new Set());
+    const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+    const svgRef = useRef<SVGSVGElement>(null);
+
+    const {start, end, poolsKey} = useMemo(() => {
+        const startTimes = positions.map(({position}) => date2BlockTime(position.startDate));
+        const s = startTimes.length ? Math.min(...startTimes) : date2BlockTime();
+        return {
+            start: s,
+            end: Math.max(date2BlockTime(), s + 1),
+            poolsKey: Array.from(new Set(positions.map(({position}) => position.lbPair.toString()))).sort().join(','),
+        };
+    }, [positions]);
+
+    // Keyed on the pool list rather than the positions array so re-renders with an equal set don't refetch
+    useEffect(() => {
+        let cancelled = false;
+        const pools = poolsKey.split(',').filter(Boolean);
+        const timeframe = pickOhlcvTimeframe(date2BlockTime() - start);
+        Promise.all(pools.map(pool => fetchPoolOhlcv(pool, timeframe, start))).then(results => {
+            if (cancelled) return;
+            setCandlesByPool(new Map(pools.map((pool, i) => [
+                pool,
+                [...results[i]].sort((a, b) => a.timestamp - b.timestamp),
+            ])));
+        }).catch(err => {
+            console.error('Error loading pool price history:', err);
+            // Without candles the chart still shows deposits and fees; the HODL mark stays N/A
+            if (!cancelled) setCandlesByPool(new Map());
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [poolsKey, start]);
+
+    const points = useMemo(
+        () => candlesByPool ? buildTimeline(positions, candlesByPool, start, end) : [],
+        [positions, candlesByPool, start, end]
+    );
+
+    // The on-chain value now, plotted at the end of the modeled line
+    const currentValue = useMemo(() => positions.reduce((sum, {position}) => sum
+        + position.totalCurrent.getTotalUSDValue().plus(position.totalUnclaimedFees.getTotalUSDValue()).toNumber(), 0
+    ), [positions]);
+
+    const markers = useMemo<Marker[]>(() => positions.flatMap(({position}) => position.operations
+        .filter(op => op.operation && op.blockTime && MARKER_COLORS[op.operation])
+        .map(op => ({t: op.blockTime!, operation: op.operation!, signature: op.signature ?? ''}))
+    ), [positions]);
+
+    if (!candlesByPool) {
+        return (
+            <div className="flex justify-center p-6">
+                <span className="loading loading-spinner loading-md"></span>
+            </div>
+        );
+    }
+
+    if (points.length < 2) {
+        return <div className="text-sm text-base-content/60 italic p-4">Not enough history to chart yet.</div>;
+    }
+
+    const hasPrice = points.some(p => p.price !== null);
+    const usdValues = points.flatMap(p => [
+        hidden.has('capital') ? 0 : p.capital,
+        hidden.has('value') ? 0 : p.value ?? 0,
+        hidden.has('hodl') ? 0 : p.hodl ?? 0,
+        hidden.has('fees') ? 0 : p.fees,
+    ]);
+    const usdMax = Math.max(...usdValues, hidden.has('value') ? 0 : currentValue, 1);
+    const prices = points.map(p => p.price).filter((p): p is number => p !== null);
+    const priceMin = prices.length ? Math.min(...prices) : 0;
+    const priceMax = prices.length ? Math.max(...prices) : 1;
+    const priceRange = priceMax - priceMin || 1;
+
+    const plotW = WIDTH - PAD.left - PAD.right;
+    const plotH = HEIGHT - PAD.top - PAD.bottom;
+    const x = (t: number) => PAD.left + ((t - start) / (end - start)) * plotW;
+    const yUsd = (v: number) => PAD.top + plotH - (v / usdMax) * plotH;
+    const yPrice = (v: number) => PAD.top + plotH - ((v - priceMin) / priceRange) * plotH;
+
+    // Step lines for cumulative flows, straight segments for marked-to-market series
+    const buildPath = (pick: (p: TimelinePoint) => number | null, y: (v: number) => number, step: boolean): string => {
+        let d = '';
+        let prev: { px: number; py: number } | null = null;
+        for (const p of points) {
+            const v = pick(p);
+            if (v === null) {
+                prev = null;
+                continue;
+            }
+            const px = x(p.t), py = y(v);
+            if (!prev) {
+                d += `M${px.toFixed(1)},${py.toFixed(1)}`;
+            } else {
+                d += step
+                    ? `H${px.toFixed(1)}V${py.toFixed(1)}`
+                    : `L${px.toFixed(1)},${py.toFixed(1)}`;
+            }
+            prev = {px, py};
+        }
+        return d;
+    };
+
+    const paths: Record<SeriesKey, string> = {
+        capital: buildPath(p => p.capital, yUsd, true),
+        value: buildPath(p => p.value, yUsd, false),
+        hodl: buildPath(p => p.hodl, yUsd, false),
+        fees: buildPath(p => p.fees, yUsd, true),
+        price: hasPrice ? buildPath(p => p.price, yPrice, false) : '',
+    };
+
+    const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+        const rect = svgRef.current?.getBoundingClientRect();
+        if (!rect) return;
+        const t = start + ((((e.clientX - rect.left) / rect.width) * WIDTH - PAD.left) / plotW) * (end - start);
+        let nearest = 0;
+        points.forEach((p, i) => {
+            if (Math.abs(p.t - t) < Math.abs(points[nearest].t - t)) nearest = i;
+        });
+        setHoverIndex(nearest);
+    };
+
+    const toggleSeries = (key: SeriesKey) => {
+        setHidden(prev => {
+            const next = new Set(prev);
+            if (next.has(key)) {
+                next.delete(key);
+            } else {
+                next.add(key);
+            }
+            return next;
+        });
+    };
+
+    const hover = hoverIndex !== null ? points[hoverIndex] : null;
+
+    return (
+        <div>
+            <div className="flex flex-wrap gap-2 mb-2">
+                {SERIES.filter(s => s.key !== 'price' || hasPrice).map(s => (
+                    <button
+                        key={s.key}
+                        onClick={() => toggleSeries(s.key)}
+                        className={`btn btn-xs btn-ghost gap-1 ${hidden.has(s.key) ? 'opacity-40' : ''}`}
+                    >
+                        <span className="inline-block w-3 h-0.5" style={{backgroundColor: s.color}}/>
+                        {s.label}
+                    </button>
+                ))}
+                {!hidden.has('value') && (
+                    <span className="flex items-center gap-1 text-xs px-2">
+                        <span className="inline-block w-2 h-2 rounded-full" style={{backgroundColor: CURRENT_VALUE_COLOR}}/>
+                        Current Value: ${prettifyNumber(currentValue)}
+                    </span>
+                )}
+            </div>
+            <div className="relative">
+                <svg
+                    ref={svgRef}
+                    viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                    className="w-full h-auto"
+                    onMouseMove={handleMouseMove}
+                    onMouseLeave={() => setHoverIndex(null)}
+                >
+                    {[0, 0.25, 0.5, 0.75, 1].map(f => (
+                        <g key={f}>
+                            <line x1={PAD.left} x2={WIDTH - PAD.right} y1={PAD.top + plotH * f} y2={PAD.top + plotH * f}
+                                  stroke="#94a3b8" strokeWidth="0.5" strokeDasharray="2 3" opacity="0.4"/>
+                            <text x={PAD.left - 6} y={PAD.top + plotH * f + 3} textAnchor="end" fontSize="10"
+                                  fill="currentColor" opacity="0.6">
+                                ${prettifyNumber(usdMax * (1 - f))}
+                            </text>
+                            {hasPrice && !hidden.has('price') && (
+                                <text x={WIDTH - PAD.right + 6} y={PAD.top + plotH * f + 3} fontSize="10"
+                                      fill="#a855f7" opacity="0.8">
+                                    {prettifyNumber(priceMax - priceRange * f)}
+                                </text>
+                            )}
+                        </g>
+                    ))}
+
+                    {SERIES.filter(s => !hidden.has(s.key) && paths[s.key]).map(s => (
+                        <path key={s.key} d={paths[s.key]} fill="none" stroke={s.color}
+                              strokeWidth={s.key === 'price' ? 1 : 2}
+                              strokeDasharray={s.key === 'price' ? '4 2' : undefined}
+                              strokeLinejoin="round"/>
+                    ))}
+
+                    {!hidden.has('value') && (
+                        <circle cx={x(end)} cy={yUsd(currentValue)} r="4" fill={CURRENT_VALUE_COLOR} stroke="white"
+                                strokeWidth="1">
+                            <title>{`Current value (on-chain, with unclaimed fees): $${prettifyNumber(currentValue)}`}</title>
+                        </circle>
+                    )}
+
+                    {markers.map((m, i) => (
+                        <a key={`${m.signature}-${i}`} href={`https://solscan.io/tx/${m.signature}`} target="_blank"
+                           rel="noopener noreferrer">
+                            <circle cx={x(m.t)} cy={PAD.top + plotH} r="4" fill={MARKER_COLORS[m.operation]}
+                                    stroke="white" strokeWidth="1">
+                                <title>{`${m.operation} · ${format(blockTime2Date(m.t), 'PPp')}`}</title>
+                            </circle>
+                        </a>
+                    ))}
+
+                    <text x={PAD.left} y={HEIGHT - 6} fontSize="10" fill="currentColor" opacity="0.6">
+                        {format(blockTime2Date(start), 'PP')}
+                    </text>
+                    <text x={WIDTH - PAD.right} y={HEIGHT - 6} fontSize="10" textAnchor="end" fill="currentColor"
+                          opacity="0.6">
+                        {format(blockTime2Date(end), 'PP')}
+                    </text>
+
+                    {hover && (
+                        <line x1={x(hover.t)} x2={x(hover.t)} y1={PAD.top} y2={PAD.top + plotH}
+                              stroke="currentColor" strokeWidth="0.5" opacity="0.5"/>
+                    )}
+                </svg>
+
+                {hover && (
+                    <div
+                        className="absolute top-2 pointer-events-none bg-base-200 border border-base-300 rounded-lg p-2 text-xs shadow-md whitespace-nowrap"
+                        style={x(hover.t) > WIDTH / 2
+                            ? {right: `${(1 - x(hover.t) / WIDTH) * 100 + 1}%`}
+                            : {left: `${(x(hover.t) / WIDTH) * 100 + 1}%`}}
+                    >
+                        <div className="font-semibold mb-1">{format(blockTime2Date(hover.t), 'PPp')}</div>
+                        <div style={{color: '#3b82f6'}}>Net deposited: ${prettifyNumber(hover.capital)}</div>
+                        <div style={{color: '#10b981'}}>
+                            Position value (modeled): {hover.value !== null ? `$${prettifyNumber(hover.value)}` : 'N/A'}
+                        </div>
+                        <div style={{color: '#64748b'}}>
+                            Deposits held: {hover.hodl !== null ? `$${prettifyNumber(hover.hodl)}` : 'N/A'}
+                        </div>
+                        <div style={{color: '#f59e0b'}}>Claimed fees & rewards: ${prettifyNumber(hover.fees)}</div>
+                        {hover.price !== null && (
+                            <div style={{color: '#a855f7'}}>Price: {prettifyNumber(hover.price)}</div>
+                        )}
+                    </div>
+                )}
+            </div>
+            <div className="text-xs text-base-content/50 mt-1">
+                Position value is modeled from the bin range, assuming each deposit was spread evenly over its bins,
+                and leaves out fees; the dot at the end is the actual current value.
+                {points.every(p => p.value === null) && ' No value could be modeled: it needs the bin range and the pool price history.'}
+                {' '}Markers link to their transactions.
+            </div>
+        </div>
+    );
+};
+
+export default PositionTimelineChart;
@@ -16,12 +16,24 @@ export interface PositionData {
     claimedFeeYAmount: string;
     claimedFeeX: number;
     claimedFeeY: number;
+    bins: PositionBinLiquidity[];
+}
+
+// Token amounts held in a single bin (by one position, or the whole bin in pool views), in UI units
+export interface PositionBinLiquidity {
+    binId: number;
+    // Token Y per token X
+    price: number;
+    xAmount: number;
+    yAmount: number;
 }
 
 export interface PoolData {
     lbPairPositionsData: PositionData[];
     nameX: string;
     nameY: string;
+    mintX: string;
+    mintY: string;
     price: number;
     activeBin: number;
     tokenXDecimal: number;
@@ -68,6 +80,7 @@ export enum EventType {
     AddLiquidity = 'addLiquidity',
     RemoveLiquidity = 'removeLiquidity',
     ClaimFee = 'claimFee',
+    ClaimReward = 'claimReward',
     PositionClose = 'positionClose',
     PositionCreate = 'positionCreate'
 }
@@ -82,6 +95,10 @@ export interface EventInfo {
     tokenXChange: Decimal;
     tokenYChange: Decimal;
     activeBin: number;
+    // SOL rent paid on PositionCreate or refunded on PositionClose
+    rent?: Decimal;
+    // USD value of the token amounts at the time of the operation (liquidity, fee and reward events)
+    usdValue?: Decimal;
 }
 
 export class BalanceInfo {
@@ -89,12 +106,24 @@ export class BalanceInfo {
     tokenYBalance: Decimal;
     usdValue: Decimal;
     blockTime: number;
-
-    constructor(tokenXBalance: Decimal, tokenYBalance: Decimal, usdValue: Decimal, blockTime: number) {
+    // Per-token split of usdValue, when the source reports it
+    tokenXUsdValue?: Decimal;
+    tokenYUsdValue?: Decimal;
+
+    constructor(
+        tokenXBalance: Decimal,
+        tokenYBalance: Decimal,
+        usdValue: Decimal,
+        blockTime: number,
+        tokenXUsdValue?: Decimal,
+        tokenYUsdValue?: Decimal
+    ) {
         this.tokenXBalance = tokenXBalance;
         this.tokenYBalance = tokenYBalance;
         this.usdValue = usdValue;
         this.blockTime = blockTime;
+        this.tokenXUsdValue = tokenXUsdValue;
+        this.tokenYUsdValue = tokenYUsdValue;
     }
 
     static zero(): BalanceInfo {
@@ -138,23 +167,81 @@ export interface PositionLiquidityData {
     tokenXMint: PublicKey;
     tokenYSymbol: string;
     tokenYMint: PublicKey;
+    binStep: number;
+    tokenXDecimals: number;
+    tokenYDecimals: number;
+    // Current USD prices (-1 when the price lookup failed)
+    tokenXUsdPrice: Decimal;
+    tokenYUsdPrice: Decimal;
     startDate: Date;
     lastUpdatedAt: Date;
     totalDeposits: PositionBalanceInfo;
     totalWithdrawals: PositionBalanceInfo;
     totalUnclaimedFees: PositionBalanceInfo;
     totalClaimedFees: PositionBalanceInfo;
+    // Farming rewards; token X/Y here are the pool's two reward mints, not the pair tokens
+    totalClaimedRewards: PositionBalanceInfo;
+    rewardXSymbol: string;
+    rewardYSymbol: string;
     totalCurrent: PositionBalanceInfo;
 }
 
+// PnL = feeIncome + rewardIncome + impermanentLoss + priceChange
+export interface PnlBreakdown {
+    feeIncome: Decimal;
+    rewardIncome: Decimal;
+    // LP outcome (current value + withdrawals) minus the HODL value; negative when LPing lost to holding
+    impermanentLoss: Decimal;
+    // Deposited token X/Y amounts valued at current prices
+    hodlValue: Decimal;
+    // hodlValue minus the USD value at deposit time
+    priceChange: Decimal;
+}
+
+export interface PnlBreakdownTotal extends PnlBreakdown {
+    // Positions left out of the total because a current token price was unavailable
+    skipped: number;
+}
+
+// Named set of wallets saved on the home page (localStorage 'walletGroups')
+export interface WalletGroup {
+    id: string;
+    name: string;
+    wallets: string[];
+}
+
+// DAMM v2 position held through its NFT; amounts are UI amounts, values in USD
+export interface DammV2Position {
+    address: string;
+    nftMint: string;
+    pool: string;
+    poolName: string;
+    // null when the DAMM v2 data API has no entry for the pool
+    poolTvl: number | null;
+    poolFees24h: number | null;
+    nameX: string;
+    nameY: string;
+    amountX: number;
+    amountY: number;
+    feeX: number;
+    feeY: number;
+    claimedFeeX: number;
+    claimedFeeY: number;
+    valueUsd: number;
+    unclaimedFeesUsd: number;
+}
+
 export interface WalletData {
     wallet: string;
     dataMap: Map<string, PoolData>;
+    dammV2Positions: DammV2Position[];
 }
 
 export type MetricsType = {
     totalInvested: Decimal;
     currentValue: Decimal;
     totalWithdrawn: Decimal;
+    totalRewards: Decimal;
     startDate: Date | null;
+    breakdown: PnlBreakdown | null;
 };
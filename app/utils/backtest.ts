@@ -0,0 +1,197 @@
+// app/utils/backtest.ts
+// Replays historical OHLCV candles against a hypothetical DLMM position.
+//
+// Each bin holds a fixed amount of liquidity L (in token Y at the bin price): bins below the
+// active bin are all Y, bins above are all X (L / binPrice), and the active bin is split evenly.
+// Fees per candle are the pool's fees (candle volume x effective fee rate) times our share of the
+// active bin, where the rest of the bin is approximated by the pool's current average per-bin
+// liquidity near the active bin. Fees are not compounded and USD values use today's token Y price.
+
+import {PublicKey} from '@solana/web3.js';
+import DLMM from '@meteora-ag/dlmm';
+import {getBinIdFromPrice, getPriceFromBinId} from '@/app/utils/dlmm';
+import {
+    fetchPoolOhlcv,
+    MeteoraPool,
+    OHLCV_TIMEFRAME_SECONDS,
+    OhlcvCandle,
+    pickOhlcvTimeframe
+} from '@/app/utils/meteoraDataAPI';
+import {computeRangeMetrics, RangeMetrics} from '@/app/utils/rangeMetrics';
+import {getDefaultConnection} from '@/app/utils/cachedConnection';
+import {fetchWithRetry} from '@/app/utils/rateLimitedFetch';
+import {fetchTokenUsdPrice} from '@/app/utils/jup';
+import {date2BlockTime, formatTokenBalance} from '@/app/utils/solana';
+
+export type StrategyShape = 'spot' | 'curve' | 'bidAsk';
+
+// Bins on each side of the active bin sampled for the pool's per-bin liquidity
+const POOL_LIQUIDITY_SAMPLE_BINS = 5;
+
+export interface BacktestMarket {
+    candles: OhlcvCandle[];
+    candleSeconds: number;
+    binStep: number;
+    tokenXDecimal: number;
+    tokenYDecimal: number;
+    tokenYUsdPrice: number;
+    // Pool fees per unit of volume (24h fees / 24h volume), includes the dynamic fee
+    feeRate: number;
+    // Average liquidity per bin around the current active bin, in token Y
+    poolBinLiquidityY: number;
+}
+
+export interface BacktestInput {
+    binsBelow: number;
+    binsAbove: number;
+    shape: StrategyShape;
+    capitalUsd: number;
+}
+
+export interface BacktestResult {
+    entryBinId: number;
+    lowerBinId: number;
+    upperBinId: number;
+    entryPrice: number;
+    exitPrice: number;
+    lowerPrice: number;
+    upperPrice: number;
+    feesUsd: number;
+    // Position value at the end, excluding fees
+    positionValueUsd: number;
+    finalValueUsd: number;
+    hodlValueUsd: number;
+    // positionValueUsd - hodlValueUsd (negative when the LP position lost to holding)
+    impermanentLossUsd: number;
+    pnlUsd: number;
+    vsHodlUsd: number;
+    range: RangeMetrics | null;
+}
+
+export async function fetchBacktestMarket(pool: MeteoraPool, days: number): Promise<BacktestMarket | null> {
+    const startTime = date2BlockTime() - days * 86400;
+    const timeframe = pickOhlcvTimeframe(days * 86400);
+    const connection = getDefaultConnection();
+
+    const [candles, dlmm, tokenYUsdPrice] = await Promise.all([
+        fetchPoolOhlcv(pool.address, timeframe, startTime),
+        fetchWithRetry(() => DLMM.create(connection, new PublicKey(pool.address))),
+        fetchTokenUsdPrice(new PublicKey(pool.mint_y)),
+    ]);
+    if (candles.length === 0 || tokenYUsdPrice <= 0) return null;
+
+    const tokenXDecimal = dlmm.tokenX.mint.decimals;
+    const tokenYDecimal = dlmm.tokenY.mint.decimals;
+    const {bins} = await fetchWithRetry(() =>
+        dlmm.getBinsAroundActiveBin(POOL_LIQUIDITY_SAMPLE_BINS, POOL_LIQUIDITY_SAMPLE_BINS)
+    );
+    const binValuesY = bins.map(bin =>
+        formatTokenBalance(BigInt(bin.xAmount.toString()), tokenXDecimal) * parseFloat(bin.pricePerToken)
+        + formatTokenBalance(BigInt(bin.yAmount.toString()), tokenYDecimal)
+    );
+
+    return {
+        candles: candles.filter(c => c.timestamp >= startTime).sort((a, b) => a.timestamp - b.timestamp),
+        candleSeconds: OHLCV_TIMEFRAME_SECONDS[timeframe],
+        binStep: dlmm.lbPair.binStep,
+        tokenXDecimal,
+        tokenYDecimal,
+        tokenYUsdPrice,
+        feeRate: pool.trade_volume_24h > 0 ? pool.fees_24h / pool.trade_volume_24h : parseFloat(pool.base_fee_percentage) / 100,
+        poolBinLiquidityY: binValuesY.length ? binValuesY.reduce((a, v) => a + v, 0) / binValuesY.length : 0,
+    };
+}
+
+const shapeWeight = (shape: StrategyShape, distance: number, halfWidth: number): number => {
+    switch (shape) {
+        case 'curve': {
+            const sigma = Math.max(halfWidth / 2, 1);
+            return Math.exp(-(distance * distance) / (2 * sigma * sigma));
+        }
+        case 'bidAsk':
+            return Math.abs(distance) + 1;
+        default:
+            return 1;
+    }
+};
+
+export function runBacktest(market: BacktestMarket, input: BacktestInput): BacktestResult | null {
+    const {candles, candleSeconds, binStep, tokenXDecimal, tokenYDecimal, tokenYUsdPrice} = market;
+    if (candles.length === 0 || !binStep || tokenYUsdPrice <= 0) return null;
+
+    const binPrice = (binId: number) => getPriceFromBinId(binId, binStep, tokenXDecimal, tokenYDecimal).toNumber();
+    const binAt = (price: number) => getBinIdFromPrice(price, binStep, tokenXDecimal, tokenYDecimal);
+
+    const entryPrice = candles[0].open || candles[0].close;
+    const exitPrice = candles[candles.length - 1].close;
+    const entryBinId = binAt(entryPrice);
+    if (entryBinId === null) return null;
+    const lowerBinId = entryBinId - Math.max(0, Math.floor(input.binsBelow));
+    const upperBinId = entryBinId + Math.max(0, Math.floor(input.binsAbove));
+
+    const bins: { binId: number; price: number; liquidity: number }[] = [];
+    const halfWidth = Math.max(input.binsBelow, input.binsAbove);
+    for (let binId = lowerBinId; binId <= upperBinId; binId++) {
+        bins.push({binId, price: binPrice(binId), liquidity: shapeWeight(input.shape, binId - entryBinId, halfWidth)});
+    }
+
+    // Token amounts held with the active bin at activeBinId
+    const holdings = (activeBinId: number): { x: number; y: number } => bins.reduce((acc, bin) => {
+        if (bin.binId < activeBinId) return {x: acc.x, y: acc.y + bin.liquidity};
+        if (bin.binId > activeBinId) return {x: acc.x + bin.liquidity / bin.price, y: acc.y};
+        return {x: acc.x + bin.liquidity / (2 * bin.price), y: acc.y + bin.liquidity / 2};
+    }, {x: 0, y: 0});
+    const valueY = (activeBinId: number, price: number): number => {
+        const {x, y} = holdings(activeBinId);
+        return x * price + y;
+    };
+
+    // Scale the shape weights so the position is worth exactly the capital at entry
+    const capitalY = input.capitalUsd / tokenYUsdPrice;
+    const unscaled = valueY(entryBinId, entryPrice);
+    if (!(unscaled > 0)) return null;
+    const scale = capitalY / unscaled;
+    bins.forEach(bin => bin.liquidity *= scale);
+
+    let feesY = 0;
+    for (const candle of candles) {
+        const activeBinId = binAt(candle.close);
+        if (activeBinId === null) continue;
+        const bin = bins.find(b => b.binId === activeBinId);
+        if (!bin) continue;
+        const poolFeesY = (candle.volume * market.feeRate) / tokenYUsdPrice;
+        feesY += poolFeesY * (bin.liquidity / (bin.liquidity + market.poolBinLiquidityY));
+    }
+
+    const entryHoldings = holdings(entryBinId);
+    const hodlY = entryHoldings.x * exitPrice + entryHoldings.y;
+    const exitBinId = binAt(exitPrice);
+    if (exitBinId === null) return null;
+    const positionY = valueY(exitBinId, exitPrice);
+
+    const toUsd = (y: number) => y * tokenYUsdPrice;
+    const positionValueUsd = toUsd(positionY);
+    const feesUsd = toUsd(feesY);
+    const hodlValueUsd = toUsd(hodlY);
+    const finalValueUsd = positionValueUsd + feesUsd;
+    const lowerPrice = binPrice(lowerBinId);
+    const upperPrice = binPrice(upperBinId);
+
+    return {
+        entryBinId,
+        lowerBinId,
+        upperBinId,
+        entryPrice,
+        exitPrice,
+        lowerPrice,
+        upperPrice,
+        feesUsd,
+        positionValueUsd,
+        finalValueUsd,
+        hodlValueUsd,
+        impermanentLossUsd: positionValueUsd - hodlValueUsd,
+        pnlUsd: finalValueUsd - input.capitalUsd,
+        vsHodlUsd: finalValueUsd - hodlValueUsd,
+        range: computeRangeMetrics(candles, lowerPrice, upperPrice, candleSeconds),
+    };
+}
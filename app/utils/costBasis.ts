@@ -0,0 +1,257 @@
+// app/utils/costBasis.ts
+// Cost-basis and realized gain report per token mint.
+//
+// A deposit acquires a lot of each deposited token at its USD value at the time. A withdrawal
+// disposes of that token, matched against the position's lots by the chosen method. Claimed fees
+// and rewards are realized income with no cost basis. Lots are matched within each position, since
+// a token can only leave a position it entered: withdrawn amounts beyond the open lots (bought by
+// the pool while the price crossed the range) carry no basis, and lots still open when a position
+// closes (sold by the pool) are disposed of for nothing at the close. A position the data API lists
+// as closed is treated as closed at its last event even when its close transaction wasn't found.
+
+import Decimal from "decimal.js";
+import {BalanceInfo, EventType, PositionLiquidityData} from "@/app/types";
+import {fetchPortfolioOpen, fetchPositionsPnl} from "@/app/utils/meteoraDataAPI";
+import {fetchAllClosedPools} from "@/app/utils/export";
+
+export type CostBasisMethod = 'fifo' | 'lifo' | 'average';
+
+export const COST_BASIS_METHODS: { key: CostBasisMethod; label: string }[] = [
+    {key: 'fifo', label: 'FIFO'},
+    {key: 'lifo', label: 'LIFO'},
+    {key: 'average', label: 'Average cost'},
+];
+
+export interface TokenYearSummary {
+    year: number;
+    mint: string;
+    symbol: string;
+    acquiredQuantity: Decimal;
+    acquiredCost: Decimal;
+    disposedQuantity: Decimal;
+    proceeds: Decimal;
+    costBasis: Decimal;
+    realizedGain: Decimal;
+    // Claimed fees and rewards
+    income: Decimal;
+}
+
+export interface TokenHolding {
+    mint: string;
+    symbol: string;
+    quantity: Decimal;
+    costBasis: Decimal;
+    // null when the current token price is unavailable
+    marketValue: Decimal | null;
+    unrealizedGain: Decimal | null;
+    unclaimedFees: Decimal;
+}
+
+export interface CostBasisReport {
+    method: CostBasisMethod;
+    realized: TokenYearSummary[];
+    unrealized: TokenHolding[];
+}
+
+interface Lot {
+    quantity: Decimal;
+    cost: Decimal;
+}
+
+type LedgerEvent =
+    | { kind: 'acquire' | 'dispose' | 'income'; blockTime: number; mint: string; symbol: string; quantity: Decimal; usd: Decimal }
+    | { kind: 'close'; blockTime: number };
+
+// Deposits sort ahead of withdrawals in the same second so a same-transaction rebalance matches
+const KIND_ORDER: Record<LedgerEvent['kind'], number> = {acquire: 0, income: 1, dispose: 2, close: 3};
+
+const ZERO = new Decimal(0);
+
+const yearOf = (blockTime: number): number => new Date(blockTime * 1000).getUTCFullYear();
+
+// Takes up to `quantity` out of the lots and returns the cost basis of what was taken
+const relieveLots = (lots: Lot[], quantity: Decimal, method: CostBasisMethod): Decimal => {
+    const held = lots.reduce((sum, lot) => sum.plus(lot.quantity), ZERO);
+    if (held.lte(0)) return ZERO;
+
+    if (method === 'average') {
+        const cost = lots.reduce((sum, lot) => sum.plus(lot.cost), ZERO);
+        const taken = Decimal.min(quantity, held);
+        const basis = cost.mul(taken).div(held);
+        lots.splice(0, lots.length, {quantity: held.minus(taken), cost: cost.minus(basis)});
+        return basis;
+    }
+
+    let remaining = quantity;
+    let basis = ZERO;
+    while (remaining.gt(0) && lots.length > 0) {
+        const index = method === 'fifo' ? 0 : lots.length - 1;
+        const lot = lots[index];
+        if (lot.quantity.lte(remaining)) {
+            basis = basis.plus(lot.cost);
+            remaining = remaining.minus(lot.quantity);
+            lots.splice(index, 1);
+        } else {
+            const cost = lot.cost.mul(remaining).div(lot.quantity);
+            basis = basis.plus(cost);
+            lot.quantity = lot.quantity.minus(remaining);
+            lot.cost = lot.cost.minus(cost);
+            remaining = ZERO;
+        }
+    }
+    return basis;
+};
+
+const balanceEvents = (
+    balances: BalanceInfo[],
+    kind: 'acquire' | 'dispose' | 'income',
+    mintX: string,
+    mintY: string,
+    symbolX: string,
+    symbolY: string
+): LedgerEvent[] => balances.flatMap(b => [
+    {kind, blockTime: b.blockTime, mint: mintX, symbol: symbolX, quantity: b.tokenXBalance, usd: b.tokenXUsdValue ?? ZERO},
+    {kind, blockTime: b.blockTime, mint: mintY, symbol: symbolY, quantity: b.tokenYBalance, usd: b.tokenYUsdValue ?? ZERO},
+]).filter(e => e.quantity.gt(0) || e.usd.gt(0));
+
+const positionEvents = (position: PositionLiquidityData, knownClosed: boolean): LedgerEvent[] => {
+    const mintX = position.tokenXMint.toString();
+    const mintY = position.tokenYMint.toString();
+    const rewards = position.totalClaimedRewards;
+    const closedAt = position.operations.find(op => op.operation === EventType.PositionClose)?.blockTime
+        ?? (knownClosed ? Math.floor(position.lastUpdatedAt.getTime() / 1000) : undefined);
+
+    const events: LedgerEvent[] = [
+        ...balanceEvents(position.totalDeposits.balances, 'acquire', mintX, mintY, position.tokenXSymbol, position.tokenYSymbol),
+        ...balanceEvents(position.totalWithdrawals.balances, 'dispose', mintX, mintY, position.tokenXSymbol, position.tokenYSymbol),
+        ...balanceEvents(position.totalClaimedFees.balances, 'income', mintX, mintY, position.tokenXSymbol, position.tokenYSymbol),
+        ...balanceEvents(rewards.balances, 'income', rewards.tokenXMint, rewards.tokenYMint, position.rewardXSymbol, position.rewardYSymbol),
+    ];
+    if (closedAt) events.push({kind: 'close', blockTime: closedAt});
+    return events.sort((a, b) => a.blockTime - b.blockTime || KIND_ORDER[a.kind] - KIND_ORDER[b.kind]);
+};
+
+// positions by position key; closedKeys are the ones the data API reports as closed
+export function buildCostBasisReport(
+    positions: { [key: string]: PositionLiquidityData },
+    method: CostBasisMethod,
+    closedKeys: ReadonlySet<string> = new Set()
+): CostBasisReport {
+    const years = new Map<string, TokenYearSummary>();
+    const holdings = new Map<string, TokenHolding>();
+
+    const yearEntry = (blockTime: number, mint: string, symbol: string): TokenYearSummary => {
+        const year = yearOf(blockTime);
+        const key = `${year}:${mint}`;
+        if (!years.has(key)) {
+            years.set(key, {
+                year, mint, symbol,
+                acquiredQuantity: ZERO, acquiredCost: ZERO,
+                disposedQuantity: ZERO, proceeds: ZERO, costBasis: ZERO,
+                realizedGain: ZERO, income: ZERO,
+            });
+        }
+        return years.get(key)!;
+    };
+
+    const holdingEntry = (mint: string, symbol: string): TokenHolding => {
+        if (!holdings.has(mint)) {
+            holdings.set(mint, {
+                mint, symbol,
+                quantity: ZERO, costBasis: ZERO,
+                marketValue: ZERO, unrealizedGain: ZERO, unclaimedFees: ZERO,
+            });
+        }
+        return holdings.get(mint)!;
+    };
+
+    for (const [key, position] of Object.entries(positions)) {
+        const closed = closedKeys.has(key);
+        const lots = new Map<string, { symbol: string; lots: Lot[] }>();
+        const lotsFor = (mint: string, symbol: string) => {
+            if (!lots.has(mint)) lots.set(mint, {symbol, lots: []});
+            return lots.get(mint)!.lots;
+        };
+
+        for (const event of positionEvents(position, closed)) {
+            if (event.kind === 'close') {
+                // Whatever is left was converted by the pool into the other token
+                lots.forEach(({symbol, lots: open}, mint) => {
+                    const quantity = open.reduce((sum, lot) => sum.plus(lot.quantity), ZERO);
+                    if (quantity.lte(0)) return;
+                    const basis = relieveLots(open, quantity, method);
+                    const entry = yearEntry(event.blockTime, mint, symbol);
+                    entry.costBasis = entry.costBasis.plus(basis);
+                    entry.realizedGain = entry.realizedGain.minus(basis);
+                });
+                continue;
+            }
+
+            const entry = yearEntry(event.blockTime, event.mint, event.symbol);
+            if (event.kind === 'acquire') {
+                lotsFor(event.mint, event.symbol).push({quantity: event.quantity, cost: event.usd});
+                entry.acquiredQuantity = entry.acquiredQuantity.plus(event.quantity);
+                entry.acquiredCost = entry.acquiredCost.plus(event.usd);
+            } else if (event.kind === 'dispose') {
+                const basis = relieveLots(lotsFor(event.mint, event.symbol), event.quantity, method);
+                entry.disposedQuantity = entry.disposedQuantity.plus(event.quantity);
+                entry.proceeds = entry.proceeds.plus(event.usd);
+                entry.costBasis = entry.costBasis.plus(basis);
+                entry.realizedGain = entry.realizedGain.plus(event.usd.minus(basis));
+            } else {
+                entry.income = entry.income.plus(event.usd);
+            }
+        }
+
+        // Open positions: value what the position holds now against the lots it still carries
+        if (closed) continue;
+        const current = position.totalCurrent;
+        const unclaimed = position.totalUnclaimedFees;
+        const pairTokens = [
+            {mint: position.tokenXMint.toString(), symbol: position.tokenXSymbol, price: position.tokenXUsdPrice,
+                quantity: current.getTotalTokenXBalance(), unclaimed: unclaimed.getTotalTokenXBalance()},
+            {mint: position.tokenYMint.toString(), symbol: position.tokenYSymbol, price: position.tokenYUsdPrice,
+                quantity: current.getTotalTokenYBalance(), unclaimed: unclaimed.getTotalTokenYBalance()},
+        ];
+        for (const token of pairTokens) {
+            const open = lots.get(token.mint)?.lots ?? [];
+            const basis = open.reduce((sum, lot) => sum.plus(lot.cost), ZERO);
+            if (token.quantity.lte(0) && basis.lte(0) && token.unclaimed.lte(0)) continue;
+
+            const holding = holdingEntry(token.mint, token.symbol);
+            holding.quantity = holding.quantity.plus(token.quantity);
+            holding.costBasis = holding.costBasis.plus(basis);
+            if (token.price.lte(0) || holding.marketValue === null) {
+                holding.marketValue = null;
+                holding.unrealizedGain = null;
+            } else {
+                holding.marketValue = holding.marketValue.plus(token.quantity.mul(token.price));
+                holding.unrealizedGain = holding.marketValue.minus(holding.costBasis);
+                holding.unclaimedFees = holding.unclaimedFees.plus(token.unclaimed.mul(token.price));
+            }
+        }
+    }
+
+    return {
+        method,
+        realized: Array.from(years.values()).sort((a, b) => b.year - a.year || a.symbol.localeCompare(b.symbol)),
+        unrealized: Array.from(holdings.values()).sort((a, b) => a.symbol.localeCompare(b.symbol)),
+    };
+}
+
+export interface WalletPositionKeys {
+    open: string[];
+    closed: string[];
+}
+
+// Every open and closed DLMM position of a wallet within the closed-history window
+export async function fetchWalletPositionKeys(wallet: string, closedDaysBack: number): Promise<WalletPositionKeys> {
+    const [open, closedPools] = await Promise.all([
+        fetchPortfolioOpen(wallet),
+        fetchAllClosedPools(wallet, closedDaysBack),
+    ]);
+    const openKeys = new Set<string>(open?.pools.flatMap(p => p.listPositions) ?? []);
+    const closed = await Promise.all(closedPools.map(pool => fetchPositionsPnl(pool.poolAddress, wallet, 'closed')));
+    const closedKeys = new Set(closed.flat().map(p => p.positionAddress).filter(key => !openKeys.has(key)));
+    return {open: Array.from(openKeys), closed: Array.from(closedKeys)};
+}
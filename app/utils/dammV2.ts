@@ -0,0 +1,245 @@
+// app/utils/dammV2.ts
+// Discovery and valuation of DAMM v2 (cp-amm) positions. Ownership is an NFT: the wallet holds a
+// Token-2022 token with amount 1, and the position account is derived from that mint.
+
+import {AccountInfo, Connection, PublicKey} from '@solana/web3.js';
+import {AccountLayout, TOKEN_2022_PROGRAM_ID} from '@solana/spl-token';
+import {BN} from '@coral-xyz/anchor';
+import {DammV2Position} from '@/app/types';
+import {fetchWithRetry} from '@/app/utils/rateLimitedFetch';
+import {fetchTokenDecimals} from '@/app/utils/solana';
+import {fetchTokenUsdPrice} from '@/app/utils/jup';
+import {getTokenMetadata} from '@/app/utils/tokenMetadata';
+import {fetchPool} from '@/app/utils/meteoraDataAPI';
+import {formatPubKey} from '@/app/utils/formatters';
+
+export const DAMM_V2_PROGRAM_ID = new PublicKey('cpamdpZCGKUy5JxQXB4dcpGPiikHawvSWAd6mEn1sGG');
+
+const POSITION_DISCRIMINATOR = Buffer.from([170, 188, 143, 228, 122, 64, 247, 208]);
+const POOL_DISCRIMINATOR = Buffer.from([241, 154, 109, 4, 17, 177, 109, 188]);
+
+// getMultipleAccounts accepts at most this many keys per call
+const MAX_ACCOUNTS_PER_REQUEST = 100;
+
+// Byte offsets into the program accounts, 8-byte discriminator included, from the `Position` and
+// `Pool` account structs of the cp-amm IDL (MeteoraAg/damm-v2, programs/cp-amm/src/state/position.rs
+// and pool.rs). Recheck them when the program's account layout changes.
+const POSITION_OFFSETS = {
+    pool: 8,
+    feeAPerTokenCheckpoint: 72,
+    feeBPerTokenCheckpoint: 104,
+    feeAPending: 136,
+    feeBPending: 144,
+    unlockedLiquidity: 152,
+    vestedLiquidity: 168,
+    permanentLockedLiquidity: 184,
+    totalClaimedAFee: 200,
+    totalClaimedBFee: 208,
+};
+
+const POOL_OFFSETS = {
+    tokenAMint: 168,
+    tokenBMint: 200,
+    liquidity: 360,
+    sqrtMinPrice: 424,
+    sqrtMaxPrice: 440,
+    sqrtPrice: 456,
+    collectFeeMode: 484,
+    feeAPerLiquidity: 488,
+    feeBPerLiquidity: 520,
+    tokenAAmount: 680,
+    tokenBAmount: 688,
+};
+
+// Compounding pools keep their fees in the reserves and quote by reserve share instead of the curve
+const COLLECT_FEE_MODE_COMPOUNDING = 2;
+
+const U256 = new BN(1).shln(256);
+
+interface RawPosition {
+    address: PublicKey;
+    nftMint: PublicKey;
+    pool: PublicKey;
+    liquidity: BN;
+    feeAPerTokenCheckpoint: BN;
+    feeBPerTokenCheckpoint: BN;
+    feeAPending: BN;
+    feeBPending: BN;
+    totalClaimedAFee: BN;
+    totalClaimedBFee: BN;
+}
+
+interface RawPool {
+    tokenAMint: PublicKey;
+    tokenBMint: PublicKey;
+    liquidity: BN;
+    sqrtMinPrice: BN;
+    sqrtMaxPrice: BN;
+    sqrtPrice: BN;
+    collectFeeMode: number;
+    feeAPerLiquidity: BN;
+    feeBPerLiquidity: BN;
+    tokenAAmount: BN;
+    tokenBAmount: BN;
+}
+
+const readUint = (data: Buffer, offset: number, bytes: number): BN => new BN(data.subarray(offset, offset + bytes), 'le');
+
+const readPubkey = (data: Buffer, offset: number): PublicKey => new PublicKey(data.subarray(offset, offset + 32));
+
+const hasDiscriminator = (data: Buffer, discriminator: Buffer): boolean => data.subarray(0, 8).equals(discriminator);
+
+const decodePosition = (address: PublicKey, nftMint: PublicKey, data: Buffer): RawPosition => {
+    const o = POSITION_OFFSETS;
+    return {
+        address,
+        nftMint,
+        pool: readPubkey(data, o.pool),
+        liquidity: readUint(data, o.unlockedLiquidity, 16)
+            .add(readUint(data, o.vestedLiquidity, 16))
+            .add(readUint(data, o.permanentLockedLiquidity, 16)),
+        feeAPerTokenCheckpoint: readUint(data, o.feeAPerTokenCheckpoint, 32),
+        feeBPerTokenCheckpoint: readUint(data, o.feeBPerTokenCheckpoint, 32),
+        feeAPending: readUint(data, o.feeAPending, 8),
+        feeBPending: readUint(data, o.feeBPending, 8),
+        totalClaimedAFee: readUint(data, o.totalClaimedAFee, 8),
+        totalClaimedBFee: readUint(data, o.totalClaimedBFee, 8),
+    };
+};
+
+const decodePool = (data: Buffer): RawPool => {
+    const o = POOL_OFFSETS;
+    return {
+        tokenAMint: readPubkey(data, o.tokenAMint),
+        tokenBMint: readPubkey(data, o.tokenBMint),
+        liquidity: readUint(data, o.liquidity, 16),
+        sqrtMinPrice: readUint(data, o.sqrtMinPrice, 16),
+        sqrtMaxPrice: readUint(data, o.sqrtMaxPrice, 16),
+        sqrtPrice: readUint(data, o.sqrtPrice, 16),
+        collectFeeMode: data[o.collectFeeMode],
+        feeAPerLiquidity: readUint(data, o.feeAPerLiquidity, 32),
+        feeBPerLiquidity: readUint(data, o.feeBPerLiquidity, 32),
+        tokenAAmount: readUint(data, o.tokenAAmount, 8),
+        tokenBAmount: readUint(data, o.tokenBAmount, 8),
+    };
+};
+
+// Raw token amounts withdrawable for the position's liquidity at the current price
+const positionAmounts = (position: RawPosition, pool: RawPool): [BN, BN] => {
+    const liquidity = position.liquidity;
+    if (pool.collectFeeMode === COLLECT_FEE_MODE_COMPOUNDING) {
+        if (pool.liquidity.isZero()) return [new BN(0), new BN(0)];
+        return [
+            liquidity.mul(pool.tokenAAmount).div(pool.liquidity),
+            liquidity.mul(pool.tokenBAmount).div(pool.liquidity),
+        ];
+    }
+    const {sqrtPrice, sqrtMinPrice, sqrtMaxPrice} = pool;
+    return [
+        liquidity.mul(sqrtMaxPrice.sub(sqrtPrice)).div(sqrtPrice.mul(sqrtMaxPrice)),
+        liquidity.mul(sqrtPrice.sub(sqrtMinPrice)).shrn(128),
+    ];
+};
+
+// Fee growth per liquidity is a wrapping u256, so the delta is taken modulo 2^256
+const pendingFee = (liquidity: BN, growth: BN, checkpoint: BN, pending: BN): BN =>
+    pending.add(liquidity.mul(growth.sub(checkpoint).umod(U256)).shrn(128));
+
+const fetchAccounts = async (connection: Connection, keys: PublicKey[]): Promise<(AccountInfo<Buffer> | null)[]> => {
+    const accounts: (AccountInfo<Buffer> | null)[] = [];
+    for (let i = 0; i < keys.length; i += MAX_ACCOUNTS_PER_REQUEST) {
+        const batch = keys.slice(i, i + MAX_ACCOUNTS_PER_REQUEST);
+        accounts.push(...await fetchWithRetry(() => connection.getMultipleAccountsInfo(batch)));
+    }
+    return accounts;
+};
+
+const toAmount = (raw: BN, decimals: number): number => Number(raw.toString()) / 10 ** decimals;
+
+// Position NFT mints held by the wallet: Token-2022 accounts with an amount of exactly one
+const fetchPositionNftMints = async (connection: Connection, owner: PublicKey): Promise<PublicKey[]> => {
+    const {value} = await fetchWithRetry(() =>
+        connection.getTokenAccountsByOwner(owner, {programId: TOKEN_2022_PROGRAM_ID})
+    );
+    return value
+        .map(({account}) => AccountLayout.decode(account.data))
+        .filter(token => token.amount === BigInt(1))
+        .map(token => token.mint);
+};
+
+export async function fetchDammV2Positions(connection: Connection, wallet: string): Promise<DammV2Position[]> {
+    const nftMints = await fetchPositionNftMints(connection, new PublicKey(wallet));
+    if (nftMints.length === 0) return [];
+
+    const addresses = nftMints.map(mint =>
+        PublicKey.findProgramAddressSync([Buffer.from('position'), mint.toBuffer()], DAMM_V2_PROGRAM_ID)[0]
+    );
+    const positionAccounts = await fetchAccounts(connection, addresses);
+    const positions: RawPosition[] = [];
+    positionAccounts.forEach((account, i) => {
+        if (account?.owner.equals(DAMM_V2_PROGRAM_ID) && hasDiscriminator(account.data, POSITION_DISCRIMINATOR)) {
+            positions.push(decodePosition(addresses[i], nftMints[i], account.data));
+        }
+    });
+    if (positions.length === 0) return [];
+
+    const poolKeys = Array.from(new Set(positions.map(p => p.pool.toString()))).map(key => new PublicKey(key));
+    const poolAccounts = await fetchAccounts(connection, poolKeys);
+    const pools = new Map<string, RawPool>();
+    poolAccounts.forEach((account, i) => {
+        if (account && hasDiscriminator(account.data, POOL_DISCRIMINATOR)) {
+            pools.set(poolKeys[i].toString(), decodePool(account.data));
+        }
+    });
+
+    const mints = Array.from(new Set(Array.from(pools.values()).flatMap(p => [p.tokenAMint.toString(), p.tokenBMint.toString()])));
+    const [tokens, poolInfos] = await Promise.all([
+        Promise.all(mints.map(async mint => {
+            const key = new PublicKey(mint);
+            const [decimals, metadata, price] = await Promise.all([
+                fetchTokenDecimals(connection, key),
+                getTokenMetadata(connection, key),
+                fetchTokenUsdPrice(key),
+            ]);
+            return [mint, {decimals, symbol: metadata?.symbol ?? formatPubKey(mint), price}] as const;
+        })).then(entries => new Map(entries)),
+        Promise.all(Array.from(pools.keys()).map(async pool => [pool, await fetchPool(pool, 'DAMM v2')] as const))
+            .then(entries => new Map(entries)),
+    ]);
+
+    return positions.flatMap(position => {
+        const poolKey = position.pool.toString();
+        const pool = pools.get(poolKey);
+        if (!pool) return [];
+        const tokenX = tokens.get(pool.tokenAMint.toString())!;
+        const tokenY = tokens.get(pool.tokenBMint.toString())!;
+        const poolInfo = poolInfos.get(poolKey);
+
+        const [rawX, rawY] = positionAmounts(position, pool);
+        const amountX = toAmount(rawX, tokenX.decimals);
+        const amountY = toAmount(rawY, tokenY.decimals);
+        const feeX = toAmount(pendingFee(position.liquidity, pool.feeAPerLiquidity, position.feeAPerTokenCheckpoint, position.feeAPending), tokenX.decimals);
+        const feeY = toAmount(pendingFee(position.liquidity, pool.feeBPerLiquidity, position.feeBPerTokenCheckpoint, position.feeBPending), tokenY.decimals);
+        // A failed price lookup values that side at zero rather than hiding the position
+        const usd = (amount: number, price: number) => price > 0 ? amount * price : 0;
+
+        return [{
+            address: position.address.toString(),
+            nftMint: position.nftMint.toString(),
+            pool: poolKey,
+            poolName: poolInfo?.name || `${tokenX.symbol}-${tokenY.symbol}`,
+            poolTvl: poolInfo ? parseFloat(poolInfo.liquidity) : null,
+            poolFees24h: poolInfo?.fees_24h ?? null,
+            nameX: tokenX.symbol,
+            nameY: tokenY.symbol,
+            amountX,
+            amountY,
+            feeX,
+            feeY,
+            claimedFeeX: toAmount(position.totalClaimedAFee, tokenX.decimals),
+            claimedFeeY: toAmount(position.totalClaimedBFee, tokenY.decimals),
+            valueUsd: usd(amountX, tokenX.price) + usd(amountY, tokenY.price),
+            unclaimedFeesUsd: usd(feeX, tokenX.price) + usd(feeY, tokenY.price),
+        }];
+    });
+}
@@ -1,16 +1,24 @@
 // app/utils/dlmm.ts
-import {Connection, PublicKey} from "@solana/web3.js";
+import {Connection, LAMPORTS_PER_SOL, PublicKey} from "@solana/web3.js";
 import {AnchorProvider, Program} from "@coral-xyz/anchor";
 import DLMM, {IDL, LbClmm} from "@meteora-ag/dlmm";
 import {BalanceInfo, EventInfo, EventType, PositionBalanceInfo, PositionLiquidityData,} from "@/app/types";
-import {fetchWithRetry} from "@/app/utils/rateLimitedFetch";
-import {blockTime2Date, date2BlockTime, fetchTokenDecimals, formatDecimalTokenBalance} from "@/app/utils/solana";
+import {fetchWithRetry, mapLimit} from "@/app/utils/rateLimitedFetch";
+import {
+    blockTime2Date,
+    date2BlockTime,
+    fetchSignaturesForAddress,
+    fetchTokenDecimals,
+    formatDecimalTokenBalance
+} from "@/app/utils/solana";
 import Decimal from "decimal.js";
 import {getTokenMetadata} from "@/app/utils/tokenMetadata";
 import {
     fetchPositionData,
     MeteoraClaimFee,
+    MeteoraClaimReward,
     MeteoraDeposit,
+    MeteoraLifecycleEvent,
     MeteoraWithdraw
 } from "@/app/utils/meteoraAPI";
 import {fetchTokenUsdPrice} from "@/app/utils/jup";
@@ -23,7 +31,15 @@ export function getPriceFromBinId(binId: number, binStep: number, tokenXDecimal:
     return base.pow(binId).mul(Math.pow(10, tokenXDecimal - tokenYDecimal));
 }
 
-type MeteoraOp = MeteoraDeposit | MeteoraWithdraw | MeteoraClaimFee;
+// Inverse of getPriceFromBinId: the bin whose price is closest to the given UI price,
+// or null when no bin can hold it (non-positive price or zero bin step)
+export function getBinIdFromPrice(price: number, binStep: number, tokenXDecimal: number, tokenYDecimal: number): number | null {
+    if (!(price > 0) || !(binStep > 0)) return null;
+    const rawPrice = price / Math.pow(10, tokenXDecimal - tokenYDecimal);
+    return Math.round(Math.log(rawPrice) / Math.log(1 + binStep / BASIS_POINT_MAX));
+}
+
+type MeteoraOp = MeteoraDeposit | MeteoraWithdraw | MeteoraClaimFee | MeteoraClaimReward;
 
 function processMeteoraOperations(
     operations: MeteoraOp[],
@@ -38,17 +54,26 @@ function processMeteoraOperations(
     const isClaimFee = (op: MeteoraOp): op is MeteoraClaimFee =>
         "fee_x_amount" in op || "fee_x_usd_amount" in op;
 
+    const isClaimReward = (op: MeteoraOp): op is MeteoraClaimReward =>
+        "reward_x_amount" in op || "reward_x_usd_amount" in op;
+
+    const amounts = (op: MeteoraOp) => {
+        if (isClaimFee(op)) {
+            return [op.fee_x_amount, op.fee_y_amount, op.fee_x_usd_amount, op.fee_y_usd_amount];
+        }
+        if (isClaimReward(op)) {
+            return [op.reward_x_amount, op.reward_y_amount, op.reward_x_usd_amount, op.reward_y_usd_amount];
+        }
+        return [op.token_x_amount, op.token_y_amount, op.token_x_usd_amount, op.token_y_usd_amount];
+    };
+
     operations.sort((a, b) => a.onchain_timestamp - b.onchain_timestamp);
 
     for (const op of operations) {
-        const tokenXAmount = toDec(isClaimFee(op) ? op.fee_x_amount : (op as MeteoraDeposit).token_x_amount);
-        const tokenYAmount = toDec(isClaimFee(op) ? op.fee_y_amount : (op as MeteoraDeposit).token_y_amount);
-
-        const usdValue = toDec(isClaimFee(op) ? op.fee_x_usd_amount : (op as MeteoraDeposit).token_x_usd_amount)
-            .plus(toDec(isClaimFee(op) ? op.fee_y_usd_amount : (op as MeteoraDeposit).token_y_usd_amount));
+        const [tokenXAmount, tokenYAmount, tokenXUsd, tokenYUsd] = amounts(op).map(toDec);
 
         balanceInfo.add(
-            new BalanceInfo(tokenXAmount, tokenYAmount, usdValue, op.onchain_timestamp)
+            new BalanceInfo(tokenXAmount, tokenYAmount, tokenXUsd.plus(tokenYUsd), op.onchain_timestamp, tokenXUsd, tokenYUsd)
         );
     }
 
@@ -62,8 +87,8 @@ async function getCurrentPositionData(
     owner: PublicKey,
     tokenXDecimals: number,
     tokenYDecimals: number,
-    tokenXMint: PublicKey,
-    tokenYMint: PublicKey
+    tokenXUsdPrice: Decimal,
+    tokenYUsdPrice: Decimal
 ): Promise<{ totalCurrent: BalanceInfo, totalUnclaimedFees: BalanceInfo }> {
     try {
         const dlmm = await fetchWithRetry(() => DLMM.create(connection, lbPair));
@@ -90,11 +115,6 @@ async function getCurrentPositionData(
                 tokenYDecimals
             );
 
-            const [tokenXUsdPrice, tokenYUsdPrice] = (await Promise.all([
-                fetchTokenUsdPrice(tokenXMint),
-                fetchTokenUsdPrice(tokenYMint)
-            ])).map(price => new Decimal(price));
-
             const currentUsdValue = tokenXBalance.mul(tokenXUsdPrice).plus(tokenYBalance.mul(tokenYUsdPrice));
             const unclaimedFeesUsdValue = unclaimedFeesX.mul(tokenXUsdPrice).plus(unclaimedFeesY.mul(tokenYUsdPrice));
 
@@ -110,11 +130,107 @@ async function getCurrentPositionData(
     return {totalCurrent: BalanceInfo.zero(), totalUnclaimedFees: BalanceInfo.zero()};
 }
 
+interface LifecycleTx {
+    signature: string;
+    blockTime: number;
+    // Lamports moved into (create) or out of (close) the position account, in SOL
+    rent: Decimal;
+}
+
+interface PositionLifecycle {
+    created: LifecycleTx | null;
+    closed: LifecycleTx | null;
+}
+
+// Signature pages (1000 each) walked when the data API has no create/close event for a position
+const LIFECYCLE_SIGNATURE_PAGES = 3;
+// Newest signatures checked for the close of a position the data API didn't report closed
+const LIFECYCLE_CLOSE_CANDIDATES = 5;
+
+// The position account's lamports before and after a transaction; null when it isn't in it
+async function getPositionLamports(
+    connection: Connection,
+    signature: string,
+    position: PublicKey
+): Promise<{ pre: number; post: number } | null> {
+    const tx = await fetchWithRetry(() =>
+        connection.getTransaction(signature, {maxSupportedTransactionVersion: 0})
+    );
+    if (!tx?.meta) return null;
+
+    const accountKeys = tx.transaction.message.getAccountKeys({
+        accountKeysFromLookups: tx.meta.loadedAddresses
+    });
+    const index = accountKeys.keySegments().flat().findIndex(key => key.equals(position));
+    if (index < 0) return null;
+
+    return {pre: tx.meta.preBalances[index], post: tx.meta.postBalances[index]};
+}
+
+// Open/close transactions come from the data API's create/close events. For positions the feed
+// has none for, the account's own signature history is scanned (bounded): a create funds the
+// account from zero and a close drains it to zero, so later dust transfers to a closed address
+// are not mistaken for either.
+async function getPositionLifecycle(
+    connection: Connection,
+    position: PublicKey,
+    reported: { created: MeteoraLifecycleEvent | null; closed: MeteoraLifecycleEvent | null }
+): Promise<PositionLifecycle> {
+    const toLifecycleTx = async (signature: string, blockTime: number | null, lamports?: { pre: number; post: number } | null) => {
+        const change = lamports === undefined ? await getPositionLamports(connection, signature, position) : lamports;
+        return {
+            signature,
+            blockTime: blockTime ?? 0,
+            rent: new Decimal(change ? Math.abs(change.post - change.pre) : 0).div(LAMPORTS_PER_SOL),
+        };
+    };
+
+    try {
+        const [created, closed, accountInfo] = await Promise.all([
+            reported.created ? toLifecycleTx(reported.created.tx_id, reported.created.onchain_timestamp) : null,
+            reported.closed ? toLifecycleTx(reported.closed.tx_id, reported.closed.onchain_timestamp) : null,
+            reported.closed ? null : fetchWithRetry(() => connection.getAccountInfo(position)),
+        ]);
+        const missingClose = !closed && accountInfo === null;
+        if (created && !missingClose) return {created, closed};
+
+        const signatures = await fetchSignaturesForAddress(position, connection, LIFECYCLE_SIGNATURE_PAGES);
+        if (signatures.length === 0) return {created, closed};
+
+        let scannedCreate: LifecycleTx | null = null;
+        if (!created) {
+            // Only the creation if the scan reached the start of the history
+            const oldest = signatures[signatures.length - 1];
+            const change = await getPositionLamports(connection, oldest.signature, position);
+            if (change && change.pre === 0 && change.post > 0) {
+                scannedCreate = await toLifecycleTx(oldest.signature, oldest.blockTime, change);
+            }
+        }
+
+        let scannedClose: LifecycleTx | null = null;
+        if (missingClose) {
+            for (const candidate of signatures.slice(0, LIFECYCLE_CLOSE_CANDIDATES)) {
+                const change = await getPositionLamports(connection, candidate.signature, position);
+                if (change && change.pre > 0 && change.post === 0) {
+                    scannedClose = await toLifecycleTx(candidate.signature, candidate.blockTime, change);
+                    break;
+                }
+            }
+        }
+
+        return {created: created ?? scannedCreate, closed: closed ?? scannedClose};
+    } catch (error) {
+        console.error(`Error fetching lifecycle for position ${position.toString()}:`, error);
+        return {created: null, closed: null};
+    }
+}
 
 function buildEventsFromMeteoraOps(
     deposits: MeteoraDeposit[],
     withdrawals: MeteoraWithdraw[],
     claimFees: MeteoraClaimFee[],
+    claimRewards: MeteoraClaimReward[],
+    lifecycle: PositionLifecycle,
     lbPair: PublicKey,
     position: PublicKey,
     owner: PublicKey,
@@ -122,6 +238,22 @@ function buildEventsFromMeteoraOps(
 ): EventInfo[] {
     const evts: EventInfo[] = [];
 
+    // Create goes first so the stable sort keeps it ahead of a deposit in the same transaction
+    if (lifecycle.created) {
+        evts.push({
+            operation: EventType.PositionCreate,
+            signature: lifecycle.created.signature,
+            blockTime: lifecycle.created.blockTime,
+            lbPair,
+            position,
+            owner,
+            tokenXChange: new Decimal(0),
+            tokenYChange: new Decimal(0),
+            activeBin: fallbackActiveBin,
+            rent: lifecycle.created.rent,
+        });
+    }
+
     // Deposits → AddLiquidity (amounts positive)
     for (const d of deposits) {
         evts.push({
@@ -134,6 +266,7 @@ function buildEventsFromMeteoraOps(
             tokenXChange: new Decimal(d.token_x_amount ?? 0),
             tokenYChange: new Decimal(d.token_y_amount ?? 0),
             activeBin: (d as any).active_bin_id ?? fallbackActiveBin,
+            usdValue: new Decimal(d.token_x_usd_amount ?? 0).plus(d.token_y_usd_amount ?? 0),
         });
     }
 
@@ -149,6 +282,7 @@ function buildEventsFromMeteoraOps(
             tokenXChange: new Decimal(w.token_x_amount ?? 0).neg(),
             tokenYChange: new Decimal(w.token_y_amount ?? 0).neg(),
             activeBin: (w as any).active_bin_id ?? fallbackActiveBin,
+            usdValue: new Decimal(w.token_x_usd_amount ?? 0).plus(w.token_y_usd_amount ?? 0),
         });
     }
 
@@ -165,6 +299,39 @@ function buildEventsFromMeteoraOps(
             tokenYChange: new Decimal(c.fee_y_amount ?? 0),
             // claim_fees response usually lacks active_bin_id → fallback
             activeBin: (c as any).active_bin_id ?? fallbackActiveBin,
+            usdValue: new Decimal(c.fee_x_usd_amount ?? 0).plus(c.fee_y_usd_amount ?? 0),
+        });
+    }
+
+    // Claim rewards → ClaimReward (amounts positive, in the pool's reward tokens)
+    for (const r of claimRewards) {
+        evts.push({
+            operation: EventType.ClaimReward,
+            signature: r.tx_id,
+            blockTime: r.onchain_timestamp,
+            lbPair,
+            position,
+            owner,
+            tokenXChange: new Decimal(r.reward_x_amount ?? 0),
+            tokenYChange: new Decimal(r.reward_y_amount ?? 0),
+            activeBin: fallbackActiveBin,
+            usdValue: new Decimal(r.reward_x_usd_amount ?? 0).plus(r.reward_y_usd_amount ?? 0),
+        });
+    }
+
+    // Close goes last so it stays after a withdrawal in the same transaction
+    if (lifecycle.closed) {
+        evts.push({
+            operation: EventType.PositionClose,
+            signature: lifecycle.closed.signature,
+            blockTime: lifecycle.closed.blockTime,
+            lbPair,
+            position,
+            owner,
+            tokenXChange: new Decimal(0),
+            tokenYChange: new Decimal(0),
+            activeBin: fallbackActiveBin,
+            rent: lifecycle.closed.rent,
         });
     }
 
@@ -173,27 +340,41 @@ function buildEventsFromMeteoraOps(
     return evts;
 }
 
+// Each position costs several data API and RPC calls; more in flight than this trips rate limits
+const POSITION_INFO_CONCURRENCY = 5;
+
+export interface PositionsInfo {
+    positions: { [key: string]: PositionLiquidityData };
+    // Keys whose history or pair could not be loaded; absent from positions
+    failed: string[];
+}
+
 export async function getPositionsInfo(
     connection: Connection,
     positionPubKeys: string[]
-): Promise<{ [key: string]: PositionLiquidityData }> {
+): Promise<PositionsInfo> {
     const positionsData: { [key: string]: PositionLiquidityData } = {};
+    const failed: string[] = [];
     const provider = new AnchorProvider(connection, {} as any, AnchorProvider.defaultOptions());
     const program = new Program<LbClmm>(IDL, provider);
 
     const processPosition = async (positionPubKey: string) => {
         try {
-            const {meta, deposits, withdrawals, claimFees} = await fetchPositionData(positionPubKey);
+            const {
+                meta, created, closed, deposits, withdrawals, claimFees, claimRewards
+            } = await fetchPositionData(positionPubKey);
             if (!meta?.pair_address || !meta?.owner) {
                 throw new Error(`Missing pair_address or owner for position ${positionPubKey}`);
             }
 
             const lbPair = new PublicKey(meta.pair_address);
             const owner = new PublicKey(meta.owner);
+            const position = new PublicKey(positionPubKey);
 
-            const {activeId, binStep, tokenXMint, tokenYMint} = await fetchWithRetry(() =>
-                program.account.lbPair.fetch(lbPair)
-            );
+            const [{activeId, binStep, tokenXMint, tokenYMint, rewardInfos}, lifecycle] = await Promise.all([
+                fetchWithRetry(() => program.account.lbPair.fetch(lbPair)),
+                getPositionLifecycle(connection, position, {created, closed}),
+            ]);
 
             const [tokenXDecimals, tokenYDecimals] = await Promise.all([
                 fetchTokenDecimals(connection, tokenXMint),
@@ -204,15 +385,27 @@ export async function getPositionsInfo(
                 deposits,
                 withdrawals,
                 claimFees,
+                claimRewards,
+                lifecycle,
                 lbPair,
-                new PublicKey(positionPubKey),
+                position,
                 owner,
                 Number(activeId)
             );
 
+            // Fetched up front (not only for open positions) so closed ones still get a HODL comparison
+            const [tokenXUsdPrice, tokenYUsdPrice] = (await Promise.all([
+                fetchTokenUsdPrice(tokenXMint),
+                fetchTokenUsdPrice(tokenYMint)
+            ])).map(price => new Decimal(price));
+
             const totalDeposits = processMeteoraOperations(deposits, tokenXMint, tokenYMint);
             const totalWithdrawals = processMeteoraOperations(withdrawals, tokenXMint, tokenYMint);
             const totalClaimedFees = processMeteoraOperations(claimFees, tokenXMint, tokenYMint);
+            // Reward slots as configured on the pair; an uninitialized slot has the default pubkey
+            const rewardXMint = rewardInfos[0]?.mint ?? PublicKey.default;
+            const rewardYMint = rewardInfos[1]?.mint ?? PublicKey.default;
+            const totalClaimedRewards = processMeteoraOperations(claimRewards, rewardXMint, rewardYMint);
 
             const {totalCurrent, totalUnclaimedFees} = await getCurrentPositionData(
                 connection,
@@ -221,19 +414,27 @@ export async function getPositionsInfo(
                 owner,
                 tokenXDecimals,
                 tokenYDecimals,
-                tokenXMint,
-                tokenYMint
+                tokenXUsdPrice,
+                tokenYUsdPrice
             );
 
-            const [mintInfoX, mintInfoY] = await Promise.all([
+            const rewardSymbol = async (mint: PublicKey) => mint.equals(PublicKey.default)
+                ? ''
+                : (await getTokenMetadata(connection, mint))?.symbol ?? 'Unknown Reward';
+            const [mintInfoX, mintInfoY, rewardXSymbol, rewardYSymbol] = await Promise.all([
                 getTokenMetadata(connection, tokenXMint),
                 getTokenMetadata(connection, tokenYMint),
+                rewardSymbol(rewardXMint),
+                rewardSymbol(rewardYMint),
             ]);
 
             const allTimes = [
                 ...deposits.map(d => d.onchain_timestamp),
                 ...withdrawals.map(w => w.onchain_timestamp),
                 ...claimFees.map(c => c.onchain_timestamp),
+                ...claimRewards.map(r => r.onchain_timestamp),
+                lifecycle.created?.blockTime ?? 0,
+                lifecycle.closed?.blockTime ?? 0,
             ].filter(t => Number.isFinite(t) && t > 0).sort((a, b) => a - b);
 
             const startDate = allTimes.length ? blockTime2Date(allTimes[0]) : new Date();
@@ -247,19 +448,28 @@ export async function getPositionsInfo(
                 tokenXMint,
                 tokenYSymbol: mintInfoY?.symbol ?? 'Unknown Token Y',
                 tokenYMint,
+                binStep: Number(binStep),
+                tokenXDecimals,
+                tokenYDecimals,
+                tokenXUsdPrice,
+                tokenYUsdPrice,
                 startDate,
                 lastUpdatedAt,
                 totalDeposits,
                 totalWithdrawals,
                 totalUnclaimedFees: new PositionBalanceInfo([totalUnclaimedFees], tokenXMint, tokenYMint),
                 totalClaimedFees,
+                totalClaimedRewards,
+                rewardXSymbol,
+                rewardYSymbol,
                 totalCurrent: new PositionBalanceInfo([totalCurrent], tokenXMint, tokenYMint),
             };
         } catch (error) {
             console.error(`Error processing position ${positionPubKey}:`, error);
+            failed.push(positionPubKey);
         }
     };
 
-    await Promise.all(positionPubKeys.map(processPosition));
-    return positionsData;
+    await mapLimit(positionPubKeys, POSITION_INFO_CONCURRENCY, processPosition);
+    return {positions: positionsData, failed};
 }
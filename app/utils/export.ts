@@ -0,0 +1,140 @@
+// app/utils/export.ts
+// Flattens position operations and closed pool history into rows and downloads them as CSV or JSON.
+
+import {EventType, PositionLiquidityData} from '@/app/types';
+import {fetchPortfolioClosed, PortfolioClosedPool} from '@/app/utils/meteoraDataAPI';
+import {blockTime2Date} from '@/app/utils/solana';
+
+export type ExportFormat = 'csv' | 'json';
+
+type ExportValue = string | number | null;
+type ExportRow = Record<string, ExportValue>;
+
+export interface OperationExportRow extends ExportRow {
+    date: string;
+    pair: string;
+    position: string;
+    operation: string;
+    tokenXSymbol: string;
+    tokenXAmount: string;
+    tokenYSymbol: string;
+    tokenYAmount: string;
+    usdValue: string | null;
+    solRent: string | null;
+    signature: string;
+}
+
+export interface ClosedPoolExportRow extends ExportRow {
+    date: string;
+    pair: string;
+    pool: string;
+    tokenXSymbol: string;
+    tokenYSymbol: string;
+    depositedTokenX: string;
+    depositedTokenY: string;
+    depositedUsd: string;
+    withdrawnTokenX: string;
+    withdrawnTokenY: string;
+    withdrawnUsd: string;
+    feesTokenX: string;
+    feesTokenY: string;
+    feesUsd: string;
+    pnlUsd: string;
+    pnlSol: string;
+}
+
+const CLOSED_EXPORT_PAGE_SIZE = 100;
+
+// Operations of every given position, oldest first. Claim rewards carry the pool's reward tokens.
+export function buildOperationRows(positions: PositionLiquidityData[]): OperationExportRow[] {
+    return positions
+        .flatMap(p => p.operations.map(op => {
+            const isReward = op.operation === EventType.ClaimReward;
+            return {
+                blockTime: op.blockTime ?? 0,
+                row: {
+                    date: op.blockTime ? blockTime2Date(op.blockTime).toISOString() : '',
+                    pair: `${p.tokenXSymbol}-${p.tokenYSymbol}`,
+                    position: op.position?.toString() ?? '',
+                    operation: op.operation ?? '',
+                    tokenXSymbol: isReward ? p.rewardXSymbol : p.tokenXSymbol,
+                    tokenXAmount: op.tokenXChange?.toString() ?? '0',
+                    tokenYSymbol: isReward ? p.rewardYSymbol : p.tokenYSymbol,
+                    tokenYAmount: op.tokenYChange?.toString() ?? '0',
+                    usdValue: op.usdValue?.toString() ?? null,
+                    solRent: op.rent?.toString() ?? null,
+                    signature: op.signature ?? '',
+                },
+            };
+        }))
+        .sort((a, b) => a.blockTime - b.blockTime)
+        .map(({row}) => row);
+}
+
+export function buildClosedPoolRows(pools: PortfolioClosedPool[]): ClosedPoolExportRow[] {
+    return pools.map(pool => ({
+        date: pool.lastClosedAt ? new Date(pool.lastClosedAt * 1000).toISOString() : '',
+        pair: `${pool.tokenX}-${pool.tokenY}`,
+        pool: pool.poolAddress,
+        tokenXSymbol: pool.tokenX,
+        tokenYSymbol: pool.tokenY,
+        depositedTokenX: pool.totalDepositTokenX,
+        depositedTokenY: pool.totalDepositTokenY,
+        depositedUsd: pool.totalDeposit,
+        withdrawnTokenX: pool.totalWithdrawalTokenX,
+        withdrawnTokenY: pool.totalWithdrawalTokenY,
+        withdrawnUsd: pool.totalWithdrawal,
+        feesTokenX: pool.totalFeeTokenX,
+        feesTokenY: pool.totalFeeTokenY,
+        feesUsd: pool.totalFee,
+        pnlUsd: pool.pnlUsd,
+        pnlSol: pool.pnlSol,
+    }));
+}
+
+// Walks every page of the closed portfolio endpoint, not just the pages shown in the UI. Throws when
+// a page fails, since a partial list would pass for the complete history.
+export async function fetchAllClosedPools(wallet: string, daysBack: number): Promise<PortfolioClosedPool[]> {
+    const pools: PortfolioClosedPool[] = [];
+    for (let page = 1; ; page++) {
+        const res = await fetchPortfolioClosed(wallet, daysBack, page, CLOSED_EXPORT_PAGE_SIZE);
+        if (!res) throw new Error(`Failed to load page ${page} of closed positions for ${wallet}`);
+        pools.push(...res.pools);
+        if (!res.hasNext || res.pools.length === 0) break;
+    }
+    return pools;
+}
+
+const NUMERIC = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i;
+
+// Text starting like a formula (token names come from on-chain metadata) is prefixed with ' so
+// spreadsheets show it instead of evaluating it; numbers, signed decimal strings included, are kept
+const neutralizeFormula = (text: string): string =>
+    /^[=+\-@\t\r]/.test(text) && !NUMERIC.test(text) ? `'${text}` : text;
+
+const csvCell = (value: ExportValue): string => {
+    const text = value === null ? '' : neutralizeFormula(String(value));
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv(rows: ExportRow[]): string {
+    if (rows.length === 0) return '';
+    const columns = Object.keys(rows[0]);
+    return [
+        columns.join(','),
+        ...rows.map(row => columns.map(column => csvCell(row[column] ?? null)).join(',')),
+    ].join('\r\n');
+}
+
+export function downloadRows(rows: ExportRow[], baseName: string, format: ExportFormat): void {
+    const content = format === 'csv' ? toCsv(rows) : JSON.stringify(rows, null, 2);
+    const type = format === 'csv' ? 'text/csv;charset=utf-8' : 'application/json';
+    const url = URL.createObjectURL(new Blob([content], {type}));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${baseName}-${new Date().toISOString().slice(0, 10)}.${format}`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+}
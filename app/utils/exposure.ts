@@ -0,0 +1,57 @@
+// app/utils/exposure.ts
+// Net token exposure of a wallet's open DLMM positions: the pair tokens of every position summed
+// per mint, valued in USD, plus a simple price shock on one token.
+
+import {PoolData} from '@/app/types';
+
+export interface TokenExposure {
+    mint: string;
+    symbol: string;
+    amount: number;
+    // null when the USD price lookup failed
+    usdValue: number | null;
+    // Fraction of the priced total, 0..1
+    share: number;
+}
+
+export interface StressResult {
+    before: number;
+    after: number;
+    change: number;
+}
+
+// Price lookups return -1 on failure
+export function buildExposure(dataMap: Map<string, PoolData>, usdPrices: Map<string, number>): TokenExposure[] {
+    const tokens = new Map<string, TokenExposure>();
+    const add = (mint: string, symbol: string, amount: number) => {
+        if (!tokens.has(mint)) tokens.set(mint, {mint, symbol, amount: 0, usdValue: null, share: 0});
+        tokens.get(mint)!.amount += amount;
+    };
+
+    dataMap.forEach(pool => {
+        pool.lbPairPositionsData.forEach(position => {
+            add(pool.mintX, pool.nameX, position.totalXAmount);
+            add(pool.mintY, pool.nameY, position.totalYAmount);
+        });
+    });
+
+    const rows = Array.from(tokens.values()).filter(t => t.amount > 0);
+    rows.forEach(t => {
+        const price = usdPrices.get(t.mint) ?? -1;
+        t.usdValue = price > 0 ? t.amount * price : null;
+    });
+    const total = rows.reduce((sum, t) => sum + (t.usdValue ?? 0), 0);
+    rows.forEach(t => {
+        t.share = total > 0 && t.usdValue !== null ? t.usdValue / total : 0;
+    });
+    return rows.sort((a, b) => (b.usdValue ?? -1) - (a.usdValue ?? -1));
+}
+
+// Revalues the current holdings with one token's price moved by `pctChange` (-20 = a 20% drop).
+// Holdings stay fixed: the rebalancing a pool does while the price crosses a range is not modelled.
+export function stressExposure(exposure: TokenExposure[], mint: string, pctChange: number): StressResult {
+    const before = exposure.reduce((sum, t) => sum + (t.usdValue ?? 0), 0);
+    const shocked = exposure.find(t => t.mint === mint)?.usdValue ?? 0;
+    const change = shocked * pctChange / 100;
+    return {before, after: before + change, change};
+}
@@ -0,0 +1,96 @@
+// app/utils/leaderboardRefresh.ts
+// Background rebuilds of the global leaderboard (server only). Requests are always answered from
+// the latest stored snapshot; a stale window is rebuilt behind it. Scans are started by the
+// leaderboard route, the cron endpoint (/api/leaderboard/refresh) or the internal timer
+// (LEADERBOARD_REFRESH_INTERVAL_MINUTES, see instrumentation.ts), and a per-window lock keeps
+// concurrent triggers from scanning the same window twice.
+
+import {getLeaderboardStore, Payload, WINDOW_KEYS, WindowKey} from '@/app/utils/leaderboardStore';
+import {buildPayload} from '@/app/utils/leaderboardScan';
+
+// Snapshots older than this are rebuilt on the next request or timer tick
+export const LEADERBOARD_TTL_MS = 6 * 60 * 60 * 1000;
+// A window scan takes about a minute; a lock held longer than this belongs to a scan that died
+const REFRESH_LOCK_TTL_MS = 10 * 60 * 1000;
+
+export type RefreshResult = 'refreshed' | 'fresh' | 'locked' | 'failed';
+
+// Scans started by this process, so callers in the same instance share one promise
+const running = new Map<WindowKey, Promise<Payload | null>>();
+
+const lockName = (window: WindowKey) => `refresh-${window}`;
+
+export const isStale = (payload: Payload): boolean => Date.now() - payload.updatedAt >= LEADERBOARD_TTL_MS;
+
+// Rebuilds one window. Resolves to the new payload, or null when another instance holds the lock.
+export function refreshWindow(window: WindowKey): Promise<Payload | null> {
+    const inFlight = running.get(window);
+    if (inFlight) return inFlight;
+
+    const store = getLeaderboardStore();
+    const run = (async () => {
+        const owner = await store.acquireLock(lockName(window), REFRESH_LOCK_TTL_MS);
+        if (!owner) return null;
+        try {
+            return await buildPayload(window);
+        } finally {
+            await store.releaseLock(lockName(window), owner);
+        }
+    })().finally(() => running.delete(window));
+    running.set(window, run);
+    return run;
+}
+
+export async function isRefreshing(window: WindowKey): Promise<boolean> {
+    return running.has(window) || getLeaderboardStore().isLocked(lockName(window));
+}
+
+// Refreshes one window, or reports it fresh when onlyStale and its snapshot is within the TTL
+export async function refreshWindowIfDue(window: WindowKey, onlyStale: boolean): Promise<RefreshResult> {
+    try {
+        const stored = await getLeaderboardStore().latestSnapshot(window);
+        if (onlyStale && stored && !isStale(stored)) return 'fresh';
+        return await refreshWindow(window) ? 'refreshed' : 'locked';
+    } catch (err) {
+        console.error(`Leaderboard refresh of ${window} failed:`, err);
+        return 'failed';
+    }
+}
+
+// Refreshes the window whose latest snapshot is oldest (one without a snapshot first), skipping
+// windows another scan already holds, so a caller that can only afford one scan per invocation
+// works through all of them over successive calls
+export async function refreshOldestWindow(onlyStale = true): Promise<{window: WindowKey; result: RefreshResult}> {
+    const store = getLeaderboardStore();
+    const candidates = await Promise.all(WINDOW_KEYS.map(async window => ({
+        window,
+        updatedAt: (await store.latestSnapshot(window).catch(() => null))?.updatedAt ?? 0,
+        busy: await isRefreshing(window).catch(() => false),
+    })));
+    candidates.sort((a, b) => Number(a.busy) - Number(b.busy) || a.updatedAt - b.updatedAt);
+    const [{window, busy}] = candidates;
+    return {window, result: busy ? 'locked' : await refreshWindowIfDue(window, onlyStale)};
+}
+
+// One window at a time: a single scan already uses the RPC and data API concurrency budget
+export async function refreshAllWindows(onlyStale = true): Promise<Record<WindowKey, RefreshResult>> {
+    const results = {} as Record<WindowKey, RefreshResult>;
+    for (const window of WINDOW_KEYS) {
+        results[window] = await refreshWindowIfDue(window, onlyStale);
+    }
+    return results;
+}
+
+let timer: ReturnType<typeof setInterval> | null = null;
+
+// Rebuilds stale windows now and every intervalMs; for long-running servers (not serverless)
+export function startRefreshTimer(intervalMs: number): void {
+    if (timer) return;
+    const tick = () => {
+        refreshAllWindows().catch(err => console.error('Leaderboard refresh failed:', err));
+    };
+    timer = setInterval(tick, intervalMs);
+    // Don't keep the process alive just for the timer
+    timer.unref?.();
+    tick();
+}
@@ -0,0 +1,308 @@
+// app/utils/leaderboardScan.ts
+// Global DLMM wallet leaderboard scan (server only). No Meteora endpoint enumerates
+// wallets, so we discover them on-chain: owners of open positions in the top pools
+// (by 24h fees and by TVL), then score each via the Meteora data API. Every scan is
+// stored as a dated snapshot (see leaderboardStore); every discovered wallet is
+// remembered and re-scored on later scans, so wallets that have since fully exited
+// keep their place on the board.
+
+import {PublicKey} from '@solana/web3.js';
+import {gpaSlice, isDlmmPool} from '@/app/utils/positionScan';
+import {
+    getLeaderboardStore,
+    Payload,
+    ProtocolMetrics,
+    RiskMetrics,
+    ScoredWallet,
+    WindowKey
+} from '@/app/utils/leaderboardStore';
+import {mapLimit} from '@/app/utils/rateLimitedFetch';
+
+const DLMM_API = 'https://dlmm.datapi.meteora.ag';
+const RPC_ENDPOINT = process.env.LEADERBOARD_RPC_ENDPOINT ?? 'https://rpc-proxy.segfaultx0.workers.dev';
+
+const TOP_POOLS_BY_FEE = 20;
+const TOP_POOLS_BY_RATIO = 20;
+const TOP_POOLS_BY_TVL = 5;
+const MIN_POOL_FEE_24H_USD = 500;
+const BASE_WALLETS_PER_POOL = 5;
+// Wallets scored per scan, remembered ones included
+const MAX_WALLETS = 300;
+// Of those, at most this many are remembered wallets that this scan's top discoveries didn't find
+const MAX_KNOWN_WALLETS = 100;
+const SCORE_CONCURRENCY = 10;
+const POOL_SCAN_CONCURRENCY = 8;
+const PORTFOLIO_PAGE_CAP = 3;
+const RESULT_LIMIT = 100;
+
+const DAYS_BACK: Record<Exclude<WindowKey, 'all'>, number> = {'1d': 1, '7d': 7, '30d': 30};
+
+const num = (v: unknown): number => {
+    const n = typeof v === 'string' ? parseFloat(v) : typeof v === 'number' ? v : 0;
+    return Number.isFinite(n) ? n : 0;
+};
+
+async function getJson<T>(url: string): Promise<T | null> {
+    try {
+        const res = await fetch(url, {cache: 'no-store'});
+        if (!res.ok) return null;
+        return await res.json() as T;
+    } catch {
+        return null;
+    }
+}
+
+// ---------- Discovery ----------
+
+interface PoolsResponse {
+    data: { address: string; fees?: Record<string, number> }[];
+}
+
+export interface PoolLpStats {
+    // Quote-side lifetime claimed fees over the owner's open positions, raw units
+    claimedY: number;
+    positions: number;
+}
+
+// Per-LP stats for a pool's open positions. claimedY is only comparable within one
+// pool — it's the whale signal used to rank that pool's LPs. Throws when the RPC
+// scan fails, so a failure is never mistaken for a pool without LPs.
+export async function fetchPoolLpStats(pool: string): Promise<Map<string, PoolLpStats>> {
+    const [ownerSlices, feeSlices] = await Promise.all([
+        gpaSlice(RPC_ENDPOINT, pool, 40, 32),
+        gpaSlice(RPC_ENDPOINT, pool, 7936, 8),
+    ]);
+    const feeByPosition = new Map<string, number>();
+    for (const s of feeSlices) {
+        feeByPosition.set(s.pubkey, Number(Buffer.from(s.account.data[0], 'base64').readBigUInt64LE(0)));
+    }
+    const statsByOwner = new Map<string, PoolLpStats>();
+    for (const s of ownerSlices) {
+        const owner = new PublicKey(Buffer.from(s.account.data[0], 'base64')).toBase58();
+        const stats = statsByOwner.get(owner) ?? {claimedY: 0, positions: 0};
+        stats.claimedY += feeByPosition.get(s.pubkey) ?? 0;
+        stats.positions += 1;
+        statsByOwner.set(owner, stats);
+    }
+    return statsByOwner;
+}
+
+// Checked before a scan of a pool someone asked for, on the same RPC the scan uses
+export const isDlmmPoolAddress = (pool: string): Promise<boolean> => isDlmmPool(RPC_ENDPOINT, pool);
+
+// Three pool buckets: biggest absolute fee earners, most concentrated earners
+// (high fee/TVL with a real-fee floor — a small pool can pay one LP more than a
+// crowded top pool pays each of its thousand), and the largest pools by TVL.
+async function discoverWallets(): Promise<{ wallets: string[]; poolCount: number }> {
+    const feeFloor = encodeURIComponent(`fee_24h>${MIN_POOL_FEE_24H_USD}`);
+    const [byFee, byRatio, byTvl] = await Promise.all([
+        getJson<PoolsResponse>(`${DLMM_API}/pools?page=1&page_size=${TOP_POOLS_BY_FEE}&sort_by=fee_24h:desc`),
+        getJson<PoolsResponse>(`${DLMM_API}/pools?page=1&page_size=${TOP_POOLS_BY_RATIO}&sort_by=fee_tvl_ratio_24h:desc&filter_by=${feeFloor}`),
+        getJson<PoolsResponse>(`${DLMM_API}/pools?page=1&page_size=${TOP_POOLS_BY_TVL}&sort_by=tvl:desc`),
+    ]);
+    const poolFees = new Map<string, number>();
+    for (const p of [...(byFee?.data ?? []), ...(byRatio?.data ?? []), ...(byTvl?.data ?? [])]) {
+        if (!poolFees.has(p.address)) poolFees.set(p.address, num(p.fees?.['24h']));
+    }
+    const pools = Array.from(poolFees.keys());
+    // One pool failing to scan only costs the wallets found there
+    const poolStats = await mapLimit(pools, POOL_SCAN_CONCURRENCY, pool => fetchPoolLpStats(pool).catch(err => {
+        console.error(`Leaderboard scan of pool ${pool} failed:`, err);
+        return new Map<string, PoolLpStats>();
+    }));
+
+    // Each LP's estimated take of its pool's 24h fees = pool fees × the LP's share
+    // of lifetime claimed fees in that pool (even split when nobody has claimed yet).
+    // Every pool contributes its top claimers so whales inside crowded pools are
+    // kept; the rest of the budget goes to the globally best estimated shares,
+    // which favors concentrated pools where one LP takes most of the fees.
+    const selected = new Set<string>();
+    const candidates: { wallet: string; estimatedShare: number }[] = [];
+    pools.forEach((pool, i) => {
+        const stats = poolStats[i];
+        if (stats.size === 0) return;
+        const poolFee = poolFees.get(pool) ?? 0;
+        const totalClaimed = Array.from(stats.values()).reduce((a, v) => a + v.claimedY, 0);
+        const owners = Array.from(stats.entries())
+            .map(([wallet, {claimedY}]) => ({
+                wallet,
+                estimatedShare: poolFee * (totalClaimed > 0 ? claimedY / totalClaimed : 1 / stats.size),
+            }))
+            .sort((a, b) => b.estimatedShare - a.estimatedShare);
+        owners.slice(0, BASE_WALLETS_PER_POOL).forEach(o => selected.add(o.wallet));
+        candidates.push(...owners);
+    });
+    candidates.sort((a, b) => b.estimatedShare - a.estimatedShare);
+    for (const c of candidates) {
+        if (selected.size >= MAX_WALLETS) break;
+        selected.add(c.wallet);
+    }
+    return {wallets: Array.from(selected).slice(0, MAX_WALLETS), poolCount: pools.length};
+}
+
+// ---------- Scoring ----------
+
+interface PortfolioTotalResponse {
+    totalPnlUsd: string;
+    totalPnlSol: string;
+    totalPnlPctChange: string;
+    totalClosedPositions: number;
+}
+
+interface PortfolioClosedResponse {
+    hasNext: boolean;
+    // Pools in the window; totalPositions counts positions across all of them
+    totalCount: number;
+    totalPositions: number;
+    pools: ClosedPool[];
+}
+
+interface ClosedPool {
+    pnlUsd: string;
+    pnlSol: string;
+    pnlPctChange: string;
+    totalDeposit: string;
+    // Unix seconds
+    lastClosedAt: number;
+}
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+function riskMetrics(pools: ClosedPool[], positions: number): RiskMetrics | null {
+    if (pools.length === 0) return null;
+    const pnls = pools.map(p => num(p.pnlUsd));
+    const total = pnls.reduce((a, v) => a + v, 0);
+    const sorted = [...pnls].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    const median = sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+
+    let consistency: number | null = null;
+    if (pools.length >= 2) {
+        const returns = pools.map(p => num(p.pnlPctChange));
+        const mean = returns.reduce((a, v) => a + v, 0) / returns.length;
+        const variance = returns.reduce((a, v) => a + (v - mean) ** 2, 0) / (returns.length - 1);
+        const stdev = Math.sqrt(variance);
+        consistency = stdev > 0 ? mean / stdev : null;
+    }
+
+    const activeDays = new Set(
+        pools.filter(p => p.lastClosedAt > 0).map(p => Math.floor(p.lastClosedAt / DAY_SECONDS))
+    ).size;
+
+    return {
+        pools: pools.length,
+        winRatePct: (pnls.filter(v => v > 0).length / pools.length) * 100,
+        avgPnlPerPosition: total / Math.max(positions, pools.length),
+        medianPnlPerPool: median,
+        largestLoss: Math.min(0, sorted[0]),
+        consistency,
+        activeDays,
+        pnlPerActiveDay: activeDays > 0 ? total / activeDays : 0,
+    };
+}
+
+async function scoreAllTime(wallet: string): Promise<ScoredWallet | null> {
+    const total = await getJson<PortfolioTotalResponse>(`${DLMM_API}/portfolio/total?user=${wallet}`);
+    if (!total) return null;
+    const pnlUsd = num(total.totalPnlUsd);
+    // totalPnlPctChange is already in percent units (verified: pnl/deposits*100),
+    // so all-time deposits are derived rather than summed.
+    const roiPct = num(total.totalPnlPctChange);
+    return {
+        wallet,
+        pnlUsd,
+        pnlSol: num(total.totalPnlSol),
+        positions: total.totalClosedPositions ?? 0,
+        deposits: roiPct !== 0 ? Math.abs(pnlUsd / (roiPct / 100)) : 0,
+        roiPct: roiPct !== 0 ? roiPct : null,
+    };
+}
+
+async function scoreWindow(wallet: string, daysBack: number): Promise<ScoredWallet | null> {
+    let pnlUsd = 0, pnlSol = 0, positions = 0, deposits = 0, poolCount = 0;
+    const closed: ClosedPool[] = [];
+    // Past the page cap only the loaded pools are in the PnL, so the position count the per-position
+    // average divides by is cut down to their share of the window's pools
+    const loadedPositions = () => poolCount > closed.length
+        ? Math.round(positions * closed.length / poolCount)
+        : positions;
+    const result = (): ScoredWallet => ({
+        wallet, pnlUsd, pnlSol, positions, deposits,
+        roiPct: deposits > 0 ? (pnlUsd / deposits) * 100 : null,
+        risk: riskMetrics(closed, loadedPositions()),
+    });
+    for (let page = 1; page <= PORTFOLIO_PAGE_CAP; page++) {
+        const res = await getJson<PortfolioClosedResponse>(
+            `${DLMM_API}/portfolio?user=${wallet}&days_back=${daysBack}&page=${page}&page_size=100`
+        );
+        if (!res) return page === 1 ? null : result();
+        for (const pool of res.pools ?? []) {
+            pnlUsd += num(pool.pnlUsd);
+            pnlSol += num(pool.pnlSol);
+            deposits += num(pool.totalDeposit);
+            closed.push(pool);
+        }
+        positions = res.totalPositions ?? positions;
+        poolCount = res.totalCount ?? poolCount;
+        if (!res.hasNext) break;
+    }
+    return result();
+}
+
+// ---------- Build ----------
+
+// Wallets from earlier scans that discovery missed this time: those ranked in the
+// window's previous snapshot first, then the most recently seen.
+async function rememberedWallets(window: WindowKey, discovered: string[]): Promise<string[]> {
+    const store = getLeaderboardStore();
+    const [known, previous] = await Promise.all([store.knownWallets(), store.latestSnapshot(window)]);
+    const skip = new Set(discovered);
+    const ranked = (previous?.wallets ?? []).map(w => w.wallet).filter(w => !skip.has(w));
+    ranked.forEach(w => skip.add(w));
+    const rest = known
+        .filter(k => !skip.has(k.wallet))
+        .sort((a, b) => b.lastSeen - a.lastSeen)
+        .map(k => k.wallet);
+    return [...ranked, ...rest].slice(0, MAX_KNOWN_WALLETS);
+}
+
+export async function buildPayload(window: WindowKey): Promise<Payload> {
+    const store = getLeaderboardStore();
+    const [{wallets: discovered, poolCount}, protocol] = await Promise.all([
+        discoverWallets(),
+        getJson<ProtocolMetrics>(`${DLMM_API}/stats/protocol_metrics`),
+    ]);
+    const now = Date.now();
+    await store.rememberWallets(discovered, now);
+    // The best discoveries, then remembered wallets, then further discoveries up to the budget
+    const guaranteed = discovered.slice(0, MAX_WALLETS - MAX_KNOWN_WALLETS);
+    const selected = new Set([...guaranteed, ...await rememberedWallets(window, guaranteed)]);
+    for (const wallet of discovered) {
+        if (selected.size >= MAX_WALLETS) break;
+        selected.add(wallet);
+    }
+    const wallets = Array.from(selected);
+
+    const scored = await mapLimit(wallets, SCORE_CONCURRENCY, w =>
+        window === 'all' ? scoreAllTime(w) : scoreWindow(w, DAYS_BACK[window])
+    );
+
+    const previous = await store.latestSnapshot(window);
+    const previousRanks = new Map(previous?.wallets.map((w, i) => [w.wallet, i + 1]) ?? []);
+    const ranked = scored
+        .filter((s): s is ScoredWallet => s !== null && (s.pnlUsd !== 0 || s.pnlSol !== 0))
+        .sort((a, b) => b.pnlUsd - a.pnlUsd)
+        .slice(0, RESULT_LIMIT)
+        .map(s => previous ? {...s, previousRank: previousRanks.get(s.wallet) ?? null} : s);
+
+    const payload: Payload = {
+        window,
+        updatedAt: now,
+        scannedPools: poolCount,
+        scannedWallets: wallets.length,
+        protocol: protocol ?? null,
+        wallets: ranked,
+    };
+    await store.saveSnapshot(payload);
+    return payload;
+}
@@ -0,0 +1,361 @@
+// app/utils/leaderboardStore.ts
+// Persistence for the global leaderboard (server only). Every scan is kept as a dated snapshot per
+// window, and every wallet discovery ever found is remembered, so rank history survives cold starts
+// and wallets that have fully exited their positions stay on the board.
+//
+// The store is an interface; the bundled implementation writes JSON files under
+// LEADERBOARD_DATA_DIR (default .data/leaderboard in the working directory, or the OS temp
+// directory when that is not writable, as on read-only serverless filesystems):
+//   wallets.json                      every discovered wallet with first/last seen times
+//   snapshots/<window>/<updatedAt>.json one Payload per scan
+//   locks/<name>/<generation>.json    the newest generation is the lock, held while a scan runs so
+//                                     instances don't scan twice
+
+import {randomUUID} from 'crypto';
+import {constants as fsConstants, promises as fs} from 'fs';
+import os from 'os';
+import path from 'path';
+
+export type WindowKey = '1d' | '7d' | '30d' | 'all';
+
+export const WINDOW_KEYS: WindowKey[] = ['1d', '7d', '30d', 'all'];
+
+// Derived from the per-pool closed data of /portfolio?days_back=, so only windowed boards have them.
+// The API aggregates a wallet's positions per pool; "pool" figures are over those aggregates.
+export interface RiskMetrics {
+    // Closed pool entries the metrics were computed from
+    pools: number;
+    // Share of pools closed in profit
+    winRatePct: number;
+    avgPnlPerPosition: number;
+    medianPnlPerPool: number;
+    // Most negative pool PnL; 0 when no pool lost money
+    largestLoss: number;
+    // Mean over standard deviation of per-pool % returns (Sharpe-like); null below two pools
+    consistency: number | null;
+    // Distinct UTC days with a position close
+    activeDays: number;
+    pnlPerActiveDay: number;
+}
+
+export interface ScoredWallet {
+    wallet: string;
+    pnlUsd: number;
+    pnlSol: number;
+    positions: number;
+    // Gross capital committed in the window (sum of deposits; churn counts every
+    // re-deposit, so high-frequency LPs show inflated denominators).
+    deposits: number;
+    roiPct: number | null;
+    // Rank in the window's previous snapshot; null when the wallet was not ranked there,
+    // absent when there was no previous snapshot
+    previousRank?: number | null;
+    // Windowed boards only; absent in snapshots taken before the metrics existed
+    risk?: RiskMetrics | null;
+}
+
+export interface ProtocolMetrics {
+    total_tvl: number;
+    volume_24h: number;
+    fee_24h: number;
+    total_pools: number;
+}
+
+export interface Payload {
+    window: WindowKey;
+    updatedAt: number;
+    scannedPools: number;
+    scannedWallets: number;
+    protocol: ProtocolMetrics | null;
+    wallets: ScoredWallet[];
+}
+
+export interface KnownWallet {
+    wallet: string;
+    firstSeen: number;
+    lastSeen: number;
+}
+
+export interface WalletHistoryPoint {
+    updatedAt: number;
+    // 1-based rank by USD PnL; null when the wallet was not ranked in that scan
+    rank: number | null;
+    pnlUsd: number | null;
+    pnlSol: number | null;
+}
+
+export interface WalletHistory {
+    wallet: string;
+    // Oldest scan first; only the windows that were asked for
+    windows: Partial<Record<WindowKey, WalletHistoryPoint[]>>;
+}
+
+export interface LeaderboardStore {
+    saveSnapshot(payload: Payload): Promise<void>;
+    latestSnapshot(window: WindowKey): Promise<Payload | null>;
+    // Newest first
+    listSnapshots(window: WindowKey, limit?: number): Promise<Payload[]>;
+    rememberWallets(wallets: string[], seenAt: number): Promise<void>;
+    knownWallets(): Promise<KnownWallet[]>;
+    // Returns an owner token, or null when the lock is already held; a lock older than ttlMs is
+    // treated as abandoned (its holder crashed or timed out) and taken over.
+    acquireLock(name: string, ttlMs: number): Promise<string | null>;
+    // Only removes the lock while `owner` still holds it, so a holder that outlived its ttl can't
+    // release the lock of the instance that took it over
+    releaseLock(name: string, owner: string): Promise<void>;
+    isLocked(name: string): Promise<boolean>;
+}
+
+// Oldest snapshots beyond this many per window are deleted
+const MAX_SNAPSHOTS_PER_WINDOW = 500;
+// Parsed snapshots kept in memory; a default history read (30 scans of each window) fits with room to spare
+const MAX_CACHED_SNAPSHOTS = 200;
+
+const readJsonFile = async <T, >(file: string): Promise<T | null> => {
+    try {
+        return JSON.parse(await fs.readFile(file, 'utf8')) as T;
+    } catch {
+        return null;
+    }
+};
+
+// Write-then-rename so a crash mid-write never leaves a truncated file behind
+const writeJsonFile = async (file: string, value: unknown): Promise<void> => {
+    await fs.mkdir(path.dirname(file), {recursive: true});
+    const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(value));
+    await fs.rename(tmp, file);
+};
+
+interface LockFile {
+    expiresAt: number;
+    owner: string;
+}
+
+export function createJsonFileStore(dir: string): LeaderboardStore {
+    const walletsFile = path.join(dir, 'wallets.json');
+    const lockDir = (name: string) => path.join(dir, 'locks', name);
+    const snapshotDir = (window: WindowKey) => path.join(dir, 'snapshots', window);
+
+    // Newest first. Every acquisition creates the next generation, so taking over an abandoned lock
+    // never deletes or overwrites a file another instance may be racing for.
+    const lockGenerations = async (name: string): Promise<number[]> => {
+        try {
+            const names = await fs.readdir(lockDir(name));
+            return names
+                .filter(file => /^\d+\.json$/.test(file))
+                .map(file => parseInt(file, 10))
+                .sort((a, b) => b - a);
+        } catch {
+            return [];
+        }
+    };
+
+    const currentLock = async (name: string): Promise<{generation: number; held: LockFile | null} | null> => {
+        const [generation] = await lockGenerations(name);
+        if (generation === undefined) return null;
+        return {generation, held: await readJsonFile<LockFile>(path.join(lockDir(name), `${generation}.json`))};
+    };
+
+    // Snapshot files are never rewritten, so a parsed copy stays valid; least recently used first
+    const snapshotCache = new Map<string, Payload>();
+
+    const readSnapshot = async (window: WindowKey, name: string): Promise<Payload | null> => {
+        const file = path.join(snapshotDir(window), name);
+        const payload = snapshotCache.get(file) ?? await readJsonFile<Payload>(file);
+        if (!payload) return null;
+        snapshotCache.delete(file);
+        snapshotCache.set(file, payload);
+        // Maps iterate in insertion order, so the first key is the least recently used entry
+        if (snapshotCache.size > MAX_CACHED_SNAPSHOTS) snapshotCache.delete(snapshotCache.keys().next().value!);
+        return payload;
+    };
+
+    // Serializes read-modify-write cycles on wallets.json within this process
+    let walletsQueue: Promise<unknown> = Promise.resolve();
+
+    const snapshotFiles = async (window: WindowKey): Promise<string[]> => {
+        try {
+            const names = await fs.readdir(snapshotDir(window));
+            return names
+                .filter(name => /^\d+\.json$/.test(name))
+                .sort((a, b) => parseInt(b, 10) - parseInt(a, 10));
+        } catch {
+            return [];
+        }
+    };
+
+    return {
+        async saveSnapshot(payload) {
+            await writeJsonFile(path.join(snapshotDir(payload.window), `${payload.updatedAt}.json`), payload);
+            const stale = (await snapshotFiles(payload.window)).slice(MAX_SNAPSHOTS_PER_WINDOW);
+            await Promise.all(stale.map(name => {
+                const file = path.join(snapshotDir(payload.window), name);
+                snapshotCache.delete(file);
+                return fs.rm(file, {force: true});
+            }));
+        },
+
+        async latestSnapshot(window) {
+            const [newest] = await snapshotFiles(window);
+            return newest ? readSnapshot(window, newest) : null;
+        },
+
+        async listSnapshots(window, limit = MAX_SNAPSHOTS_PER_WINDOW) {
+            const names = (await snapshotFiles(window)).slice(0, limit);
+            const payloads = await Promise.all(names.map(name => readSnapshot(window, name)));
+            return payloads.filter((p): p is Payload => p !== null);
+        },
+
+        rememberWallets(wallets, seenAt) {
+            const run = walletsQueue.then(async () => {
+                const known = await readJsonFile<Record<string, Omit<KnownWallet, 'wallet'>>>(walletsFile) ?? {};
+                for (const wallet of wallets) {
+                    known[wallet] = {firstSeen: known[wallet]?.firstSeen ?? seenAt, lastSeen: seenAt};
+                }
+                await writeJsonFile(walletsFile, known);
+            });
+            walletsQueue = run.catch(() => undefined);
+            return run;
+        },
+
+        async knownWallets() {
+            const known = await readJsonFile<Record<string, Omit<KnownWallet, 'wallet'>>>(walletsFile) ?? {};
+            return Object.entries(known).map(([wallet, seen]) => ({wallet, ...seen}));
+        },
+
+        async acquireLock(name, ttlMs) {
+            const current = await currentLock(name);
+            if (current?.held && current.held.expiresAt > Date.now()) return null;
+            const generation = (current?.generation ?? 0) + 1;
+            const file = path.join(lockDir(name), `${generation}.json`);
+            const owner = randomUUID();
+            const tmp = `${file}.${owner}.tmp`;
+            const lock: LockFile = {expiresAt: Date.now() + ttlMs, owner};
+            await fs.mkdir(lockDir(name), {recursive: true});
+            await fs.writeFile(tmp, JSON.stringify(lock));
+            try {
+                // link fails when the generation exists, so exactly one contender claims it, and the
+                // file never exists without its contents
+                await fs.link(tmp, file);
+            } catch (err) {
+                if ((err as NodeJS.ErrnoException).code === 'EEXIST') return null;
+                throw err;
+            } finally {
+                await fs.rm(tmp, {force: true});
+            }
+            // Earlier generations belong to released or abandoned holders
+            const older = (await lockGenerations(name)).filter(g => g < generation);
+            await Promise.all(older.map(g => fs.rm(path.join(lockDir(name), `${g}.json`), {force: true})));
+            return owner;
+        },
+
+        async releaseLock(name, owner) {
+            // Expire rather than delete, so the generation count never restarts under a contender
+            // that read the old one
+            for (const generation of await lockGenerations(name)) {
+                const file = path.join(lockDir(name), `${generation}.json`);
+                const held = await readJsonFile<LockFile>(file);
+                if (held?.owner === owner) {
+                    const expired: LockFile = {expiresAt: 0, owner};
+                    await writeJsonFile(file, expired);
+                    return;
+                }
+            }
+        },
+
+        async isLocked(name) {
+            const current = await currentLock(name);
+            return current?.held != null && current.held.expiresAt > Date.now();
+        },
+    };
+}
+
+// Rank and PnL of each wallet across the most recent `limit` scans of each window, in the order
+// asked; every snapshot is read once however many wallets there are
+export async function getWalletHistories(
+    store: LeaderboardStore,
+    wallets: string[],
+    windows: WindowKey[] = WINDOW_KEYS,
+    limit = 30
+): Promise<WalletHistory[]> {
+    const histories: WalletHistory[] = wallets.map(wallet => ({wallet, windows: {}}));
+    await Promise.all(windows.map(async window => {
+        const snapshots = (await store.listSnapshots(window, limit)).reverse();
+        const ranks = snapshots.map(snapshot => new Map(snapshot.wallets.map((w, i) => [w.wallet, i])));
+        histories.forEach(history => {
+            history.windows[window] = snapshots.map((snapshot, s) => {
+                const index = ranks[s].get(history.wallet);
+                const entry = index !== undefined ? snapshot.wallets[index] : null;
+                return {
+                    updatedAt: snapshot.updatedAt,
+                    rank: index !== undefined ? index + 1 : null,
+                    pnlUsd: entry?.pnlUsd ?? null,
+                    pnlSol: entry?.pnlSol ?? null,
+                };
+            });
+        });
+    }));
+    return histories;
+}
+
+export async function getWalletHistory(
+    store: LeaderboardStore,
+    wallet: string,
+    windows: WindowKey[] = WINDOW_KEYS,
+    limit = 30
+): Promise<WalletHistory> {
+    const [history] = await getWalletHistories(store, [wallet], windows, limit);
+    return history;
+}
+
+// The first writable directory of the configured (or default) one and the OS temp directory. Temp
+// storage is per instance and lost on restart, so history there is only as long as the instance lives.
+async function writableDataDir(): Promise<string> {
+    const configured = process.env.LEADERBOARD_DATA_DIR ?? path.join(process.cwd(), '.data', 'leaderboard');
+    const fallback = path.join(os.tmpdir(), 'leaderboard');
+    for (const dir of [configured, fallback]) {
+        try {
+            await fs.mkdir(dir, {recursive: true});
+            await fs.access(dir, fsConstants.W_OK);
+            return dir;
+        } catch (err) {
+            console.warn(`Leaderboard data directory ${dir} is not writable:`, err);
+        }
+    }
+    throw new Error('No writable directory for leaderboard data');
+}
+
+// Resolves the real store on first use, so picking the directory can be async
+function lazyStore(load: () => Promise<LeaderboardStore>): LeaderboardStore {
+    let loading: Promise<LeaderboardStore> | null = null;
+    const store = () => {
+        if (!loading) {
+            loading = load();
+            // Let a later call retry after a failed load
+            loading.catch(() => {
+                loading = null;
+            });
+        }
+        return loading;
+    };
+    return {
+        saveSnapshot: async payload => (await store()).saveSnapshot(payload),
+        latestSnapshot: async window => (await store()).latestSnapshot(window),
+        listSnapshots: async (window, limit) => (await store()).listSnapshots(window, limit),
+        rememberWallets: async (wallets, seenAt) => (await store()).rememberWallets(wallets, seenAt),
+        knownWallets: async () => (await store()).knownWallets(),
+        acquireLock: async (name, ttlMs) => (await store()).acquireLock(name, ttlMs),
+        releaseLock: async (name, owner) => (await store()).releaseLock(name, owner),
+        isLocked: async name => (await store()).isLocked(name),
+    };
+}
+
+let defaultStore: LeaderboardStore | null = null;
+
+export function getLeaderboardStore(): LeaderboardStore {
+    if (!defaultStore) {
+        defaultStore = lazyStore(async () => createJsonFileStore(await writableDataDir()));
+    }
+    return defaultStore;
+}
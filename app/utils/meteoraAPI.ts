@@ -8,7 +8,7 @@ const DLMM_API_BASE = 'https://dlmm.datapi.meteora.ag';
 interface PositionEventRaw {
     signature: string;
     ixIndex: number;
-    eventType: 'add' | 'remove' | 'claim_fee' | 'claim_reward' | string;
+    eventType: 'create' | 'add' | 'remove' | 'claim_fee' | 'claim_reward' | 'close' | string;
     positionAddress: string;
     blockTime: number;
     slot: number;
@@ -48,17 +48,39 @@ export interface MeteoraClaimFee {
     onchain_timestamp: number;
 }
 
+// claim_reward amounts are for the pool's two farming reward slots. The event's tokenX/tokenY are
+// not reliable reward mints; those come from the pair's on-chain rewardInfos.
+export interface MeteoraClaimReward {
+    tx_id: string;
+    position_address: string;
+    pair_address: string;
+    reward_x_amount: Decimal;
+    reward_y_amount: Decimal;
+    reward_x_usd_amount: Decimal;
+    reward_y_usd_amount: Decimal;
+    onchain_timestamp: number;
+}
+
 export interface MeteoraPositionMeta {
     address: string;
     owner: string;
     pair_address: string;
 }
 
+export interface MeteoraLifecycleEvent {
+    tx_id: string;
+    onchain_timestamp: number;
+}
+
 export interface MeteoraPositionData {
     meta: MeteoraPositionMeta | null;
+    // Position account create/close transactions; null when the feed has no such event
+    created: MeteoraLifecycleEvent | null;
+    closed: MeteoraLifecycleEvent | null;
     deposits: MeteoraDeposit[];
     withdrawals: MeteoraWithdraw[];
     claimFees: MeteoraClaimFee[];
+    claimRewards: MeteoraClaimReward[];
 }
 
 type NumLike = number | string | undefined | null;
@@ -66,7 +88,9 @@ const toDec = (v: NumLike) => new Decimal(v ?? 0);
 const ms2s = (ms: number) => Math.floor((ms || 0) / 1000);
 
 export async function fetchPositionData(positionAddress: string): Promise<MeteoraPositionData> {
-    const empty: MeteoraPositionData = {meta: null, deposits: [], withdrawals: [], claimFees: []};
+    const empty: MeteoraPositionData = {
+        meta: null, created: null, closed: null, deposits: [], withdrawals: [], claimFees: [], claimRewards: []
+    };
 
     try {
         const res = await fetch(`${DLMM_API_BASE}/positions/${positionAddress}/historical?order_direction=asc`);
@@ -85,9 +109,17 @@ export async function fetchPositionData(positionAddress: string): Promise<Meteor
         const deposits: MeteoraDeposit[] = [];
         const withdrawals: MeteoraWithdraw[] = [];
         const claimFees: MeteoraClaimFee[] = [];
+        const claimRewards: MeteoraClaimReward[] = [];
+        let created: MeteoraLifecycleEvent | null = null;
+        let closed: MeteoraLifecycleEvent | null = null;
 
         for (const e of events) {
-            if (e.eventType === 'add' || e.eventType === 'remove') {
+            if (e.eventType === 'create' || e.eventType === 'close') {
+                const event = {tx_id: e.signature, onchain_timestamp: ms2s(e.blockTime)};
+                // Ascending order: keep the first create and the last close, in case the address was reused
+                if (e.eventType === 'create') created = created ?? event;
+                else closed = event;
+            } else if (e.eventType === 'add' || e.eventType === 'remove') {
                 const op: MeteoraDeposit = {
                     tx_id: e.signature,
                     position_address: e.positionAddress,
@@ -110,10 +142,21 @@ export async function fetchPositionData(positionAddress: string): Promise<Meteor
                     fee_y_usd_amount: toDec(e.amountYUsd),
                     onchain_timestamp: ms2s(e.blockTime),
                 });
+            } else if (e.eventType === 'claim_reward') {
+                claimRewards.push({
+                    tx_id: e.signature,
+                    position_address: e.positionAddress,
+                    pair_address: e.poolAddress,
+                    reward_x_amount: toDec(e.amountX),
+                    reward_y_amount: toDec(e.amountY),
+                    reward_x_usd_amount: toDec(e.amountXUsd),
+                    reward_y_usd_amount: toDec(e.amountYUsd),
+                    onchain_timestamp: ms2s(e.blockTime),
+                });
             }
         }
 
-        return {meta, deposits, withdrawals, claimFees};
+        return {meta, created, closed, deposits, withdrawals, claimFees, claimRewards};
     } catch (error) {
         console.error(`Error fetching position data for ${positionAddress}:`, error);
         return empty;
@@ -1,5 +1,5 @@
 // app/utils/meteoraDataAPI.ts
-// Typed fetchers for the Meteora data APIs (portfolio, PnL, OHLCV, limit orders, DAMM v2).
+// Typed fetchers for the Meteora data APIs (pools, portfolio, PnL, OHLCV, limit orders, DAMM v2).
 // All numeric aggregate fields arrive as strings; consumers parse as needed.
 
 export const DLMM_DATA_API = 'https://dlmm.datapi.meteora.ag';
@@ -182,6 +182,114 @@ export async function fetchPortfolioClosed(
     };
 }
 
+// ---------- Pools ----------
+
+export interface TimeWindowData {
+    '30m': number;
+    '1h': number;
+    '2h': number;
+    '4h': number;
+    '12h': number;
+    '24h': number;
+}
+
+export type PoolProtocol = 'DLMM' | 'DAMM v2';
+
+export interface MeteoraPool {
+    address: string;
+    name: string;
+    protocol: PoolProtocol;
+    mint_x: string;
+    mint_y: string;
+    token_x_amount: number;
+    token_y_amount: number;
+    bin_step: number;
+    base_fee_percentage: string;
+    max_fee_percentage: string;
+    protocol_fee_percentage: string;
+    liquidity: string;
+    fees_24h: number;
+    trade_volume_24h: number;
+    cumulative_trade_volume: number;
+    cumulative_fee_volume: number;
+    current_price: number;
+    apr: number;
+    apy: number;
+    fees: TimeWindowData;
+    fee_tvl_ratio: TimeWindowData;
+    volume: TimeWindowData;
+    is_verified: boolean;
+}
+
+const EMPTY_WINDOW: TimeWindowData = {'30m': 0, '1h': 0, '2h': 0, '4h': 0, '12h': 0, '24h': 0};
+
+export const PROTOCOL_API_BASE: Record<PoolProtocol, string> = {
+    'DLMM': DLMM_DATA_API,
+    'DAMM v2': DAMM_V2_DATA_API,
+};
+
+// Maps a pool object from the Meteora data APIs (DLMM and DAMM v2 share this shape) to MeteoraPool
+export const mapApiPool = (raw: any, protocol: PoolProtocol): MeteoraPool => ({
+    address: raw.address,
+    name: raw.name,
+    protocol,
+    mint_x: raw.token_x?.address ?? '',
+    mint_y: raw.token_y?.address ?? '',
+    token_x_amount: raw.token_x_amount ?? 0,
+    token_y_amount: raw.token_y_amount ?? 0,
+    bin_step: raw.pool_config?.bin_step ?? 0,
+    base_fee_percentage: String(raw.pool_config?.base_fee_pct ?? 0),
+    max_fee_percentage: String(raw.pool_config?.max_fee_pct ?? 0),
+    protocol_fee_percentage: String(raw.pool_config?.protocol_fee_pct ?? 0),
+    liquidity: String(raw.tvl ?? 0),
+    fees_24h: raw.fees?.['24h'] ?? 0,
+    trade_volume_24h: raw.volume?.['24h'] ?? 0,
+    cumulative_trade_volume: Number(raw.cumulative_metrics?.volume ?? 0),
+    cumulative_fee_volume: Number(raw.cumulative_metrics?.fees ?? 0),
+    current_price: raw.current_price ?? 0,
+    apr: raw.apr ?? 0,
+    apy: raw.apy ?? 0,
+    fees: raw.fees ?? EMPTY_WINDOW,
+    fee_tvl_ratio: raw.fee_tvl_ratio ?? EMPTY_WINDOW,
+    volume: raw.volume ?? EMPTY_WINDOW,
+    is_verified: Boolean(raw.token_x?.is_verified && raw.token_y?.is_verified),
+});
+
+export async function fetchPool(address: string, protocol: PoolProtocol = 'DLMM'): Promise<MeteoraPool | null> {
+    const raw = await getJson<any>(`${PROTOCOL_API_BASE[protocol]}/pools/${address}`);
+    return raw ? mapApiPool(raw, protocol) : null;
+}
+
+// Server-side sort keys accepted by the /pools listing (always descending)
+export type PoolSortKey = 'fee_24h' | 'fee_tvl_ratio_24h' | 'tvl' | 'volume_24h';
+
+export interface PoolsPage {
+    pools: MeteoraPool[];
+    hasMore: boolean;
+}
+
+export async function fetchPoolsPage(
+    protocol: PoolProtocol,
+    sortBy: PoolSortKey,
+    page: number,
+    pageSize: number = 50,
+    minTvl: number = 0
+): Promise<PoolsPage | null> {
+    const params = new URLSearchParams({
+        page: String(page),
+        page_size: String(pageSize),
+        sort_by: `${sortBy}:desc`,
+    });
+    if (minTvl > 0) params.set('filter_by', `tvl>${minTvl}`);
+    const res = await getJson<{ data?: any[]; pages?: number }>(`${PROTOCOL_API_BASE[protocol]}/pools?${params}`);
+    if (!res) return null;
+    const raw = Array.isArray(res.data) ? res.data : [];
+    return {
+        pools: raw.map(p => mapApiPool(p, protocol)),
+        hasMore: raw.length === pageSize && page < (res.pages ?? page + 1),
+    };
+}
+
 // ---------- Position PnL ----------
 
 export interface TokenPairWithTotal {
@@ -244,6 +352,19 @@ export async function fetchPositionsPnl(
 
 export type OhlcvTimeframe = '5m' | '30m' | '1h' | '2h' | '4h' | '12h' | '24h';
 
+export const OHLCV_TIMEFRAME_SECONDS: Record<OhlcvTimeframe, number> = {
+    '5m': 300, '30m': 1800, '1h': 3600, '2h': 7200, '4h': 14400, '12h': 43200, '24h': 86400,
+};
+
+// Candle size that keeps a span of history to a few hundred candles
+export function pickOhlcvTimeframe(spanSeconds: number): OhlcvTimeframe {
+    const days = spanSeconds / 86400;
+    if (days <= 2) return '30m';
+    if (days <= 14) return '2h';
+    if (days <= 60) return '12h';
+    return '24h';
+}
+
 export interface OhlcvCandle {
     timestamp: number;
     timestamp_str: string;
@@ -292,3 +413,57 @@ export interface LimitOrderSummary {
 export function fetchLimitOrderSummary(wallet: string): Promise<LimitOrderSummary | null> {
     return getJson<LimitOrderSummary>(`${DLMM_DATA_API}/wallets/${wallet}/limit_orders/summary`);
 }
+
+export type LimitOrderStatus = 'open' | 'closed';
+
+export interface LimitOrder {
+    order_address: string;
+    pool_address: string;
+    pool_name: string;
+    token_x_symbol: string;
+    token_y_symbol: string;
+    status: LimitOrderStatus;
+    // 'buy' deposits token Y to buy X below the active bin, 'sell' deposits X above it
+    side: 'buy' | 'sell';
+    bin_id: number;
+    price: string;
+    filled_pct: string;
+    deposit_amount: string;
+    deposit_usd: string;
+    bonus_usd: string;
+    claimable_bonus_usd: string;
+    created_at: number;
+    closed_at: number | null;
+}
+
+interface LimitOrdersResponse {
+    data: LimitOrder[];
+    page: number;
+    page_size: number;
+    total: number;
+    has_next: boolean;
+}
+
+export interface LimitOrdersPage {
+    orders: LimitOrder[];
+    total: number;
+    hasNext: boolean;
+}
+
+// Omitting the status returns open and closed orders together, newest first
+export async function fetchLimitOrders(
+    wallet: string,
+    status?: LimitOrderStatus,
+    page: number = 1,
+    pageSize: number = 20
+): Promise<LimitOrdersPage | null> {
+    const params = new URLSearchParams({page: String(page), page_size: String(pageSize)});
+    if (status) params.set('status', status);
+    const res = await getJson<LimitOrdersResponse>(`${DLMM_DATA_API}/wallets/${wallet}/limit_orders?${params}`);
+    if (!res) return null;
+    return {
+        orders: res.data ?? [],
+        total: res.total ?? 0,
+        hasNext: res.has_next ?? false,
+    };
+}
@@ -0,0 +1,38 @@
+// app/utils/momentum.ts
+import {TimeWindowData} from '@/app/utils/meteoraDataAPI';
+
+const MOMENTUM_THRESHOLD_STORAGE_KEY = 'feeMomentumThreshold';
+export const DEFAULT_MOMENTUM_THRESHOLD = 2;
+
+// Number of 30-minute periods in each window
+const HALF_HOURS: Record<keyof TimeWindowData, number> = {'30m': 1, '1h': 2, '2h': 4, '4h': 8, '12h': 24, '24h': 48};
+
+const per30min = (data: TimeWindowData, window: keyof TimeWindowData): number =>
+    (data[window] ?? 0) / HALF_HOURS[window];
+
+// Recent fee rate (mean of the 30m and 1h windows, per 30 minutes) over the 24h baseline rate.
+// 1 means fees are arriving at the daily average pace; null when the pool earned nothing in 24h.
+export function getFeeMomentum(fees: TimeWindowData): number | null {
+    const baseline = per30min(fees, '24h');
+    if (!(baseline > 0)) return null;
+    const recent = (per30min(fees, '30m') + per30min(fees, '1h')) / 2;
+    return recent / baseline;
+}
+
+export function getMomentumThreshold(): number {
+    if (typeof window === 'undefined') return DEFAULT_MOMENTUM_THRESHOLD;
+    try {
+        const value = parseFloat(localStorage.getItem(MOMENTUM_THRESHOLD_STORAGE_KEY) ?? '');
+        return value > 0 ? value : DEFAULT_MOMENTUM_THRESHOLD;
+    } catch {
+        return DEFAULT_MOMENTUM_THRESHOLD;
+    }
+}
+
+export function setMomentumThreshold(value: number): void {
+    try {
+        localStorage.setItem(MOMENTUM_THRESHOLD_STORAGE_KEY, String(value));
+    } catch {
+        // localStorage unavailable (private mode etc.)
+    }
+}
@@ -0,0 +1,49 @@
+// app/utils/pnl.ts
+import Decimal from "decimal.js";
+import {PnlBreakdown, PnlBreakdownTotal, PositionLiquidityData} from "@/app/types";
+
+// Splits a position's PnL against simply holding the deposited tokens:
+//   PnL = fees + rewards + (current + withdrawn - HODL) + (HODL - deposited)
+// Returns null when a current token price is unavailable.
+export function getPnlBreakdown(position: PositionLiquidityData): PnlBreakdown | null {
+    const {tokenXUsdPrice, tokenYUsdPrice} = position;
+    if (!tokenXUsdPrice || !tokenYUsdPrice || tokenXUsdPrice.lte(0) || tokenYUsdPrice.lte(0)) {
+        return null;
+    }
+
+    const feeIncome = position.totalClaimedFees.getTotalUSDValue()
+        .plus(position.totalUnclaimedFees.getTotalUSDValue());
+    const hodlValue = position.totalDeposits.getTotalTokenXBalance().mul(tokenXUsdPrice)
+        .plus(position.totalDeposits.getTotalTokenYBalance().mul(tokenYUsdPrice));
+    const lpValue = position.totalCurrent.getTotalUSDValue()
+        .plus(position.totalWithdrawals.getTotalUSDValue());
+
+    return {
+        feeIncome,
+        rewardIncome: position.totalClaimedRewards.getTotalUSDValue(),
+        impermanentLoss: lpValue.minus(hodlValue),
+        hodlValue,
+        priceChange: hodlValue.minus(position.totalDeposits.getTotalUSDValue()),
+    };
+}
+
+// Positions without a breakdown (no price) are counted in `skipped`, so callers can mark the total as partial
+export function sumPnlBreakdowns(breakdowns: (PnlBreakdown | null)[]): PnlBreakdownTotal | null {
+    const known = breakdowns.filter((b): b is PnlBreakdown => b !== null);
+    if (known.length === 0) return null;
+    return known.reduce<PnlBreakdownTotal>((acc, b) => ({
+        ...acc,
+        feeIncome: acc.feeIncome.plus(b.feeIncome),
+        rewardIncome: acc.rewardIncome.plus(b.rewardIncome),
+        impermanentLoss: acc.impermanentLoss.plus(b.impermanentLoss),
+        hodlValue: acc.hodlValue.plus(b.hodlValue),
+        priceChange: acc.priceChange.plus(b.priceChange),
+    }), {
+        feeIncome: new Decimal(0),
+        rewardIncome: new Decimal(0),
+        impermanentLoss: new Decimal(0),
+        hodlValue: new Decimal(0),
+        priceChange: new Decimal(0),
+        skipped: breakdowns.length - known.length,
+    });
+}
@@ -0,0 +1,189 @@
+// app/utils/portfolioAggregate.ts
+// Merges per-wallet portfolio API results into one view for a group of wallets. Pools held by
+// several wallets collapse into a single row; the API's string amounts are summed as numbers.
+
+import {PortfolioClosedPool, PortfolioOpen} from '@/app/utils/meteoraDataAPI';
+
+export interface AggregatedOpenPool {
+    poolAddress: string;
+    tokenX: string;
+    tokenY: string;
+    tokenXIcon: string;
+    tokenYIcon: string;
+    binStep: number;
+    wallets: string[];
+    positions: string[];
+    positionsOutOfRange: string[];
+    balances: number;
+    balancesSol: number;
+    unclaimedFees: number;
+    unclaimedFeesSol: number;
+    pnl: number;
+    pnlSol: number;
+    totalDeposit: number;
+}
+
+export interface AggregatedClosedPool {
+    poolAddress: string;
+    tokenX: string;
+    tokenY: string;
+    tokenXIcon: string;
+    tokenYIcon: string;
+    binStep: string;
+    wallets: string[];
+    lastClosedAt: number;
+    totalDeposit: number;
+    totalWithdrawal: number;
+    totalFee: number;
+    pnlUsd: number;
+    pnlSol: number;
+}
+
+export interface WalletShare {
+    wallet: string;
+    positions: number;
+    balances: number;
+    balancesSol: number;
+    unclaimedFees: number;
+    unclaimedFeesSol: number;
+    pnl: number;
+    pnlSol: number;
+    // Fraction of the group's open balance, 0..1
+    share: number;
+}
+
+export interface AggregatedTotals {
+    positions: number;
+    pools: number;
+    balances: number;
+    balancesSol: number;
+    unclaimedFees: number;
+    unclaimedFeesSol: number;
+    pnl: number;
+    pnlSol: number;
+}
+
+const num = (v: string | number | null | undefined): number => {
+    const n = typeof v === 'string' ? parseFloat(v) : (v ?? 0);
+    return Number.isFinite(n) ? n : 0;
+};
+
+const addUnique = (list: string[], items: string[]): string[] => Array.from(new Set([...list, ...items]));
+
+export function mergeOpenPools(portfolios: Map<string, PortfolioOpen | null>): AggregatedOpenPool[] {
+    const pools = new Map<string, AggregatedOpenPool>();
+    portfolios.forEach((portfolio, wallet) => {
+        portfolio?.pools.forEach(pool => {
+            const existing = pools.get(pool.poolAddress);
+            if (!existing) {
+                pools.set(pool.poolAddress, {
+                    poolAddress: pool.poolAddress,
+                    tokenX: pool.tokenX,
+                    tokenY: pool.tokenY,
+                    tokenXIcon: pool.tokenXIcon,
+                    tokenYIcon: pool.tokenYIcon,
+                    binStep: pool.binStep,
+                    wallets: [wallet],
+                    positions: addUnique([], pool.listPositions ?? []),
+                    positionsOutOfRange: addUnique([], pool.positionsOutOfRange ?? []),
+                    balances: num(pool.balances),
+                    balancesSol: num(pool.balancesSol),
+                    unclaimedFees: num(pool.unclaimedFees),
+                    unclaimedFeesSol: num(pool.unclaimedFeesSol),
+                    pnl: num(pool.pnl),
+                    pnlSol: num(pool.pnlSol),
+                    totalDeposit: num(pool.totalDeposit),
+                });
+                return;
+            }
+            existing.wallets = addUnique(existing.wallets, [wallet]);
+            existing.positions = addUnique(existing.positions, pool.listPositions ?? []);
+            existing.positionsOutOfRange = addUnique(existing.positionsOutOfRange, pool.positionsOutOfRange ?? []);
+            existing.balances += num(pool.balances);
+            existing.balancesSol += num(pool.balancesSol);
+            existing.unclaimedFees += num(pool.unclaimedFees);
+            existing.unclaimedFeesSol += num(pool.unclaimedFeesSol);
+            existing.pnl += num(pool.pnl);
+            existing.pnlSol += num(pool.pnlSol);
+            existing.totalDeposit += num(pool.totalDeposit);
+        });
+    });
+    return Array.from(pools.values()).sort((a, b) => b.balances - a.balances);
+}
+
+// Closed pool lists per wallet, as returned by fetchAllClosedPools
+export function mergeClosedPools(closedByWallet: Map<string, PortfolioClosedPool[]>): AggregatedClosedPool[] {
+    const pools = new Map<string, AggregatedClosedPool>();
+    closedByWallet.forEach((closed, wallet) => {
+        closed.forEach(pool => {
+            const existing = pools.get(pool.poolAddress);
+            if (!existing) {
+                pools.set(pool.poolAddress, {
+                    poolAddress: pool.poolAddress,
+                    tokenX: pool.tokenX,
+                    tokenY: pool.tokenY,
+                    tokenXIcon: pool.tokenXIcon,
+                    tokenYIcon: pool.tokenYIcon,
+                    binStep: pool.binStep,
+                    wallets: [wallet],
+                    lastClosedAt: pool.lastClosedAt ?? 0,
+                    totalDeposit: num(pool.totalDeposit),
+                    totalWithdrawal: num(pool.totalWithdrawal),
+                    totalFee: num(pool.totalFee),
+                    pnlUsd: num(pool.pnlUsd),
+                    pnlSol: num(pool.pnlSol),
+                });
+                return;
+            }
+            existing.wallets = addUnique(existing.wallets, [wallet]);
+            existing.lastClosedAt = Math.max(existing.lastClosedAt, pool.lastClosedAt ?? 0);
+            existing.totalDeposit += num(pool.totalDeposit);
+            existing.totalWithdrawal += num(pool.totalWithdrawal);
+            existing.totalFee += num(pool.totalFee);
+            existing.pnlUsd += num(pool.pnlUsd);
+            existing.pnlSol += num(pool.pnlSol);
+        });
+    });
+    return Array.from(pools.values()).sort((a, b) => b.lastClosedAt - a.lastClosedAt);
+}
+
+export function walletShares(portfolios: Map<string, PortfolioOpen | null>): WalletShare[] {
+    const rows = Array.from(portfolios.entries()).map(([wallet, portfolio]) => ({
+        wallet,
+        positions: portfolio?.totalPositions ?? 0,
+        balances: num(portfolio?.total?.balances),
+        balancesSol: num(portfolio?.total?.balancesSol),
+        unclaimedFees: num(portfolio?.total?.unclaimedFees),
+        unclaimedFeesSol: num(portfolio?.total?.unclaimedFeesSol),
+        pnl: num(portfolio?.total?.pnl),
+        pnlSol: num(portfolio?.total?.pnlSol),
+        share: 0,
+    }));
+    const total = rows.reduce((sum, r) => sum + r.balances, 0);
+    rows.forEach(r => {
+        r.share = total > 0 ? r.balances / total : 0;
+    });
+    return rows.sort((a, b) => b.balances - a.balances);
+}
+
+export function sumTotals(shares: WalletShare[], pools: AggregatedOpenPool[]): AggregatedTotals {
+    return shares.reduce<AggregatedTotals>((acc, s) => ({
+        ...acc,
+        positions: acc.positions + s.positions,
+        balances: acc.balances + s.balances,
+        balancesSol: acc.balancesSol + s.balancesSol,
+        unclaimedFees: acc.unclaimedFees + s.unclaimedFees,
+        unclaimedFeesSol: acc.unclaimedFeesSol + s.unclaimedFeesSol,
+        pnl: acc.pnl + s.pnl,
+        pnlSol: acc.pnlSol + s.pnlSol,
+    }), {
+        positions: 0,
+        pools: pools.length,
+        balances: 0,
+        balancesSol: 0,
+        unclaimedFees: 0,
+        unclaimedFeesSol: 0,
+        pnl: 0,
+        pnlSol: 0,
+    });
+}
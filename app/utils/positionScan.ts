@@ -0,0 +1,97 @@
+// app/utils/positionScan.ts
+// On-chain enumeration of a DLMM pool's open positions via getProgramAccounts.
+// Shared by the leaderboard route (wallet discovery) and the pool page.
+
+import {PublicKey} from '@solana/web3.js';
+
+export const DLMM_PROGRAM = 'LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo';
+
+// PositionV2 layout (verified against the SDK IDL): 8-byte discriminator,
+// lbPair pubkey at offset 8, owner pubkey at offset 40, then lower_bin_id i32,
+// upper_bin_id i32, last_updated_at i64 and total_claimed_fee_x/y u64s at
+// offsets 7912/7916/7920/7928/7936; account size 8120.
+const POSITION_V2_SIZE = 8120;
+const OWNER_OFFSET = 40;
+const RANGE_OFFSET = 7912;
+
+// Anchor discriminator of the LbPair (pool) account, from the SDK IDL
+const LB_PAIR_DISCRIMINATOR = [33, 11, 49, 98, 181, 101, 177, 13];
+
+// Whether the address holds a DLMM pool account; throws when the RPC call fails
+export async function isDlmmPool(rpcEndpoint: string, address: string): Promise<boolean> {
+    const res = await fetch(rpcEndpoint, {
+        method: 'POST',
+        headers: {'content-type': 'application/json'},
+        body: JSON.stringify({
+            jsonrpc: '2.0', id: 1, method: 'getAccountInfo',
+            params: [address, {encoding: 'base64', dataSlice: {offset: 0, length: 8}}],
+        }),
+    });
+    if (!res.ok) throw new Error(`getAccountInfo failed: HTTP ${res.status}`);
+    const json = await res.json();
+    if (json?.error) throw new Error(`getAccountInfo failed: ${json.error.message ?? JSON.stringify(json.error)}`);
+    const account = json?.result?.value;
+    if (!account || account.owner !== DLMM_PROGRAM) return false;
+    const discriminator = Buffer.from(account.data[0], 'base64');
+    return LB_PAIR_DISCRIMINATOR.every((byte, i) => discriminator[i] === byte);
+}
+
+export interface GpaSlice {
+    pubkey: string;
+    account: { data: [string, string] };
+}
+
+export async function gpaSlice(rpcEndpoint: string, pool: string, offset: number, length: number): Promise<GpaSlice[]> {
+    const res = await fetch(rpcEndpoint, {
+        method: 'POST',
+        headers: {'content-type': 'application/json'},
+        body: JSON.stringify({
+            jsonrpc: '2.0', id: 1, method: 'getProgramAccounts',
+            params: [DLMM_PROGRAM, {
+                encoding: 'base64',
+                filters: [{dataSize: POSITION_V2_SIZE}, {memcmp: {offset: 8, bytes: pool}}],
+                dataSlice: {offset, length},
+            }],
+        }),
+    });
+    if (!res.ok) throw new Error(`getProgramAccounts failed: HTTP ${res.status}`);
+    const json = await res.json();
+    // An RPC error must not read as "no positions"
+    if (json?.error) throw new Error(`getProgramAccounts failed: ${json.error.message ?? JSON.stringify(json.error)}`);
+    return json?.result ?? [];
+}
+
+export interface PoolLpPosition {
+    position: string;
+    owner: string;
+    lowerBinId: number;
+    upperBinId: number;
+    // Unix seconds
+    lastUpdatedAt: number;
+    // Lifetime claimed fees in raw token units
+    claimedFeeX: number;
+    claimedFeeY: number;
+}
+
+export async function scanPoolPositions(rpcEndpoint: string, pool: string): Promise<PoolLpPosition[]> {
+    const [ownerSlices, rangeSlices] = await Promise.all([
+        gpaSlice(rpcEndpoint, pool, OWNER_OFFSET, 32),
+        gpaSlice(rpcEndpoint, pool, RANGE_OFFSET, 32),
+    ]);
+    const ownerByPosition = new Map<string, string>();
+    for (const s of ownerSlices) {
+        ownerByPosition.set(s.pubkey, new PublicKey(Buffer.from(s.account.data[0], 'base64')).toBase58());
+    }
+    return rangeSlices.map(s => {
+        const data = Buffer.from(s.account.data[0], 'base64');
+        return {
+            position: s.pubkey,
+            owner: ownerByPosition.get(s.pubkey) ?? '',
+            lowerBinId: data.readInt32LE(0),
+            upperBinId: data.readInt32LE(4),
+            lastUpdatedAt: Number(data.readBigInt64LE(8)),
+            claimedFeeX: Number(data.readBigUInt64LE(16)),
+            claimedFeeY: Number(data.readBigUInt64LE(24)),
+        };
+    });
+}
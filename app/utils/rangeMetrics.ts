@@ -0,0 +1,95 @@
+// app/utils/rangeMetrics.ts
+import {
+    fetchPoolOhlcv,
+    OHLCV_TIMEFRAME_SECONDS,
+    OhlcvCandle,
+    OhlcvTimeframe,
+    pickOhlcvTimeframe
+} from "@/app/utils/meteoraDataAPI";
+import {getPriceFromBinId} from "@/app/utils/dlmm";
+import {date2BlockTime} from "@/app/utils/solana";
+
+export interface RangeMetrics {
+    // Share of the position's lifetime (0-100) the pool price closed inside its bin range
+    timeInRangePct: number;
+    longestOutOfRangeSeconds: number;
+    candleCount: number;
+}
+
+export interface RangeMetricsInput {
+    poolAddress: string;
+    lowerBinId: number;
+    upperBinId: number;
+    binStep: number;
+    tokenXDecimal: number;
+    tokenYDecimal: number;
+    // Unix seconds; endTime defaults to now for open positions
+    startTime: number;
+    endTime?: number;
+}
+
+export function computeRangeMetrics(
+    candles: OhlcvCandle[],
+    lowerPrice: number,
+    upperPrice: number,
+    candleSeconds: number
+): RangeMetrics | null {
+    if (candles.length === 0) return null;
+
+    let inRange = 0;
+    let streak = 0;
+    let longestStreak = 0;
+    for (const candle of candles) {
+        if (candle.close >= lowerPrice && candle.close <= upperPrice) {
+            inRange++;
+            streak = 0;
+        } else {
+            streak++;
+            longestStreak = Math.max(longestStreak, streak);
+        }
+    }
+
+    return {
+        timeInRangePct: (inRange / candles.length) * 100,
+        longestOutOfRangeSeconds: longestStreak * candleSeconds,
+        candleCount: candles.length,
+    };
+}
+
+// Requests in flight, shared by TimeInRange mounts of the same position that load together (e.g.
+// desktop and mobile layouts). Entries leave once settled, so a later mount fetches fresh candles.
+const ohlcvRequests = new Map<string, Promise<OhlcvCandle[]>>();
+
+const fetchOhlcvOnce = (poolAddress: string, timeframe: OhlcvTimeframe, startTime: number): Promise<OhlcvCandle[]> => {
+    const key = `${poolAddress}:${timeframe}:${startTime}`;
+    let request = ohlcvRequests.get(key);
+    if (!request) {
+        request = fetchPoolOhlcv(poolAddress, timeframe, startTime).finally(() => ohlcvRequests.delete(key));
+        ohlcvRequests.set(key, request);
+    }
+    return request;
+};
+
+// Replays the pool's OHLCV closes over the position's lifetime against the prices of its edge bins
+export async function fetchRangeMetrics(input: RangeMetricsInput): Promise<RangeMetrics | null> {
+    const {poolAddress, lowerBinId, upperBinId, binStep, tokenXDecimal, tokenYDecimal, startTime} = input;
+    if (!binStep || !startTime) return null;
+
+    const endTime = input.endTime ?? date2BlockTime();
+    const timeframe = pickOhlcvTimeframe(endTime - startTime);
+    const candleSeconds = OHLCV_TIMEFRAME_SECONDS[timeframe];
+    // Candles are stamped with their open time; keep the one whose interval contains startTime
+    const candles = (await fetchOhlcvOnce(poolAddress, timeframe, startTime - candleSeconds))
+        .filter(c => c.timestamp + candleSeconds > startTime && c.timestamp <= endTime);
+
+    const lowerPrice = getPriceFromBinId(lowerBinId, binStep, tokenXDecimal, tokenYDecimal).toNumber();
+    const upperPrice = getPriceFromBinId(upperBinId, binStep, tokenXDecimal, tokenYDecimal).toNumber();
+    return computeRangeMetrics(candles, lowerPrice, upperPrice, candleSeconds);
+}
+
+export function formatStreak(seconds: number): string {
+    if (seconds <= 0) return 'none';
+    const hours = seconds / 3600;
+    if (hours < 24) return `${Math.round(hours * 10) / 10}h`;
+    return `${Math.round((hours / 24) * 10) / 10}d`;
+}
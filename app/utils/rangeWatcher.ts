@@ -0,0 +1,121 @@
+// app/utils/rangeWatcher.ts
+// Polls the Meteora portfolio endpoint for tracked wallets and reports range transitions.
+// The last seen status per position is persisted so a reload does not re-alert.
+
+import {fetchPortfolioOpen, fetchPositionsPnl} from '@/app/utils/meteoraDataAPI';
+import {readJson} from '@/app/utils/trackedWallets';
+
+const SETTINGS_STORAGE_KEY = 'rangeWatchSettings';
+const STATE_STORAGE_KEY = 'rangeWatchState';
+
+export interface RangeWatchSettings {
+    enabled: boolean;
+    intervalMinutes: number;
+    // Alert when the active bin is within this many bins of a range edge (0 disables)
+    edgeBins: number;
+}
+
+export const DEFAULT_RANGE_WATCH_SETTINGS: RangeWatchSettings = {enabled: false, intervalMinutes: 5, edgeBins: 3};
+
+export type RangeStatus = 'in' | 'near' | 'out';
+
+export interface RangeAlert {
+    position: string;
+    pool: string;
+    wallet: string;
+    title: string;
+    body: string;
+}
+
+export function getRangeWatchSettings(): RangeWatchSettings {
+    return {...DEFAULT_RANGE_WATCH_SETTINGS, ...readJson<Partial<RangeWatchSettings>>(SETTINGS_STORAGE_KEY, {})};
+}
+
+const writeJson = (key: string, value: unknown): void => {
+    try {
+        localStorage.setItem(key, JSON.stringify(value));
+    } catch {
+        // localStorage unavailable (private mode etc.)
+    }
+};
+
+export function saveRangeWatchSettings(settings: RangeWatchSettings): void {
+    writeJson(SETTINGS_STORAGE_KEY, settings);
+}
+
+const describeTransition = (prev: RangeStatus | undefined, next: RangeStatus, edgeBins: number): string | null => {
+    if (prev === undefined || prev === next) return null;
+    if (next === 'out') return 'left its range';
+    if (prev === 'out') return 'is back in range';
+    if (next === 'near') return `is within ${edgeBins} bins of its range edge`;
+    return null;
+};
+
+// Last seen status per wallet, then per open position
+type RangeWatchState = Record<string, Record<string, RangeStatus>>;
+
+// Null when the wallet's open positions could not be loaded
+async function walletStatuses(wallet: string, edgeBins: number): Promise<Map<string, { pool: string; pair: string; status: RangeStatus }> | null> {
+    const portfolio = await fetchPortfolioOpen(wallet);
+    if (!portfolio) return null;
+    const statuses = new Map<string, { pool: string; pair: string; status: RangeStatus }>();
+
+    await Promise.all(portfolio.pools.map(async pool => {
+        const pair = `${pool.tokenX}-${pool.tokenY}`;
+        const outOfRange = new Set(pool.positionsOutOfRange ?? []);
+        pool.listPositions.forEach(position => {
+            statuses.set(position, {pool: pool.poolAddress, pair, status: outOfRange.has(position) ? 'out' : 'in'});
+        });
+
+        // Edge distance needs bin ranges, which only the per-pool PnL endpoint returns
+        if (edgeBins <= 0 || outOfRange.size === pool.listPositions.length) return;
+        const positions = await fetchPositionsPnl(pool.poolAddress, wallet, 'open');
+        positions.forEach(p => {
+            const entry = statuses.get(p.positionAddress);
+            if (!entry || entry.status === 'out' || p.poolActiveBinId === null) return;
+            const distance = Math.min(p.poolActiveBinId - p.lowerBinId, p.upperBinId - p.poolActiveBinId);
+            if (distance < edgeBins) entry.status = 'near';
+        });
+    }));
+    return statuses;
+}
+
+export async function checkRanges(wallets: string[], edgeBins: number): Promise<RangeAlert[]> {
+    const previous = readJson<Record<string, RangeStatus | Record<string, RangeStatus>>>(STATE_STORAGE_KEY, {});
+    // State saved before it was grouped by wallet maps positions straight to their status
+    const legacy: Record<string, RangeStatus> = {};
+    Object.entries(previous).forEach(([key, value]) => {
+        if (typeof value === 'string') legacy[key] = value;
+    });
+    const next: RangeWatchState = {};
+    const alerts: RangeAlert[] = [];
+
+    for (const wallet of Array.from(new Set(wallets))) {
+        const stored = previous[wallet];
+        const seen = typeof stored === 'object' ? stored : legacy;
+        const statuses = await walletStatuses(wallet, edgeBins);
+        if (!statuses) {
+            // Keep what was last seen, so the next successful poll still compares against it; only a
+            // successful fetch that no longer lists a position drops it
+            next[wallet] = seen;
+            continue;
+        }
+        next[wallet] = {};
+        statuses.forEach(({pool, pair, status}, position) => {
+            next[wallet][position] = status;
+            const transition = describeTransition(seen[position], status, edgeBins);
+            if (transition) {
+                alerts.push({
+                    position,
+                    pool,
+                    wallet,
+                    title: `${pair} position ${transition}`,
+                    body: `Position ${position.slice(0, 4)}…${position.slice(-4)} of wallet ${wallet.slice(0, 4)}…${wallet.slice(-4)}`,
+                });
+            }
+        });
+    }
+
+    writeJson(STATE_STORAGE_KEY, next);
+    return alerts;
+}
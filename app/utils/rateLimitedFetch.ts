@@ -42,6 +42,20 @@ class RateLimiter {
 
 const rateLimiter = new RateLimiter(10);
 
+// Promise.all over items with at most `limit` calls of fn in flight; results keep the input order
+export async function mapLimit<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    const workers = Array.from({length: Math.min(limit, items.length)}, async () => {
+        while (next < items.length) {
+            const i = next++;
+            results[i] = await fn(items[i]);
+        }
+    });
+    await Promise.all(workers);
+    return results;
+}
+
 export async function fetchWithRetry<T>(
     fetchFunc: () => Promise<T>,
     options: {
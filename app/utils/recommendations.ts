@@ -0,0 +1,118 @@
+// app/utils/recommendations.ts
+// Compounding and recentring suggestions for open DLMM positions.
+//
+// Both estimates use the pool's average daily fee yield (fees_24h / TVL) over a fixed horizon. That
+// understates what a well-placed concentrated position earns, so the gains are conservative.
+// Compounding: redepositing unclaimed fees F earns F * yield * horizon, against the cost of a claim
+// and an add-liquidity transaction. Recentring: an out-of-range position earns nothing, so moving it
+// back around the active bin earns value * yield * horizon, against the transaction cost and a swap
+// of half the position at the pool's base fee.
+
+import {PoolData, PositionData} from '@/app/types';
+import {MeteoraPool} from '@/app/utils/meteoraDataAPI';
+
+export const RECOMMENDATION_HORIZON_DAYS = 30;
+
+// Claim fees + add liquidity, priority fees included
+const COMPOUND_COST_SOL = 0.0005;
+// Remove liquidity + close + open + add liquidity; position rent is refunded on close
+const RECENTER_COST_SOL = 0.002;
+// Out-of-range distance, in bins past the nearest range edge, before recentring is suggested
+const RECENTER_MIN_BINS = 5;
+
+export type RecommendationAction = 'compound' | 'recenter';
+
+export interface Recommendation {
+    action: RecommendationAction;
+    pool: string;
+    pair: string;
+    position: string;
+    positionValue: number;
+    // Expected extra fees over the horizon minus the cost of acting now
+    estimatedGain: number;
+    cost: number;
+    // Compounding: 0 when worth it now, otherwise days until unclaimed fees cover the cost
+    daysUntilWorthwhile: number;
+    detail: string;
+}
+
+export interface RecommendationPrices {
+    // USD price per mint; -1 when the lookup failed
+    usd: Map<string, number>;
+    solUsd: number;
+}
+
+const binsOutOfRange = (position: PositionData, activeBin: number): number => {
+    if (activeBin < position.lowerBinId) return position.lowerBinId - activeBin;
+    if (activeBin > position.upperBinId) return activeBin - position.upperBinId;
+    return 0;
+};
+
+export function buildRecommendations(
+    dataMap: Map<string, PoolData>,
+    pools: Map<string, MeteoraPool>,
+    prices: RecommendationPrices
+): Recommendation[] {
+    const recommendations: Recommendation[] = [];
+    if (prices.solUsd <= 0) return recommendations;
+    const compoundCost = COMPOUND_COST_SOL * prices.solUsd;
+    const recenterCost = RECENTER_COST_SOL * prices.solUsd;
+
+    dataMap.forEach((poolData, poolKey) => {
+        const pool = pools.get(poolKey);
+        const priceX = prices.usd.get(poolData.mintX) ?? -1;
+        const priceY = prices.usd.get(poolData.mintY) ?? -1;
+        const tvl = pool ? parseFloat(pool.liquidity) : 0;
+        if (!pool || tvl <= 0 || priceX <= 0 || priceY <= 0) return;
+
+        const dailyYield = pool.fees_24h / tvl;
+        const pair = `${poolData.nameX}-${poolData.nameY}`;
+
+        poolData.lbPairPositionsData.forEach(position => {
+            const value = position.totalXAmount * priceX + position.totalYAmount * priceY;
+            const fees = position.feeX * priceX + position.feeY * priceY;
+            const distance = binsOutOfRange(position, poolData.activeBin);
+            const base = {pool: poolKey, pair, position: position.publicKey, positionValue: value};
+
+            // Fees redeposited into an out-of-range position earn nothing either
+            if (distance === 0 && dailyYield > 0 && fees > 0) {
+                const gain = fees * dailyYield * RECOMMENDATION_HORIZON_DAYS;
+                const breakEvenFees = compoundCost / (dailyYield * RECOMMENDATION_HORIZON_DAYS);
+                const dailyFees = value * dailyYield;
+                const days = fees >= breakEvenFees ? 0 : dailyFees > 0 ? (breakEvenFees - fees) / dailyFees : Infinity;
+                recommendations.push({
+                    ...base,
+                    action: 'compound',
+                    estimatedGain: gain - compoundCost,
+                    cost: compoundCost,
+                    daysUntilWorthwhile: days,
+                    detail: `$${fees.toFixed(2)} unclaimed fees; worth compounding above $${breakEvenFees.toFixed(2)}`,
+                });
+            }
+
+            if (distance >= RECENTER_MIN_BINS && dailyYield > 0 && value > 0) {
+                const swapCost = (value / 2) * parseFloat(pool.base_fee_percentage) / 100;
+                const cost = recenterCost + swapCost;
+                const gain = value * dailyYield * RECOMMENDATION_HORIZON_DAYS - cost;
+                if (gain <= 0) return;
+                recommendations.push({
+                    ...base,
+                    action: 'recenter',
+                    estimatedGain: gain,
+                    cost,
+                    daysUntilWorthwhile: 0,
+                    detail: `${distance} bins out of range; earning no fees`,
+                });
+            }
+        });
+    });
+
+    // Actionable suggestions first, best gain first; the rest by how soon they become worth it
+    return recommendations.sort((a, b) => {
+        const aNow = a.estimatedGain > 0 && a.daysUntilWorthwhile === 0;
+        const bNow = b.estimatedGain > 0 && b.daysUntilWorthwhile === 0;
+        if (aNow !== bNow) return aNow ? -1 : 1;
+        if (aNow) return b.estimatedGain - a.estimatedGain;
+        return a.daysUntilWorthwhile === b.daysUntilWorthwhile ? 0 : a.daysUntilWorthwhile - b.daysUntilWorthwhile;
+    });
+}
@@ -0,0 +1,198 @@
+// app/utils/snapshots.ts
+// Portfolio value history per wallet, kept in IndexedDB. A snapshot of the open portfolio totals is
+// recorded whenever the wallet page loads or refreshes them; a wallet's old entries are pruned by the
+// retention setting (localStorage 'snapshotRetention') when it records a new one. Value, fees and
+// position count include DAMM v2 positions as the portfolio overview does; PnL covers DLMM only there too.
+
+import {DammV2Position} from '@/app/types';
+import {PortfolioOpen} from '@/app/utils/meteoraDataAPI';
+import {readJson} from '@/app/utils/trackedWallets';
+
+const DB_NAME = 'meteora-portfolio';
+const DB_VERSION = 1;
+const STORE = 'snapshots';
+const RETENTION_STORAGE_KEY = 'snapshotRetention';
+
+// One snapshot per wallet per slot of this length: loads and polls within a slot replace its snapshot
+const SNAPSHOT_SLOT_MS = 5 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PortfolioSnapshot {
+    wallet: string;
+    // Unix milliseconds
+    timestamp: number;
+    positions: number;
+    balances: number;
+    balancesSol: number;
+    unclaimedFees: number;
+    unclaimedFeesSol: number;
+    pnl: number;
+    pnlSol: number;
+}
+
+export interface SnapshotRetention {
+    // 0 keeps snapshots forever
+    maxAgeDays: number;
+}
+
+export const DEFAULT_SNAPSHOT_RETENTION: SnapshotRetention = {maxAgeDays: 365};
+
+export const SNAPSHOT_RETENTION_OPTIONS: { days: number; label: string }[] = [
+    {days: 30, label: '30 days'},
+    {days: 90, label: '90 days'},
+    {days: 365, label: '1 year'},
+    {days: 0, label: 'Forever'},
+];
+
+const num = (v: string | number | null | undefined): number => {
+    const n = typeof v === 'string' ? parseFloat(v) : (v ?? 0);
+    return Number.isFinite(n) ? n : 0;
+};
+
+export function getSnapshotRetention(): SnapshotRetention {
+    return {...DEFAULT_SNAPSHOT_RETENTION, ...readJson<Partial<SnapshotRetention>>(RETENTION_STORAGE_KEY, {})};
+}
+
+export function saveSnapshotRetention(retention: SnapshotRetention): void {
+    try {
+        localStorage.setItem(RETENTION_STORAGE_KEY, JSON.stringify(retention));
+    } catch {
+        // localStorage unavailable (private mode etc.)
+    }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB is not available'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                // Keyed by [wallet, timestamp] so one wallet's history is a contiguous key range
+                request.result.createObjectStore(STORE, {keyPath: ['wallet', 'timestamp']});
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Let a later call retry after a failed open
+        dbPromise.catch(() => {
+            dbPromise = null;
+        });
+    }
+    return dbPromise;
+};
+
+const promisify = <T, >(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const withStore = async <T, >(mode: IDBTransactionMode, run: (store: IDBObjectStore) => Promise<T>): Promise<T> => {
+    const db = await openDb();
+    const tx = db.transaction(STORE, mode);
+    const done = new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+    const [result] = await Promise.all([run(tx.objectStore(STORE)), done]);
+    return result;
+};
+
+const walletRange = (wallet: string, from = 0, to = Number.MAX_SAFE_INTEGER): IDBKeyRange =>
+    IDBKeyRange.bound([wallet, from], [wallet, to]);
+
+// The portfolio API covers DLMM only; DAMM v2 positions are added on top, in SOL at solUsd (their SOL
+// share is left out when the price is unknown, as in the overview's "SOL (DLMM only)" figures)
+export function toSnapshot(
+    wallet: string,
+    portfolio: PortfolioOpen,
+    dammV2Positions: DammV2Position[] = [],
+    solUsd = -1,
+    timestamp: number = Date.now()
+): PortfolioSnapshot {
+    const total = portfolio.total;
+    const dammV2Value = dammV2Positions.reduce((sum, p) => sum + p.valueUsd, 0);
+    const dammV2Fees = dammV2Positions.reduce((sum, p) => sum + p.unclaimedFeesUsd, 0);
+    const toSol = (usd: number): number => solUsd > 0 ? usd / solUsd : 0;
+    return {
+        wallet,
+        timestamp,
+        positions: portfolio.totalPositions + dammV2Positions.length,
+        balances: num(total?.balances) + dammV2Value,
+        balancesSol: num(total?.balancesSol) + toSol(dammV2Value),
+        unclaimedFees: num(total?.unclaimedFees) + dammV2Fees,
+        unclaimedFeesSol: num(total?.unclaimedFeesSol) + toSol(dammV2Fees),
+        pnl: num(total?.pnl),
+        pnlSol: num(total?.pnlSol),
+    };
+}
+
+// Snapshots of one wallet, oldest first
+export function getSnapshots(wallet: string): Promise<PortfolioSnapshot[]> {
+    return withStore('readonly', store => promisify(store.getAll(walletRange(wallet)) as IDBRequest<PortfolioSnapshot[]>));
+}
+
+export async function recordSnapshot(
+    wallet: string,
+    portfolio: PortfolioOpen,
+    dammV2Positions: DammV2Position[] = [],
+    solUsd = -1
+): Promise<void> {
+    const snapshot = toSnapshot(wallet, portfolio, dammV2Positions, solUsd);
+    const slotStart = Math.floor(snapshot.timestamp / SNAPSHOT_SLOT_MS) * SNAPSHOT_SLOT_MS;
+    await withStore('readwrite', async store => {
+        // Fixed slots, not a window sliding with each refresh, so steady polling still adds a point per slot
+        store.delete(walletRange(wallet, slotStart, slotStart + SNAPSHOT_SLOT_MS - 1));
+        store.put(snapshot);
+    });
+    await pruneSnapshots(wallet, getSnapshotRetention());
+}
+
+// Drops one wallet's snapshots older than the retention allows
+export async function pruneSnapshots(wallet: string, retention: SnapshotRetention): Promise<void> {
+    if (retention.maxAgeDays <= 0) return;
+    const cutoff = Date.now() - retention.maxAgeDays * DAY_MS;
+    await withStore('readwrite', async store => {
+        store.delete(walletRange(wallet, 0, cutoff - 1));
+    });
+}
+
+export function exportSnapshots(): Promise<PortfolioSnapshot[]> {
+    return withStore('readonly', store => promisify(store.getAll() as IDBRequest<PortfolioSnapshot[]>));
+}
+
+const isSnapshot = (value: unknown): value is PortfolioSnapshot => {
+    if (!value || typeof value !== 'object') return false;
+    const s = value as Record<string, unknown>;
+    return typeof s.wallet === 'string' && typeof s.timestamp === 'number' &&
+        ['positions', 'balances', 'balancesSol', 'unclaimedFees', 'unclaimedFeesSol', 'pnl', 'pnlSol']
+            .every(field => typeof s[field] === 'number');
+};
+
+// Merges an exported history into the store; entries with the same wallet and time are overwritten.
+// Returns the number of snapshots imported.
+export async function importSnapshots(data: unknown): Promise<number> {
+    if (!Array.isArray(data)) {
+        throw new Error('Snapshot file must contain a JSON array');
+    }
+    const snapshots = data.filter(isSnapshot);
+    await withStore('readwrite', async store => {
+        snapshots.forEach(s => store.put({
+            wallet: s.wallet,
+            timestamp: s.timestamp,
+            positions: s.positions,
+            balances: s.balances,
+            balancesSol: s.balancesSol,
+            unclaimedFees: s.unclaimedFees,
+            unclaimedFeesSol: s.unclaimedFeesSol,
+            pnl: s.pnl,
+            pnlSol: s.pnlSol,
+        }));
+    });
+    return snapshots.length;
+}
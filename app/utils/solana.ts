@@ -60,14 +60,15 @@ export const fetchTokenDecimals = createCachedRequestWrapper(_fetchTokenDecimals
 });
 
 
-export async function fetchSignaturesForAddress(address: PublicKey, connection: Connection): Promise<{
+// Newest first. maxPages bounds the history walked (MAX_BATCH_SIZE signatures per page).
+export async function fetchSignaturesForAddress(address: PublicKey, connection: Connection, maxPages = Infinity): Promise<{
     signature: string;
     blockTime: number | null
 }[]> {
     let allSignatures = [];
     let lastSignature: string | undefined;
 
-    while (true) {
+    for (let page = 0; page < maxPages; page++) {
         const signatureInfos = await fetchWithRetry(() =>
             connection.getSignaturesForAddress(address, {limit: config.MAX_BATCH_SIZE, before: lastSignature})
         );
@@ -79,6 +80,7 @@ export async function fetchSignaturesForAddress(address: PublicKey, connection:
             blockTime: info.blockTime ?? null
         })));
 
+        if (signatureInfos.length < config.MAX_BATCH_SIZE) break;
         lastSignature = signatureInfos[signatureInfos.length - 1].signature;
     }
 
@@ -0,0 +1,29 @@
+// app/utils/trackedWallets.ts
+import {WalletGroup} from "@/app/types";
+
+export const readJson = <T, >(key: string, fallback: T): T => {
+    try {
+        const raw = localStorage.getItem(key);
+        return raw ? JSON.parse(raw) as T : fallback;
+    } catch {
+        return fallback;
+    }
+};
+
+// Wallets the user has explored: search history entries (possibly comma-separated) and saved groups.
+export const readTrackedWallets = (): string[] => {
+    const wallets: string[] = [];
+    for (const item of readJson<(string | WalletGroup)[]>('walletHistory', [])) {
+        if (typeof item === 'string') {
+            wallets.push(...item.split(',').map(w => w.trim()));
+        } else if (item && Array.isArray(item.wallets)) {
+            wallets.push(...item.wallets);
+        }
+    }
+    for (const group of readJson<WalletGroup[]>('walletGroups', [])) {
+        if (group && Array.isArray(group.wallets)) {
+            wallets.push(...group.wallets);
+        }
+    }
+    return wallets;
+};
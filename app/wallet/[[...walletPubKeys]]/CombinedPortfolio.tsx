@@ -0,0 +1,275 @@
+// app/wallet/[[...walletPubKeys]]/CombinedPortfolio.tsx
+'use client';
+
+import React, {useEffect, useMemo, useState} from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import {formatDistanceToNow} from 'date-fns';
+import {PortfolioClosedPool, PortfolioOpen} from '@/app/utils/meteoraDataAPI';
+import {fetchAllClosedPools} from '@/app/utils/export';
+import {
+    AggregatedClosedPool,
+    mergeClosedPools,
+    mergeOpenPools,
+    sumTotals,
+    walletShares
+} from '@/app/utils/portfolioAggregate';
+import {formatCurrency, prettifyNumber} from '@/app/utils/numberFormatting';
+import {formatPubKey} from '@/app/utils/formatters';
+import PnlValue from '@/app/components/PnlValue';
+
+interface CombinedPortfolioProps {
+    wallets: string[];
+    portfolios: Map<string, PortfolioOpen | null>;
+}
+
+const CLOSED_DAYS_BACK = 365;
+
+const PoolLabel: React.FC<{ pool: { poolAddress: string; tokenX: string; tokenY: string; tokenXIcon: string; tokenYIcon: string; binStep: number | string } }> = ({pool}) => (
+    <Link href={`/pool/${pool.poolAddress}`} className="flex items-center gap-2 hover:underline whitespace-nowrap">
+        <span className="flex -space-x-1">
+            {pool.tokenXIcon && (
+                <Image src={pool.tokenXIcon} alt={pool.tokenX} width={16} height={16}
+                       className="w-4 h-4 rounded-full" unoptimized/>
+            )}
+            {pool.tokenYIcon && (
+                <Image src={pool.tokenYIcon} alt={pool.tokenY} width={16} height={16}
+                       className="w-4 h-4 rounded-full" unoptimized/>
+            )}
+        </span>
+        <span className="font-medium">{pool.tokenX}-{pool.tokenY}</span>
+        <span className="opacity-50">bin {pool.binStep}</span>
+    </Link>
+);
+
+const WalletList: React.FC<{ wallets: string[] }> = ({wallets}) => (
+    <span title={wallets.join('\n')}>
+        {wallets.length === 1 ? formatPubKey(wallets[0]) : `${wallets.length} wallets`}
+    </span>
+);
+
+const CombinedPortfolio: React.FC<CombinedPortfolioProps> = ({wallets, portfolios}) => {
+    const [closedPools, setClosedPools] = useState<AggregatedClosedPool[] | null>(null);
+    const [closedError, setClosedError] = useState<string | null>(null);
+    const walletsKey = wallets.join(',');
+
+    const openPools = useMemo(() => mergeOpenPools(portfolios), [portfolios]);
+    const shares = useMemo(() => walletShares(portfolios), [portfolios]);
+    const totals = useMemo(() => sumTotals(shares, openPools), [shares, openPools]);
+
+    useEffect(() => {
+        let cancelled = false;
+        setClosedPools(null);
+        setClosedError(null);
+        const list = walletsKey.split(',');
+        Promise.all(list.map(wallet => fetchAllClosedPools(wallet, CLOSED_DAYS_BACK)))
+            .then(results => {
+                if (cancelled) return;
+                const byWallet = new Map<string, PortfolioClosedPool[]>(list.map((wallet, i) => [wallet, results[i]]));
+                setClosedPools(mergeClosedPools(byWallet));
+            })
+            .catch(err => {
+                console.error('Error loading closed pools:', err);
+                if (!cancelled) setClosedError('Failed to load closed positions. Please try again later.');
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [walletsKey]);
+
+    return (
+        <div className="mb-4 space-y-4">
+            {/* Group totals */}
+            <div className="border border-base-300 rounded-lg bg-base-100 p-4">
+                <div className="text-sm font-semibold mb-3">
+                    Combined Portfolio · {wallets.length} wallets
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div>
+                        <div className="text-xs text-base-content/60 mb-1">Open Value</div>
+                        <div className="font-semibold">
+                            {formatCurrency(totals.balances)}
+                            <div className="text-xs opacity-70 font-normal">
+                                {prettifyNumber(totals.balancesSol)} SOL
+                                · {totals.positions} position{totals.positions === 1 ? '' : 's'} in {totals.pools} pool{totals.pools === 1 ? '' : 's'}
+                            </div>
+                        </div>
+                    </div>
+                    <div>
+                        <div className="text-xs text-base-content/60 mb-1">Unclaimed Fees</div>
+                        <div className="font-semibold">
+                            {formatCurrency(totals.unclaimedFees)}
+                            <div className="text-xs opacity-70 font-normal">
+                                {prettifyNumber(totals.unclaimedFeesSol)} SOL
+                            </div>
+                        </div>
+                    </div>
+                    <div>
+                        <div className="text-xs text-base-content/60 mb-1">Open Positions PnL</div>
+                        <PnlValue usd={totals.pnl} sol={totals.pnlSol}/>
+                    </div>
+                    <div>
+                        <div className="text-xs text-base-content/60 mb-1">Closed PnL ({CLOSED_DAYS_BACK}d)</div>
+                        {closedPools ? (
+                            <PnlValue
+                                usd={closedPools.reduce((sum, p) => sum + p.pnlUsd, 0)}
+                                sol={closedPools.reduce((sum, p) => sum + p.pnlSol, 0)}
+                            />
+                        ) : closedError ? (
+                            <span className="text-sm text-error">Unavailable</span>
+                        ) : (
+                            <span className="loading loading-dots loading-xs"></span>
+                        )}
+                    </div>
+                </div>
+            </div>
+
+            {/* Per-wallet share */}
+            <div className="border border-base-300 rounded-lg bg-base-100 p-4">
+                <div className="text-sm font-semibold mb-3">Wallets</div>
+                <div className="overflow-x-auto">
+                    <table className="table table-zebra table-sm w-full text-xs">
+                        <thead>
+                        <tr>
+                            <th>Wallet</th>
+                            <th className="text-right">Positions</th>
+                            <th className="text-right">Open Value</th>
+                            <th>Share</th>
+                            <th className="text-right">Unclaimed Fees</th>
+                            <th className="text-right">PnL</th>
+                        </tr>
+                        </thead>
+                        <tbody>
+                        {shares.map(row => (
+                            <tr key={row.wallet}>
+                                <td>
+                                    <Link href={`/wallet/${row.wallet}`} className="hover:underline font-medium">
+                                        {formatPubKey(row.wallet)}
+                                    </Link>
+                                </td>
+                                <td className="text-right">{row.positions}</td>
+                                <td className="text-right whitespace-nowrap">
+                                    {formatCurrency(row.balances)}
+                                    <div className="opacity-60">{prettifyNumber(row.balancesSol)} SOL</div>
+                                </td>
+                                <td>
+                                    <div className="flex items-center gap-2">
+                                        <progress className="progress progress-primary w-20" value={row.share * 100} max={100}></progress>
+                                        <span>{prettifyNumber(row.share * 100)}%</span>
+                                    </div>
+                                </td>
+                                <td className="text-right whitespace-nowrap">
+                                    {formatCurrency(row.unclaimedFees)}
+                                    <div className="opacity-60">{prettifyNumber(row.unclaimedFeesSol)} SOL</div>
+                                </td>
+                                <td className="text-right whitespace-nowrap">
+                                    <PnlValue usd={row.pnl} sol={row.pnlSol}/>
+                                </td>
+                            </tr>
+                        ))}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            {/* Open pools, one row per pool across all wallets */}
+            <div className="border border-base-300 rounded-lg bg-base-100 p-4">
+                <div className="text-sm font-semibold mb-3">Open Pools</div>
+                {openPools.length === 0 ? (
+                    <div className="text-sm text-base-content/60 italic">No open positions.</div>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="table table-zebra table-sm w-full text-xs">
+                            <thead>
+                            <tr>
+                                <th>Pool</th>
+                                <th>Wallets</th>
+                                <th className="text-right">Positions</th>
+                                <th className="text-right">Value</th>
+                                <th className="text-right">Unclaimed Fees</th>
+                                <th className="text-right">PnL</th>
+                            </tr>
+                            </thead>
+                            <tbody>
+                            {openPools.map(pool => (
+                                <tr key={pool.poolAddress}>
+                                    <td><PoolLabel pool={pool}/></td>
+                                    <td className="whitespace-nowrap"><WalletList wallets={pool.wallets}/></td>
+                                    <td className="text-right whitespace-nowrap">
+                                        {pool.positions.length}
+                                        {pool.positionsOutOfRange.length > 0 && (
+                                            <span className="badge badge-warning badge-xs ml-1"
+                                                  title={`${pool.positionsOutOfRange.length} position(s) out of range`}>
+                                                {pool.positionsOutOfRange.length} out
+                                            </span>
+                                        )}
+                                    </td>
+                                    <td className="text-right whitespace-nowrap">
+                                        {formatCurrency(pool.balances)}
+                                        <div className="opacity-60">{prettifyNumber(pool.balancesSol)} SOL</div>
+                                    </td>
+                                    <td className="text-right whitespace-nowrap">{formatCurrency(pool.unclaimedFees)}</td>
+                                    <td className="text-right whitespace-nowrap">
+                                        <PnlValue usd={pool.pnl} sol={pool.pnlSol}/>
+                                    </td>
+                                </tr>
+                            ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+
+            {/* Closed pools across all wallets */}
+            <div className="border border-base-300 rounded-lg bg-base-100 p-4">
+                <div className="text-sm font-semibold mb-3">Closed Pools (last {CLOSED_DAYS_BACK} days)</div>
+                {closedError ? (
+                    <div className="alert alert-error text-sm">{closedError}</div>
+                ) : closedPools === null ? (
+                    <div className="flex justify-center p-4">
+                        <span className="loading loading-spinner loading-md"></span>
+                    </div>
+                ) : closedPools.length === 0 ? (
+                    <div className="text-sm text-base-content/60 italic">No closed positions.</div>
+                ) : (
+                    <div className="overflow-x-auto max-h-[32rem]">
+                        <table className="table table-zebra table-sm table-pin-rows w-full text-xs">
+                            <thead>
+                            <tr>
+                                <th>Pool</th>
+                                <th>Wallets</th>
+                                <th className="text-right">Deposited</th>
+                                <th className="text-right">Withdrawn</th>
+                                <th className="text-right">Fees Earned</th>
+                                <th className="text-right">PnL</th>
+                                <th className="text-right">Last Closed</th>
+                            </tr>
+                            </thead>
+                            <tbody>
+                            {closedPools.map(pool => (
+                                <tr key={pool.poolAddress}>
+                                    <td><PoolLabel pool={pool}/></td>
+                                    <td className="whitespace-nowrap"><WalletList wallets={pool.wallets}/></td>
+                                    <td className="text-right whitespace-nowrap">{formatCurrency(pool.totalDeposit)}</td>
+                                    <td className="text-right whitespace-nowrap">{formatCurrency(pool.totalWithdrawal)}</td>
+                                    <td className="text-right whitespace-nowrap">{formatCurrency(pool.totalFee)}</td>
+                                    <td className="text-right whitespace-nowrap">
+                                        <PnlValue usd={pool.pnlUsd} sol={pool.pnlSol}/>
+                                    </td>
+                                    <td className="text-right whitespace-nowrap opacity-70">
+                                        {pool.lastClosedAt
+                                            ? formatDistanceToNow(new Date(pool.lastClosedAt * 1000), {addSuffix: true})
+                                            : 'N/A'}
+                                    </td>
+                                </tr>
+                            ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default CombinedPortfolio;
@@ -0,0 +1,250 @@
+// app/wallet/[[...walletPubKeys]]/EquityCurve.tsx
+'use client';
+
+import React, {useEffect, useRef, useState} from 'react';
+import {format} from 'date-fns';
+import {
+    exportSnapshots,
+    getSnapshotRetention,
+    getSnapshots,
+    importSnapshots,
+    PortfolioSnapshot,
+    pruneSnapshots,
+    saveSnapshotRetention,
+    SNAPSHOT_RETENTION_OPTIONS
+} from '@/app/utils/snapshots';
+import {downloadRows} from '@/app/utils/export';
+import {prettifyNumber} from '@/app/utils/numberFormatting';
+import ExportButtons from '@/app/components/ExportButtons';
+
+interface EquityCurveProps {
+    wallet: string;
+    // Changes whenever a new snapshot was recorded for this wallet
+    version: number;
+}
+
+type SeriesKey = 'balances' | 'pnl' | 'unclaimedFees';
+
+const SERIES: { key: SeriesKey; label: string; color: string }[] = [
+    {key: 'balances', label: 'Open Value', color: '#10b981'},
+    {key: 'pnl', label: 'Open PnL', color: '#3b82f6'},
+    {key: 'unclaimedFees', label: 'Unclaimed Fees', color: '#f59e0b'},
+];
+
+const WIDTH = 800;
+const HEIGHT = 200;
+const PAD = {top: 12, right: 16, bottom: 28, left: 64};
+
+const EquityCurve: React.FC<EquityCurveProps> = ({wallet, version}) => {
+    const [snapshots, setSnapshots] = useState<PortfolioSnapshot[] | null>(null);
+    const [hidden, setHidden] = useState<Set<SeriesKey>>(new Set());
+    const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+    const [retentionDays, setRetentionDays] = useState(() => getSnapshotRetention().maxAgeDays);
+    const [reloadKey, setReloadKey] = useState(0);
+    const [message, setMessage] = useState<string | null>(null);
+    const svgRef = useRef<SVGSVGElement>(null);
+    const fileRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        getSnapshots(wallet)
+            .then(data => {
+                if (!cancelled) setSnapshots(data);
+            })
+            .catch(err => {
+                console.error('Error reading portfolio snapshots:', err);
+                if (!cancelled) setSnapshots([]);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [wallet, version, reloadKey]);
+
+    const changeRetention = async (days: number) => {
+        setRetentionDays(days);
+        saveSnapshotRetention({maxAgeDays: days});
+        try {
+            await pruneSnapshots(wallet, {maxAgeDays: days});
+        } catch (err) {
+            console.error('Error pruning portfolio snapshots:', err);
+            setMessage('Could not remove old snapshots; they will be pruned on the next refresh');
+        }
+        setReloadKey(k => k + 1);
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const count = await importSnapshots(JSON.parse(await file.text()));
+            setMessage(`Imported ${count} snapshot${count === 1 ? '' : 's'}`);
+            setReloadKey(k => k + 1);
+        } catch (err) {
+            console.error('Snapshot import failed:', err);
+            setMessage('Import failed: not a snapshot export file');
+        }
+    };
+
+    const toggleSeries = (key: SeriesKey) => {
+        setHidden(prev => {
+            const next = new Set(prev);
+            if (next.has(key)) {
+                next.delete(key);
+            } else {
+                next.add(key);
+            }
+            return next;
+        });
+    };
+
+    const points = snapshots ?? [];
+    const visible = SERIES.filter(s => !hidden.has(s.key));
+    const values = points.flatMap(p => visible.map(s => p[s.key]));
+    const min = Math.min(0, ...values);
+    const max = Math.max(1, ...values);
+    const range = max - min || 1;
+    const start = points[0]?.timestamp ?? 0;
+    const end = points[points.length - 1]?.timestamp ?? 1;
+    const span = end - start || 1;
+
+    const plotW = WIDTH - PAD.left - PAD.right;
+    const plotH = HEIGHT - PAD.top - PAD.bottom;
+    const x = (t: number) => PAD.left + ((t - start) / span) * plotW;
+    const y = (v: number) => PAD.top + plotH - ((v - min) / range) * plotH;
+    const path = (key: SeriesKey) => points
+        .map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.timestamp).toFixed(1)},${y(p[key]).toFixed(1)}`)
+        .join('');
+
+    const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+        const rect = svgRef.current?.getBoundingClientRect();
+        if (!rect || points.length === 0) return;
+        const t = start + ((((e.clientX - rect.left) / rect.width) * WIDTH - PAD.left) / plotW) * span;
+        let nearest = 0;
+        points.forEach((p, i) => {
+            if (Math.abs(p.timestamp - t) < Math.abs(points[nearest].timestamp - t)) nearest = i;
+        });
+        setHoverIndex(nearest);
+    };
+
+    const hover = hoverIndex !== null ? points[hoverIndex] : null;
+
+    return (
+        <div className="border border-base-300 rounded-lg bg-base-100 p-4 mb-4">
+            <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+                <div className="text-sm font-semibold">Portfolio History</div>
+                <div className="flex flex-wrap items-center gap-3">
+                    <label className="flex items-center gap-1 text-xs text-base-content/70">
+                        Keep
+                        <select
+                            className="select select-bordered select-xs"
+                            value={retentionDays}
+                            onChange={e => changeRetention(Number(e.target.value))}
+                        >
+                            {SNAPSHOT_RETENTION_OPTIONS.map(o => (
+                                <option key={o.days} value={o.days}>{o.label}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <ExportButtons
+                        label="History"
+                        onExport={async (format) => {
+                            const all = await exportSnapshots();
+                            downloadRows(all.map(s => ({...s})), 'portfolio-snapshots', format);
+                        }}
+                    />
+                    <button className="btn btn-xs btn-outline" onClick={() => fileRef.current?.click()}>
+                        Import JSON
+                    </button>
+                    <input ref={fileRef} type="file" accept="application/json,.json" className="hidden"
+                           onChange={handleImport}/>
+                </div>
+            </div>
+            {message && <div className="text-xs text-base-content/70 mb-2">{message}</div>}
+
+            {snapshots === null ? (
+                <div className="flex justify-center p-4">
+                    <span className="loading loading-spinner loading-md"></span>
+                </div>
+            ) : points.length < 2 ? (
+                <div className="text-sm text-base-content/60 italic">
+                    Snapshots are recorded each time this page loads or refreshes; the curve appears after the second one.
+                </div>
+            ) : (
+                <>
+                    <div className="flex flex-wrap gap-2 mb-2">
+                        {SERIES.map(s => (
+                            <button
+                                key={s.key}
+                                onClick={() => toggleSeries(s.key)}
+                                className={`btn btn-xs btn-ghost gap-1 ${hidden.has(s.key) ? 'opacity-40' : ''}`}
+                            >
+                                <span className="inline-block w-3 h-0.5" style={{backgroundColor: s.color}}/>
+                                {s.label}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="relative">
+                        <svg
+                            ref={svgRef}
+                            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                            className="w-full h-auto"
+                            onMouseMove={handleMouseMove}
+                            onMouseLeave={() => setHoverIndex(null)}
+                        >
+                            {[0, 0.25, 0.5, 0.75, 1].map(f => (
+                                <g key={f}>
+                                    <line x1={PAD.left} x2={WIDTH - PAD.right} y1={PAD.top + plotH * f} y2={PAD.top + plotH * f}
+                                          stroke="#94a3b8" strokeWidth="0.5" strokeDasharray="2 3" opacity="0.4"/>
+                                    <text x={PAD.left - 6} y={PAD.top + plotH * f + 3} textAnchor="end" fontSize="10"
+                                          fill="currentColor" opacity="0.6">
+                                        ${prettifyNumber(max - range * f)}
+                                    </text>
+                                </g>
+                            ))}
+                            {min < 0 && (
+                                <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(0)} y2={y(0)}
+                                      stroke="currentColor" strokeWidth="0.5" opacity="0.5"/>
+                            )}
+
+                            {visible.map(s => (
+                                <path key={s.key} d={path(s.key)} fill="none" stroke={s.color} strokeWidth="2"
+                                      strokeLinejoin="round"/>
+                            ))}
+
+                            <text x={PAD.left} y={HEIGHT - 6} fontSize="10" fill="currentColor" opacity="0.6">
+                                {format(new Date(start), 'PP')}
+                            </text>
+                            <text x={WIDTH - PAD.right} y={HEIGHT - 6} fontSize="10" textAnchor="end" fill="currentColor"
+                                  opacity="0.6">
+                                {format(new Date(end), 'PP')}
+                            </text>
+
+                            {hover && (
+                                <line x1={x(hover.timestamp)} x2={x(hover.timestamp)} y1={PAD.top} y2={PAD.top + plotH}
+                                      stroke="currentColor" strokeWidth="0.5" opacity="0.5"/>
+                            )}
+                        </svg>
+
+                        {hover && (
+                            <div
+                                className="absolute top-2 pointer-events-none bg-base-200 border border-base-300 rounded-lg p-2 text-xs shadow-md whitespace-nowrap"
+                                style={x(hover.timestamp) > WIDTH / 2
+                                    ? {right: `${(1 - x(hover.timestamp) / WIDTH) * 100 + 1}%`}
+                                    : {left: `${(x(hover.timestamp) / WIDTH) * 100 + 1}%`}}
+                            >
+                                <div className="font-semibold mb-1">{format(new Date(hover.timestamp), 'PPp')}</div>
+                                {SERIES.map(s => (
+                                    <div key={s.key} style={{color: s.color}}>{s.label}: ${prettifyNumber(hover[s.key])}</div>
+                                ))}
+                                <div className="opacity-70">{hover.positions} positions · {prettifyNumber(hover.balancesSol)} SOL</div>
+                            </div>
+                        )}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default EquityCurve;
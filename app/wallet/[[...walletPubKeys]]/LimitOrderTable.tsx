@@ -0,0 +1,175 @@
+// app/wallet/[[...walletPubKeys]]/LimitOrderTable.tsx
+'use client';
+
+import React, {useEffect, useRef, useState} from 'react';
+import Link from 'next/link';
+import {formatDistanceToNow} from 'date-fns';
+import {fetchLimitOrders, LimitOrder, LimitOrderStatus} from '@/app/utils/meteoraDataAPI';
+import {formatCurrency, prettifyNumber} from '@/app/utils/numberFormatting';
+
+interface LimitOrderTableProps {
+    wallet: string;
+}
+
+const PAGE_SIZE = 20;
+
+const STATUS_FILTERS: { key: LimitOrderStatus | 'all'; label: string }[] = [
+    {key: 'all', label: 'All'},
+    {key: 'open', label: 'Open'},
+    {key: 'closed', label: 'Closed'},
+];
+
+const num = (v: string | number | null | undefined): number => {
+    const n = typeof v === 'string' ? parseFloat(v) : (v ?? 0);
+    return Number.isFinite(n) ? n : 0;
+};
+
+const FilledBar: React.FC<{ pct: number }> = ({pct}) => (
+    <div className="flex items-center gap-2 justify-end">
+        <progress className="progress progress-success w-16" value={Math.min(Math.max(pct, 0), 100)} max={100}></progress>
+        <span>{prettifyNumber(pct)}%</span>
+    </div>
+);
+
+const LimitOrderTable: React.FC<LimitOrderTableProps> = ({wallet}) => {
+    const [status, setStatus] = useState<LimitOrderStatus | 'all'>('all');
+    const [orders, setOrders] = useState<LimitOrder[]>([]);
+    const [page, setPage] = useState(1);
+    const [hasMore, setHasMore] = useState(false);
+    const [isLoading, setIsLoading] = useState(false);
+    const [failed, setFailed] = useState(false);
+    // Bumped whenever the list restarts, so a "load more" answer for an older filter is dropped
+    const listId = useRef(0);
+
+    useEffect(() => {
+        let cancelled = false;
+        listId.current++;
+        setOrders([]);
+        setIsLoading(true);
+        setFailed(false);
+        fetchLimitOrders(wallet, status === 'all' ? undefined : status, 1, PAGE_SIZE).then(res => {
+            if (cancelled) return;
+            setOrders(res?.orders ?? []);
+            setHasMore(res?.hasNext ?? false);
+            setFailed(res === null);
+            setPage(1);
+            setIsLoading(false);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [wallet, status]);
+
+    const loadMore = async () => {
+        const id = listId.current;
+        setIsLoading(true);
+        const res = await fetchLimitOrders(wallet, status === 'all' ? undefined : status, page + 1, PAGE_SIZE);
+        if (id !== listId.current) return;
+        if (res) {
+            setOrders(prev => [...prev, ...res.orders]);
+            setHasMore(res.hasNext);
+            setPage(page + 1);
+        }
+        setIsLoading(false);
+    };
+
+    return (
+        <div className="mt-4">
+            <div className="join mb-3">
+                {STATUS_FILTERS.map(filter => (
+                    <button
+                        key={filter.key}
+                        className={`join-item btn btn-xs ${status === filter.key ? 'btn-primary' : 'btn-ghost'}`}
+                        onClick={() => setStatus(filter.key)}
+                    >
+                        {filter.label}
+                    </button>
+                ))}
+            </div>
+
+            {isLoading && orders.length === 0 ? (
+                <div className="flex justify-center p-4">
+                    <span className="loading loading-spinner loading-md"></span>
+                </div>
+            ) : failed ? (
+                <div className="text-sm text-error">Failed to load limit orders.</div>
+            ) : orders.length === 0 ? (
+                <div className="text-sm text-base-content/60 italic">No {status === 'all' ? '' : `${status} `}limit orders.</div>
+            ) : (
+                <>
+                    <div className="overflow-x-auto">
+                        <table className="table table-zebra table-sm w-full text-xs">
+                            <thead>
+                            <tr>
+                                <th>Pool</th>
+                                <th>Side</th>
+                                <th className="text-right">Price</th>
+                                <th className="text-right">Bin</th>
+                                <th className="text-right">Filled</th>
+                                <th className="text-right">Deposit</th>
+                                <th className="text-right">Bonus Earned</th>
+                                <th className="text-right">Claimable Bonus</th>
+                                <th className="text-right">Status</th>
+                            </tr>
+                            </thead>
+                            <tbody>
+                            {orders.map(order => {
+                                const depositSymbol = order.side === 'buy' ? order.token_y_symbol : order.token_x_symbol;
+                                const timestamp = order.closed_at ?? order.created_at;
+                                return (
+                                    <tr key={order.order_address}>
+                                        <td>
+                                            <Link href={`/pool/${order.pool_address}`}
+                                                  className="font-medium hover:underline whitespace-nowrap">
+                                                {order.pool_name || `${order.token_x_symbol}-${order.token_y_symbol}`}
+                                            </Link>
+                                        </td>
+                                        <td>
+                                            <span className={`badge badge-sm ${order.side === 'buy' ? 'badge-success' : 'badge-error'}`}>
+                                                {order.side === 'buy' ? 'Buy' : 'Sell'}
+                                            </span>
+                                        </td>
+                                        <td className="text-right whitespace-nowrap">
+                                            {prettifyNumber(num(order.price))}
+                                            <span className="opacity-50 ml-1">{order.token_y_symbol}</span>
+                                        </td>
+                                        <td className="text-right">{order.bin_id}</td>
+                                        <td className="text-right"><FilledBar pct={num(order.filled_pct)}/></td>
+                                        <td className="text-right whitespace-nowrap">
+                                            {prettifyNumber(num(order.deposit_amount))} {depositSymbol}
+                                            <div className="opacity-60">{formatCurrency(num(order.deposit_usd))}</div>
+                                        </td>
+                                        <td className="text-right whitespace-nowrap">{formatCurrency(num(order.bonus_usd))}</td>
+                                        <td className="text-right whitespace-nowrap">{formatCurrency(num(order.claimable_bonus_usd))}</td>
+                                        <td className="text-right whitespace-nowrap">
+                                            <span className={`badge badge-sm ${order.status === 'open' ? 'badge-info' : 'badge-ghost'}`}>
+                                                {order.status === 'open' ? 'Open' : 'Closed'}
+                                            </span>
+                                            {timestamp > 0 && (
+                                                <div className="opacity-60">
+                                                    {formatDistanceToNow(new Date(timestamp * 1000), {addSuffix: true})}
+                                                </div>
+                                            )}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                            </tbody>
+                        </table>
+                    </div>
+                    {hasMore && (
+                        <div className="flex justify-center mt-3">
+                            <button className="btn btn-sm btn-ghost" onClick={loadMore} disabled={isLoading}>
+                                {isLoading
+                                    ? <span className="loading loading-spinner loading-xs"></span>
+                                    : 'Load more'}
+                            </button>
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+export default LimitOrderTable;
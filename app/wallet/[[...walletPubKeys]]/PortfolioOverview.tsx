@@ -4,6 +4,7 @@
 import React, {useEffect, useState} from 'react';
 import Image from 'next/image';
 import {formatDistanceToNow} from 'date-fns';
+import {NATIVE_MINT} from '@solana/spl-token';
 import {
     fetchLimitOrderSummary,
     fetchPortfolioClosed,
@@ -14,10 +15,17 @@ import {
     PortfolioTotals,
 } from '@/app/utils/meteoraDataAPI';
 import {formatCurrency, prettifyNumber} from '@/app/utils/numberFormatting';
+import {fetchTokenUsdPrice} from '@/app/utils/jup';
+import {buildClosedPoolRows, downloadRows, fetchAllClosedPools} from '@/app/utils/export';
+import ExportButtons from '@/app/components/ExportButtons';
+import PnlValue from '@/app/components/PnlValue';
+import {DammV2Position} from '@/app/types';
+import LimitOrderTable from '@/app/wallet/[[...walletPubKeys]]/LimitOrderTable';
 
 interface PortfolioOverviewProps {
     wallet: string;
     portfolio: PortfolioOpen | null;
+    dammV2Positions: DammV2Position[];
 }
 
 const CLOSED_PAGE_SIZE = 10;
@@ -28,21 +36,7 @@ const num = (v: string | number | null | undefined): number => {
     return Number.isFinite(n) ? n : 0;
 };
 
-const PnlValue: React.FC<{ usd: number; sol?: number }> = ({usd, sol}) => (
-    <div className={`font-semibold ${usd >= 0 ? 'text-success' : 'text-error'}`}
-         title={`${usd >= 0 ? '+' : '-'}$${Math.abs(usd).toFixed(4)} USD`}>
-        {usd >= 0 ? '+' : '-'}{formatCurrency(Math.abs(usd))}
-        <span className="text-[10px] opacity-60 font-normal ml-0.5">USD</span>
-        {sol !== undefined && (
-            <div className="text-xs opacity-70 font-normal"
-                 title="The same PnL measured in SOL: every deposit, withdrawal, and fee is valued in SOL at the time it happened. Shows whether LPing beat simply holding SOL.">
-                {sol >= 0 ? '+' : ''}{prettifyNumber(sol)} SOL
-            </div>
-        )}
-    </div>
-);
-
-const PortfolioOverview: React.FC<PortfolioOverviewProps> = ({wallet, portfolio}) => {
+const PortfolioOverview: React.FC<PortfolioOverviewProps> = ({wallet, portfolio, dammV2Positions}) => {
     const [totals, setTotals] = useState<PortfolioTotals | null>(null);
     const [limitOrders, setLimitOrders] = useState<LimitOrderSummary | null>(null);
     const [closedPools, setClosedPools] = useState<PortfolioClosedPool[]>([]);
@@ -51,6 +45,10 @@ const PortfolioOverview: React.FC<PortfolioOverviewProps> = ({wallet, portfolio}
     const [hasMoreClosed, setHasMoreClosed] = useState(false);
     const [showClosed, setShowClosed] = useState(false);
     const [isLoadingClosed, setIsLoadingClosed] = useState(false);
+    const [showLimitOrders, setShowLimitOrders] = useState(false);
+    // Converts DAMM v2 USD values into the SOL figures; null until loaded, -1 when the lookup failed
+    const [solUsd, setSolUsd] = useState<number | null>(null);
+    const hasDammV2 = dammV2Positions.length > 0;
 
     useEffect(() => {
         let cancelled = false;
@@ -68,6 +66,17 @@ const PortfolioOverview: React.FC<PortfolioOverviewProps> = ({wallet, portfolio}
         };
     }, [wallet]);
 
+    useEffect(() => {
+        if (!hasDammV2) return;
+        let cancelled = false;
+        fetchTokenUsdPrice(NATIVE_MINT).catch(() => -1).then(price => {
+            if (!cancelled) setSolUsd(price);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [hasDammV2]);
+
     const loadClosed = async (page: number) => {
         setIsLoadingClosed(true);
         const res = await fetchPortfolioClosed(wallet, CLOSED_DAYS_BACK, page, CLOSED_PAGE_SIZE);
@@ -89,6 +98,14 @@ const PortfolioOverview: React.FC<PortfolioOverviewProps> = ({wallet, portfolio}
     };
 
     const openTotals = portfolio?.total ?? null;
+    // The portfolio API covers DLMM only; DAMM v2 positions are valued on-chain and added on top
+    const dammV2Value = dammV2Positions.reduce((sum, p) => sum + p.valueUsd, 0);
+    const dammV2Fees = dammV2Positions.reduce((sum, p) => sum + p.unclaimedFeesUsd, 0);
+    const positionCount = (portfolio?.totalPositions ?? 0) + dammV2Positions.length;
+    const solPrice = solUsd ?? -1;
+    const toSol = (usd: number): number => solPrice > 0 ? usd / solPrice : 0;
+    // Without a SOL price the SOL figures cover DLMM only, and say so
+    const solLabel = hasDammV2 && solPrice <= 0 ? 'SOL (DLMM only)' : 'SOL';
     const hasLimitOrders = (limitOrders?.open_orders ?? 0) + (limitOrders?.closed_orders ?? 0) > 0;
 
     return (
@@ -99,20 +116,30 @@ const PortfolioOverview: React.FC<PortfolioOverviewProps> = ({wallet, portfolio}
                     <div>
                         <div className="text-xs text-base-content/60 mb-1">Open Value</div>
                         <div className="font-semibold">
-                            {formatCurrency(num(openTotals?.balances))}
+                            {formatCurrency(num(openTotals?.balances) + dammV2Value)}
                             <div className="text-xs opacity-70 font-normal">
-                                {prettifyNumber(num(openTotals?.balancesSol))} SOL
-                                · {portfolio?.totalPositions ?? 0} position{(portfolio?.totalPositions ?? 0) === 1 ? '' : 's'}
+                                {prettifyNumber(num(openTotals?.balancesSol) + toSol(dammV2Value))} {solLabel}
+                                · {positionCount} position{positionCount === 1 ? '' : 's'}
                             </div>
+                            {hasDammV2 && (
+                                <div className="text-xs opacity-50 font-normal">
+                                    DLMM {formatCurrency(num(openTotals?.balances))} · DAMM v2 {formatCurrency(dammV2Value)}
+                                </div>
+                            )}
                         </div>
                     </div>
                     <div>
                         <div className="text-xs text-base-content/60 mb-1">Unclaimed Fees</div>
                         <div className="font-semibold">
-                            {formatCurrency(num(openTotals?.unclaimedFees))}
+                            {formatCurrency(num(openTotals?.unclaimedFees) + dammV2Fees)}
                             <div className="text-xs opacity-70 font-normal">
-                                {prettifyNumber(num(openTotals?.unclaimedFeesSol))} SOL
+                                {prettifyNumber(num(openTotals?.unclaimedFeesSol) + toSol(dammV2Fees))} {solLabel}
                             </div>
+                            {hasDammV2 && (
+                                <div className="text-xs opacity-50 font-normal">
+                                    DLMM {formatCurrency(num(openTotals?.unclaimedFees))} · DAMM v2 {formatCurrency(dammV2Fees)}
+                                </div>
+                            )}
                         </div>
                     </div>
                     <div>
@@ -147,7 +174,12 @@ const PortfolioOverview: React.FC<PortfolioOverviewProps> = ({wallet, portfolio}
             {/* Limit orders summary */}
             {hasLimitOrders && limitOrders && (
                 <div className="border border-base-300 rounded-lg bg-base-100 p-4 mb-4">
-                    <div className="text-sm font-semibold mb-3">Limit Orders</div>
+                    <div className="flex flex-wrap justify-between items-center gap-2 mb-3">
+                        <div className="text-sm font-semibold">Limit Orders</div>
+                        <button className="btn btn-xs btn-outline" onClick={() => setShowLimitOrders(!showLimitOrders)}>
+                            {showLimitOrders ? 'Hide' : 'Show'} Orders
+                        </button>
+                    </div>
                     <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                         <div>
                             <div className="text-xs text-base-content/60 mb-1">Open / Closed</div>
@@ -168,15 +200,25 @@ const PortfolioOverview: React.FC<PortfolioOverviewProps> = ({wallet, portfolio}
                             <PnlValue usd={num(limitOrders.realized_pnl_usd)} sol={num(limitOrders.realized_pnl_sol)}/>
                         </div>
                     </div>
+                    {showLimitOrders && <LimitOrderTable wallet={wallet}/>}
                 </div>
             )}
 
             {/* Closed positions history */}
             <div className="border border-base-300 rounded-lg bg-base-100 p-4">
-                <button className="btn btn-sm btn-outline" onClick={toggleClosed}>
-                    {showClosed ? 'Hide' : 'Show'} Closed Positions History
-                    {closedCount > 0 && ` (${closedCount.toLocaleString()})`}
-                </button>
+                <div className="flex flex-wrap justify-between items-center gap-2">
+                    <button className="btn btn-sm btn-outline" onClick={toggleClosed}>
+                        {showClosed ? 'Hide' : 'Show'} Closed Positions History
+                        {closedCount > 0 && ` (${closedCount.toLocaleString()})`}
+                    </button>
+                    <ExportButtons
+                        label="Export closed"
+                        onExport={async (format) => {
+                            const pools = await fetchAllClosedPools(wallet, CLOSED_DAYS_BACK);
+                            downloadRows(buildClosedPoolRows(pools), `closed-pools-${wallet}`, format);
+                        }}
+                    />
+                </div>
 
                 {showClosed && (
                     <div className="mt-4">
@@ -0,0 +1,150 @@
+// app/wallet/[[...walletPubKeys]]/Recommendations.tsx
+'use client';
+
+import React, {useEffect, useMemo, useState} from 'react';
+import Link from 'next/link';
+import {PublicKey} from '@solana/web3.js';
+import {NATIVE_MINT} from '@solana/spl-token';
+import {PoolData} from '@/app/types';
+import {fetchPool, MeteoraPool} from '@/app/utils/meteoraDataAPI';
+import {fetchTokenUsdPrice} from '@/app/utils/jup';
+import {
+    buildRecommendations,
+    Recommendation,
+    RECOMMENDATION_HORIZON_DAYS,
+    RecommendationPrices
+} from '@/app/utils/recommendations';
+import {formatCurrency, prettifyNumber} from '@/app/utils/numberFormatting';
+import {formatPubKey} from '@/app/utils/formatters';
+
+interface RecommendationsProps {
+    dataMap: Map<string, PoolData>;
+}
+
+const ACTION_LABELS: Record<Recommendation['action'], { label: string; className: string }> = {
+    compound: {label: 'Compound fees', className: 'badge-success'},
+    recenter: {label: 'Recentre range', className: 'badge-warning'},
+};
+
+const Recommendations: React.FC<RecommendationsProps> = ({dataMap}) => {
+    const [pools, setPools] = useState<Map<string, MeteoraPool> | null>(null);
+    const [prices, setPrices] = useState<RecommendationPrices | null>(null);
+    const [showPending, setShowPending] = useState(false);
+
+    const poolKeys = Array.from(dataMap.keys()).sort().join(',');
+    const mintsKey = Array.from(new Set(Array.from(dataMap.values()).flatMap(p => [p.mintX, p.mintY]))).sort().join(',');
+
+    useEffect(() => {
+        let cancelled = false;
+        const keys = poolKeys.split(',').filter(Boolean);
+        Promise.all(keys.map(key => fetchPool(key))).then(results => {
+            if (cancelled) return;
+            const map = new Map<string, MeteoraPool>();
+            results.forEach((pool, i) => {
+                if (pool) map.set(keys[i], pool);
+            });
+            setPools(map);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [poolKeys]);
+
+    useEffect(() => {
+        let cancelled = false;
+        const mints = mintsKey.split(',').filter(Boolean);
+        const price = (mint: string) => fetchTokenUsdPrice(new PublicKey(mint)).catch(() => -1);
+        Promise.all([price(NATIVE_MINT.toString()), ...mints.map(price)]).then(([solUsd, ...results]) => {
+            if (!cancelled) setPrices({solUsd, usd: new Map(mints.map((mint, i) => [mint, results[i]]))});
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [mintsKey]);
+
+    const recommendations = useMemo(
+        () => pools && prices ? buildRecommendations(dataMap, pools, prices) : null,
+        [dataMap, pools, prices]
+    );
+
+    if (!recommendations) {
+        return (
+            <div className="border border-base-300 rounded-lg bg-base-100 p-4 mb-4 flex justify-center">
+                <span className="loading loading-spinner loading-md"></span>
+            </div>
+        );
+    }
+
+    const actionable = recommendations.filter(r => r.daysUntilWorthwhile === 0 && r.estimatedGain > 0);
+    const pending = recommendations.filter(r => !actionable.includes(r));
+
+    const renderRow = (r: Recommendation, rank: number | null) => (
+        <tr key={`${r.action}-${r.position}`}>
+            <td className="opacity-60">{rank ?? ''}</td>
+            <td>
+                <span className={`badge badge-sm whitespace-nowrap ${ACTION_LABELS[r.action].className}`}>
+                    {ACTION_LABELS[r.action].label}
+                </span>
+            </td>
+            <td className="whitespace-nowrap">
+                <Link href={`/position/${r.position}`} className="font-medium hover:underline">{r.pair}</Link>
+                <div className="opacity-60">{formatPubKey(r.position)} · {formatCurrency(r.positionValue)}</div>
+            </td>
+            <td>{r.detail}</td>
+            <td className="text-right whitespace-nowrap">{formatCurrency(r.cost)}</td>
+            <td className="text-right whitespace-nowrap">
+                {rank !== null ? (
+                    <span className="font-semibold text-success">+{formatCurrency(r.estimatedGain)}</span>
+                ) : Number.isFinite(r.daysUntilWorthwhile) ? (
+                    <span className="opacity-70">in ~{prettifyNumber(Math.ceil(r.daysUntilWorthwhile))}d</span>
+                ) : (
+                    <span className="opacity-70">N/A</span>
+                )}
+            </td>
+        </tr>
+    );
+
+    return (
+        <div className="border border-base-300 rounded-lg bg-base-100 p-4 mb-4">
+            <div className="flex flex-wrap justify-between items-center gap-2 mb-3">
+                <div className="text-sm font-semibold">Suggestions</div>
+                {pending.length > 0 && (
+                    <button className="btn btn-xs btn-ghost" onClick={() => setShowPending(!showPending)}>
+                        {showPending ? 'Hide' : 'Show'} {pending.length} not yet worth it
+                    </button>
+                )}
+            </div>
+            {actionable.length === 0 && !showPending ? (
+                <div className="text-sm text-base-content/60 italic">
+                    Nothing to do right now: no position has enough unclaimed fees to be worth compounding, and none
+                    is far out of range.
+                </div>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="table table-sm w-full text-xs">
+                        <thead>
+                        <tr>
+                            <th>#</th>
+                            <th>Action</th>
+                            <th>Position</th>
+                            <th>Why</th>
+                            <th className="text-right">Est. Cost</th>
+                            <th className="text-right">Est. Gain ({RECOMMENDATION_HORIZON_DAYS}d)</th>
+                        </tr>
+                        </thead>
+                        <tbody>
+                        {actionable.map((r, i) => renderRow(r, i + 1))}
+                        {showPending && pending.map(r => renderRow(r, null))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+            <div className="text-xs opacity-50 mt-2">
+                Gains assume the pool&apos;s average fee yield of the last 24h over {RECOMMENDATION_HORIZON_DAYS} days, net
+                of transaction fees and, for recentring, a swap of half the position at the pool&apos;s base fee.
+            </div>
+        </div>
+    );
+};
+
+export default Recommendations;
@@ -1,18 +1,22 @@
 // app/wallet/[[...walletPubKeys]]/TableComponent.tsx
 'use client';
 
-import React, {useEffect, useState} from 'react';
+import React, {useEffect, useRef, useState} from 'react';
 import RangeIndicator from "./RangeIndicator";
+import BinLiquidityHistogram from "@/app/components/BinLiquidityHistogram";
 import Image from 'next/image';
 import {formatDistanceToNow} from 'date-fns';
-import {PoolData, PoolInfo, PositionData} from "@/app/types";
+import {DammV2Position, PoolData, PoolInfo, PositionData} from "@/app/types";
 import {formatCurrency, prettifyNumber} from "@/app/utils/numberFormatting";
 import {calculateLiquidityDistribution} from "@/app/utils/liquidity";
-import {PortfolioOpenPool} from "@/app/utils/meteoraDataAPI";
+import {fetchPositionsPnl, PortfolioOpenPool} from "@/app/utils/meteoraDataAPI";
 import PriceSparkline from "@/app/components/PriceSparkline";
+import TimeInRange from "@/app/components/TimeInRange";
 
 interface TableComponentProps {
+    wallet: string;
     dataMap: Map<string, PoolData>;
+    dammV2Positions?: DammV2Position[];
     selectedPositions: Set<string>;
     onSelectionChange: (positions: Set<string>) => void;
     portfolioPools?: Map<string, PortfolioOpenPool>;
@@ -37,64 +41,24 @@ interface TokenGroup {
     }[];
 }
 
-const TableComponent: React.FC<TableComponentProps> = ({ dataMap, selectedPositions, onSelectionChange, portfolioPools }) => {
+const TableComponent: React.FC<TableComponentProps> = ({ wallet, dataMap, dammV2Positions = [], selectedPositions, onSelectionChange, portfolioPools }) => {
     const [poolInfoMap, setPoolInfoMap] = useState<Map<string, PoolInfo>>(new Map());
     const [positionsWithDates, setPositionsWithDates] = useState<Map<string, PositionData[]>>(new Map());
     const [groupedPools, setGroupedPools] = useState<TokenGroup[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [localSelectedPositions, setLocalSelectedPositions] = useState<Set<string>>(new Set());
+    // Position address -> creation time (unix seconds), the start of its time-in-range window
+    const [createdAtMap, setCreatedAtMap] = useState<Map<string, number>>(new Map());
+    const [expandedBins, setExpandedBins] = useState<Set<string>>(new Set());
+    const dataMapRef = useRef(dataMap);
+    dataMapRef.current = dataMap;
+    const poolKeys = Array.from(dataMap.keys()).join(',');
 
     useEffect(() => {
         setLocalSelectedPositions(new Set(selectedPositions));
     }, [selectedPositions]);
 
     useEffect(() => {
-        const fetchPoolInfo = async (pubkey: string, xDecimals: number, yDecimals: number): Promise<PoolInfo | null> => {
-            try {
-                const response = await fetch(`https://dlmm.datapi.meteora.ag/pools/${pubkey}`);
-                if (!response.ok) {
-                    throw new Error(`HTTP error! status: ${response.status}`);
-                }
-                const data = await response.json();
-                return {
-                    name: data.name,
-                    current_price: data.current_price ?? 0,
-                    liquidity: String(data.tvl ?? 0),
-                    fees_24h: data.fees?.['24h'] ?? 0,
-                    apr: data.apr ?? 0,
-                    apy: data.apy ?? 0,
-                    bin_step: data.pool_config?.bin_step ?? 0,
-                    base_fee_percentage: String(data.pool_config?.base_fee_pct ?? 0),
-                    max_fee_percentage: String(data.pool_config?.max_fee_pct ?? 0),
-                    protocol_fee_percentage: String(data.pool_config?.protocol_fee_pct ?? 0),
-                    trade_volume_24h: data.volume?.['24h'] ?? 0,
-                    cumulative_trade_volume: String(data.cumulative_metrics?.volume ?? 0),
-                    cumulative_fee_volume: String(data.cumulative_metrics?.fees ?? 0),
-                    tokenXDecimal: xDecimals,
-                    tokenYDecimal: yDecimals,
-                    liquidityDistribution: calculateLiquidityDistribution(
-                        data.token_x_amount,
-                        data.token_y_amount,
-                        data.current_price
-                    ),
-                };
-            } catch (error) {
-                console.error(`Error fetching pool info for ${pubkey}:`, error);
-                return null;
-            }
-        };
-
-        const fetchAllPoolInfo = async () => {
-            const infoMap = new Map<string, PoolInfo>();
-            for (const [key, value] of Array.from(dataMap.entries())) {
-                const info = await fetchPoolInfo(key, value.tokenXDecimal, value.tokenYDecimal);
-                if (info) {
-                    infoMap.set(key, info);
-                }
-            }
-            setPoolInfoMap(infoMap);
-        };
-
         const fetchPositionDates = async () => {
             const newPositionsWithDates = new Map<string, PositionData[]>();
             const tokenGroups = new Map<string, TokenGroup>();
@@ -141,16 +105,135 @@ const TableComponent: React.FC<TableComponentProps> = ({ dataMap, selectedPositi
             setGroupedPools(sortedTokenGroups);
         };
 
+        fetchPositionDates().catch(error => {
+            console.error("Unexpected error in fetchPositionDates:", error);
+        });
+    }, [dataMap]);
+
+    // Pool stats and creation dates only change with the set of pools, not with live position updates
+    useEffect(() => {
+        const fetchPoolInfo = async (pubkey: string, xDecimals: number, yDecimals: number): Promise<PoolInfo | null> => {
+            try {
+                const response = await fetch(`https://dlmm.datapi.meteora.ag/pools/${pubkey}`);
+                if (!response.ok) {
+                    throw new Error(`HTTP error! status: ${response.status}`);
+                }
+                const data = await response.json();
+                return {
+                    name: data.name,
+                    current_price: data.current_price ?? 0,
+                    liquidity: String(data.tvl ?? 0),
+                    fees_24h: data.fees?.['24h'] ?? 0,
+                    apr: data.apr ?? 0,
+                    apy: data.apy ?? 0,
+                    bin_step: data.pool_config?.bin_step ?? 0,
+                    base_fee_percentage: String(data.pool_config?.base_fee_pct ?? 0),
+                    max_fee_percentage: String(data.pool_config?.max_fee_pct ?? 0),
+                    protocol_fee_percentage: String(data.pool_config?.protocol_fee_pct ?? 0),
+                    trade_volume_24h: data.volume?.['24h'] ?? 0,
+                    cumulative_trade_volume: String(data.cumulative_metrics?.volume ?? 0),
+                    cumulative_fee_volume: String(data.cumulative_metrics?.fees ?? 0),
+                    tokenXDecimal: xDecimals,
+                    tokenYDecimal: yDecimals,
+                    liquidityDistribution: calculateLiquidityDistribution(
+                        data.token_x_amount,
+                        data.token_y_amount,
+                        data.current_price
+                    ),
+                };
+            } catch (error) {
+                console.error(`Error fetching pool info for ${pubkey}:`, error);
+                return null;
+            }
+        };
+
+        const fetchAllPoolInfo = async () => {
+            const infoMap = new Map<string, PoolInfo>();
+            for (const [key, value] of Array.from(dataMapRef.current.entries())) {
+                const info = await fetchPoolInfo(key, value.tokenXDecimal, value.tokenYDecimal);
+                if (info) {
+                    infoMap.set(key, info);
+                }
+            }
+            setPoolInfoMap(infoMap);
+        };
+
         const loadData = async () => {
             setIsLoading(true);
-            await Promise.all([fetchAllPoolInfo(), fetchPositionDates()]);
+            await fetchAllPoolInfo();
             setIsLoading(false);
         };
 
         loadData().catch(error => {
             console.error("Unexpected error in loadData:", error);
         });
-    }, [dataMap]);
+    }, [poolKeys]);
+
+    useEffect(() => {
+        let cancelled = false;
+        Promise.all(poolKeys.split(',').filter(Boolean).map(pool => fetchPositionsPnl(pool, wallet, 'open')))
+            .then(results => {
+                if (cancelled) return;
+                const map = new Map<string, number>();
+                results.flat().forEach(p => {
+                    if (p.createdAt) map.set(p.positionAddress, p.createdAt);
+                });
+                setCreatedAtMap(map);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [poolKeys, wallet]);
+
+    const renderTimeInRange = (poolAddress: string, position: PositionData, poolInfo: PoolInfo | undefined, compact: boolean) => {
+        const createdAt = createdAtMap.get(position.publicKey.toString());
+        if (!createdAt || !poolInfo?.bin_step) return 'N/A';
+        return (
+            <TimeInRange
+                poolAddress={poolAddress}
+                lowerBinId={position.lowerBinId}
+                upperBinId={position.upperBinId}
+                binStep={poolInfo.bin_step}
+                tokenXDecimal={poolInfo.tokenXDecimal}
+                tokenYDecimal={poolInfo.tokenYDecimal}
+                startTime={createdAt}
+                compact={compact}
+            />
+        );
+    };
+
+    const toggleBins = (e: React.MouseEvent, positionKey: string) => {
+        e.stopPropagation();
+        setExpandedBins(prev => {
+            const next = new Set(prev);
+            if (next.has(positionKey)) {
+                next.delete(positionKey);
+            } else {
+                next.add(positionKey);
+            }
+            return next;
+        });
+    };
+
+    const renderBinsToggle = (positionKey: string) => (
+        <button className="btn btn-ghost btn-xs" onClick={(e) => toggleBins(e, positionKey)}>
+            {expandedBins.has(positionKey) ? 'Hide bins ▴' : 'Show bins ▾'}
+        </button>
+    );
+
+    const renderBins = (position: PositionData, value: PoolData, poolInfo: PoolInfo | undefined) => (
+        <div className="p-2 bg-base-200 rounded" onClick={(e) => e.stopPropagation()}>
+            <BinLiquidityHistogram
+                bins={position.bins}
+                activeBin={value.activeBin}
+                binStep={poolInfo?.bin_step || 0}
+                mintXDigits={value.tokenXDecimal}
+                mintYDigits={value.tokenYDecimal}
+                nameX={value.nameX}
+                nameY={value.nameY}
+            />
+        </div>
+    );
 
     const togglePositionSelection = (positionKey: string) => {
         const newSelection = new Set(selectedPositions);
@@ -251,6 +334,7 @@ const TableComponent: React.FC<TableComponentProps> = ({ dataMap, selectedPositi
                                                                     className="text-sm font-semibold text-gray-700 group-hover:text-blue-600 transition-colors duration-300">
                                                             {poolInfo?.name || key}
                                                         </span>
+                                                                <span className="badge badge-ghost badge-xs">DLMM</span>
                                                             </a>
                                                             <div className="flex items-center gap-3">
                                                                 <PriceSparkline poolAddress={key}/>
@@ -341,7 +425,7 @@ const TableComponent: React.FC<TableComponentProps> = ({ dataMap, selectedPositi
                                                             <table className="table table-compact w-full text-xs">
                                                                 <thead>
                                                                 <tr className="border-b">
-                                                                    {['LAST UPDATED', 'TOKENS', 'LIQUIDITY', 'UNCLAIMED FEES', 'CLAIMED FEES', 'RANGE'].map((header, index) => (
+                                                                    {['LAST UPDATED', 'TOKENS', 'LIQUIDITY', 'UNCLAIMED FEES', 'CLAIMED FEES', 'RANGE', 'IN RANGE'].map((header, index) => (
                                                                         <th key={index}
                                                                             className="text-left px-2 py-3 border-r last:border-r-0 whitespace-nowrap">
                                                                             {header}
@@ -351,54 +435,66 @@ const TableComponent: React.FC<TableComponentProps> = ({ dataMap, selectedPositi
                                                                 </thead>
                                                                 <tbody>
                                                                 {positions.map((position, index) => (
-                                                                    <tr
-                                                                        key={`${key}-${index}`}
-                                                                        className={`border-b last:border-b-0 cursor-pointer transition-colors duration-200
-                                                                        ${selectedPositions.has(position.publicKey.toString())
-                                                                            ? 'bg-light-green'
-                                                                            : 'hover-light-green'
-                                                                        }`}
-                                                                        onClick={() => togglePositionSelection(position.publicKey.toString())}
-                                                                    >
-                                                                        <td className="px-2 py-2 border-r whitespace-nowrap">
-                                                                            {formatDistanceToNow(position.lastUpdatedAt, {
-                                                                                addSuffix: true,
-                                                                                includeSeconds: true
-                                                                            })}
-                                                                        </td>
-                                                                        <td className="px-2 py-2 border-r whitespace-nowrap">
-                                                                            <div>{value.nameX}</div>
-                                                                            <div>{value.nameY}</div>
-                                                                        </td>
-                                                                        <td className="text-right px-2 py-2 border-r whitespace-nowrap">
-                                                                            <div>{prettifyNumber(position.totalXAmount)}</div>
-                                                                            <div>{prettifyNumber(position.totalYAmount)}</div>
-                                                                        </td>
-                                                                        <td className="text-right px-2 py-2 border-r whitespace-nowrap">
-                                                                            <div>{prettifyNumber(position.feeX)}</div>
-                                                                            <div>{prettifyNumber(position.feeY)}</div>
-                                                                        </td>
-                                                                        <td className="text-right px-2 py-2 border-r whitespace-nowrap">
-                                                                            <div>{prettifyNumber(position.claimedFeeX || 0)}</div>
-                                                                            <div>{prettifyNumber(position.claimedFeeY || 0)}</div>
-                                                                        </td>
-                                                                        <td className="px-2 py-2 border-r">
-                                                                            {position.lowerBinId !== undefined && position.upperBinId !== undefined && value.activeBin !== undefined ? (
-                                                                                <div
-                                                                                    className={`range-indicator-${position.lowerBinId}-${position.upperBinId} w-24`}>
-                                                                                    <RangeIndicator
-                                                                                        position={position}
-                                                                                        activeBin={value.activeBin}
-                                                                                        binStep={poolInfo?.bin_step || 0}
-                                                                                        mintXDigits={poolInfo?.tokenXDecimal || 0}
-                                                                                        mintYDigits={poolInfo?.tokenYDecimal || 0}
-                                                                                    />
-                                                                                </div>
-                                                                            ) : (
-                                                                                'N/A'
-                                                                            )}
-                                                                        </td>
-                                                                    </tr>
+                                                                    <React.Fragment key={`${key}-${index}`}>
+                                                                        <tr
+                                                                            className={`border-b last:border-b-0 cursor-pointer transition-colors duration-200
+                                                                            ${selectedPositions.has(position.publicKey.toString())
+                                                                                ? 'bg-light-green'
+                                                                                : 'hover-light-green'
+                                                                            }`}
+                                                                            onClick={() => togglePositionSelection(position.publicKey.toString())}
+                                                                        >
+                                                                            <td className="px-2 py-2 border-r whitespace-nowrap">
+                                                                                {formatDistanceToNow(position.lastUpdatedAt, {
+                                                                                    addSuffix: true,
+                                                                                    includeSeconds: true
+                                                                                })}
+                                                                            </td>
+                                                                            <td className="px-2 py-2 border-r whitespace-nowrap">
+                                                                                <div>{value.nameX}</div>
+                                                                                <div>{value.nameY}</div>
+                                                                            </td>
+                                                                            <td className="text-right px-2 py-2 border-r whitespace-nowrap">
+                                                                                <div>{prettifyNumber(position.totalXAmount)}</div>
+                                                                                <div>{prettifyNumber(position.totalYAmount)}</div>
+                                                                            </td>
+                                                                            <td className="text-right px-2 py-2 border-r whitespace-nowrap">
+                                                                                <div>{prettifyNumber(position.feeX)}</div>
+                                                                                <div>{prettifyNumber(position.feeY)}</div>
+                                                                            </td>
+                                                                            <td className="text-right px-2 py-2 border-r whitespace-nowrap">
+                                                                                <div>{prettifyNumber(position.claimedFeeX || 0)}</div>
+                                                                                <div>{prettifyNumber(position.claimedFeeY || 0)}</div>
+                                                                            </td>
+                                                                            <td className="px-2 py-2 border-r">
+                                                                                {position.lowerBinId !== undefined && position.upperBinId !== undefined && value.activeBin !== undefined ? (
+                                                                                    <div
+                                                                                        className={`range-indicator-${position.lowerBinId}-${position.upperBinId} w-24`}>
+                                                                                        <RangeIndicator
+                                                                                            position={position}
+                                                                                            activeBin={value.activeBin}
+                                                                                            binStep={poolInfo?.bin_step || 0}
+                                                                                            mintXDigits={poolInfo?.tokenXDecimal || 0}
+                                                                                            mintYDigits={poolInfo?.tokenYDecimal || 0}
+                                                                                        />
+                                                                                    </div>
+                                                                                ) : (
+                                                                                    'N/A'
+                                                                                )}
+                                                                            </td>
+                                                                            <td className="px-2 py-2 whitespace-nowrap">
+                                                                                {renderTimeInRange(key, position, poolInfo, true)}
+                                                                                <div>{renderBinsToggle(position.publicKey.toString())}</div>
+                                                                            </td>
+                                                                        </tr>
+                                                                        {expandedBins.has(position.publicKey.toString()) && (
+                                                                            <tr className="border-b last:border-b-0">
+                                                                                <td colSpan={7} className="px-2 py-2">
+                                                                                    {renderBins(position, value, poolInfo)}
+                                                                                </td>
+                                                                            </tr>
+                                                                        )}
+                                                                    </React.Fragment>
                                                                 ))}
                                                                 </tbody>
                                                             </table>
@@ -463,6 +559,14 @@ const TableComponent: React.FC<TableComponentProps> = ({ dataMap, selectedPositi
                                                                             'N/A'
                                                                         )}
                                                                     </div>
+                                                                    <div className="mt-2">
+                                                                        <span className="font-semibold">Time in Range:</span>
+                                                                        <div>{renderTimeInRange(key, position, poolInfo, true)}</div>
+                                                                    </div>
+                                                                    <div className="mt-2">
+                                                                        {renderBinsToggle(position.publicKey.toString())}
+                                                                        {expandedBins.has(position.publicKey.toString()) && renderBins(position, value, poolInfo)}
+                                                                    </div>
                                                                 </div>
                                                             ))}
                                                         </div>
@@ -480,6 +584,76 @@ const TableComponent: React.FC<TableComponentProps> = ({ dataMap, selectedPositi
         });
     };
 
+    // DAMM v2 positions have no bins or analytics page, so they get a plain table without selection
+    const renderDammV2Positions = () => (
+        <div className="mb-4">
+            <div className="border border-base-300 rounded-lg bg-base-100 p-4">
+                <div className="text-xl font-medium flex items-center gap-2 mb-4 p-2">
+                    <span className="text-base-content">DAMM v2</span>
+                    <span className="badge badge-ghost badge-sm">{dammV2Positions.length} position{dammV2Positions.length === 1 ? '' : 's'}</span>
+                </div>
+                <div className="w-full max-w-4xl mx-auto overflow-x-auto">
+                    <table className="table table-compact w-full text-xs">
+                        <thead>
+                        <tr className="border-b">
+                            {['POOL', 'TOKENS', 'LIQUIDITY', 'VALUE', 'UNCLAIMED FEES', 'CLAIMED FEES', 'POOL TVL'].map((header, index) => (
+                                <th key={index}
+                                    className="text-left px-2 py-3 border-r last:border-r-0 whitespace-nowrap">
+                                    {header}
+                                </th>
+                            ))}
+                        </tr>
+                        </thead>
+                        <tbody>
+                        {dammV2Positions.map(position => (
+                            <tr key={position.address} className="border-b last:border-b-0">
+                                <td className="px-2 py-2 border-r whitespace-nowrap">
+                                    <a
+                                        href={`https://app.meteora.ag/dammv2/${position.pool}`}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="flex items-center gap-2 hover:underline"
+                                        title={position.address}
+                                    >
+                                        <span className="font-semibold">{position.poolName}</span>
+                                        <span className="badge badge-ghost badge-xs">DAMM v2</span>
+                                    </a>
+                                </td>
+                                <td className="px-2 py-2 border-r whitespace-nowrap">
+                                    <div>{position.nameX}</div>
+                                    <div>{position.nameY}</div>
+                                </td>
+                                <td className="text-right px-2 py-2 border-r whitespace-nowrap">
+                                    <div>{prettifyNumber(position.amountX)}</div>
+                                    <div>{prettifyNumber(position.amountY)}</div>
+                                </td>
+                                <td className="text-right px-2 py-2 border-r whitespace-nowrap">
+                                    {formatCurrency(position.valueUsd)}
+                                </td>
+                                <td className="text-right px-2 py-2 border-r whitespace-nowrap">
+                                    <div>{prettifyNumber(position.feeX)}</div>
+                                    <div>{prettifyNumber(position.feeY)}</div>
+                                    <div className="opacity-70">{formatCurrency(position.unclaimedFeesUsd)}</div>
+                                </td>
+                                <td className="text-right px-2 py-2 border-r whitespace-nowrap">
+                                    <div>{prettifyNumber(position.claimedFeeX)}</div>
+                                    <div>{prettifyNumber(position.claimedFeeY)}</div>
+                                </td>
+                                <td className="text-right px-2 py-2 whitespace-nowrap">
+                                    {position.poolTvl !== null ? formatCurrency(position.poolTvl) : 'N/A'}
+                                    {position.poolFees24h !== null && (
+                                        <div className="opacity-70">{formatCurrency(position.poolFees24h)} fees 24h</div>
+                                    )}
+                                </td>
+                            </tr>
+                        ))}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </div>
+    );
+
     if (isLoading) {
         return (
             <div className="flex justify-center items-center h-64">
@@ -491,6 +665,7 @@ const TableComponent: React.FC<TableComponentProps> = ({ dataMap, selectedPositi
     return (
         <div className="p-4">
             {createTableRows()}
+            {dammV2Positions.length > 0 && renderDammV2Positions()}
         </div>
     );
 };
@@ -0,0 +1,181 @@
+// app/wallet/[[...walletPubKeys]]/TokenExposure.tsx
+'use client';
+
+import React, {useEffect, useMemo, useState} from 'react';
+import {PublicKey} from '@solana/web3.js';
+import {PoolData} from '@/app/types';
+import {fetchTokenUsdPrice} from '@/app/utils/jup';
+import {buildExposure, stressExposure, TokenExposure as TokenExposureRow} from '@/app/utils/exposure';
+import {formatCurrency, prettifyNumber} from '@/app/utils/numberFormatting';
+
+interface TokenExposureProps {
+    dataMap: Map<string, PoolData>;
+}
+
+const COLORS = ['#6366f1', '#10b981', '#f59e0b', '#ef4444', '#06b6d4', '#8b5cf6', '#ec4899', '#84cc16'];
+const OTHER_COLOR = '#9ca3af';
+// Tokens beyond this many share one "Other" slice
+const MAX_SLICES = COLORS.length;
+
+const DONUT_SIZE = 140;
+const DONUT_RADIUS = 52;
+const DONUT_STROKE = 20;
+
+const colorFor = (index: number): string => index < MAX_SLICES ? COLORS[index] : OTHER_COLOR;
+
+const ExposureDonut: React.FC<{ rows: TokenExposureRow[] }> = ({rows}) => {
+    const circumference = 2 * Math.PI * DONUT_RADIUS;
+    const priced = rows.filter(r => r.share > 0);
+    const slices = priced.slice(0, MAX_SLICES).map((r, i) => ({label: r.symbol, share: r.share, color: colorFor(i)}));
+    const otherShare = priced.slice(MAX_SLICES).reduce((sum, r) => sum + r.share, 0);
+    if (otherShare > 0) slices.push({label: 'Other', share: otherShare, color: OTHER_COLOR});
+
+    let offset = 0;
+    return (
+        <svg width={DONUT_SIZE} height={DONUT_SIZE} viewBox={`0 0 ${DONUT_SIZE} ${DONUT_SIZE}`} className="shrink-0">
+            <g transform={`rotate(-90 ${DONUT_SIZE / 2} ${DONUT_SIZE / 2})`}>
+                <circle cx={DONUT_SIZE / 2} cy={DONUT_SIZE / 2} r={DONUT_RADIUS} fill="none"
+                        stroke="currentColor" strokeOpacity={0.1} strokeWidth={DONUT_STROKE}/>
+                {slices.map(slice => {
+                    const length = slice.share * circumference;
+                    const circle = (
+                        <circle
+                            key={slice.label}
+                            cx={DONUT_SIZE / 2}
+                            cy={DONUT_SIZE / 2}
+                            r={DONUT_RADIUS}
+                            fill="none"
+                            stroke={slice.color}
+                            strokeWidth={DONUT_STROKE}
+                            strokeDasharray={`${length} ${circumference - length}`}
+                            strokeDashoffset={-offset}
+                        >
+                            <title>{`${slice.label}: ${(slice.share * 100).toFixed(1)}%`}</title>
+                        </circle>
+                    );
+                    offset += length;
+                    return circle;
+                })}
+            </g>
+        </svg>
+    );
+};
+
+const TokenExposure: React.FC<TokenExposureProps> = ({dataMap}) => {
+    const [prices, setPrices] = useState<Map<string, number> | null>(null);
+    const [stressMint, setStressMint] = useState<string>('');
+    const [stressPct, setStressPct] = useState(-20);
+
+    const mintsKey = Array.from(new Set(Array.from(dataMap.values()).flatMap(p => [p.mintX, p.mintY]))).sort().join(',');
+
+    useEffect(() => {
+        let cancelled = false;
+        const mints = mintsKey.split(',').filter(Boolean);
+        Promise.all(mints.map(mint => fetchTokenUsdPrice(new PublicKey(mint)).catch(() => -1)))
+            .then(results => {
+                if (!cancelled) setPrices(new Map(mints.map((mint, i) => [mint, results[i]])));
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [mintsKey]);
+
+    const rows = useMemo(() => prices ? buildExposure(dataMap, prices) : [], [dataMap, prices]);
+    const total = rows.reduce((sum, r) => sum + (r.usdValue ?? 0), 0);
+    const selectedMint = rows.some(r => r.mint === stressMint) ? stressMint : rows[0]?.mint ?? '';
+    const stress = stressExposure(rows, selectedMint, stressPct);
+    const selectedSymbol = rows.find(r => r.mint === selectedMint)?.symbol ?? '';
+
+    if (!prices) {
+        return (
+            <div className="border border-base-300 rounded-lg bg-base-100 p-4 mb-4 flex justify-center">
+                <span className="loading loading-spinner loading-md"></span>
+            </div>
+        );
+    }
+
+    if (rows.length === 0) return null;
+
+    return (
+        <div className="border border-base-300 rounded-lg bg-base-100 p-4 mb-4">
+            <div className="text-sm font-semibold mb-3">Token Exposure</div>
+            <div className="flex flex-col md:flex-row gap-6 items-center md:items-start">
+                <ExposureDonut rows={rows}/>
+                <div className="overflow-x-auto w-full">
+                    <table className="table table-sm w-full text-xs">
+                        <thead>
+                        <tr>
+                            <th>Token</th>
+                            <th className="text-right">Amount</th>
+                            <th className="text-right">Value</th>
+                            <th className="text-right">Share</th>
+                        </tr>
+                        </thead>
+                        <tbody>
+                        {rows.map((row, index) => (
+                            <tr key={row.mint}>
+                                <td className="font-medium whitespace-nowrap" title={row.mint}>
+                                    <span className="inline-block w-2 h-2 rounded-full mr-2"
+                                          style={{backgroundColor: row.share > 0 ? colorFor(index) : OTHER_COLOR}}></span>
+                                    {row.symbol}
+                                </td>
+                                <td className="text-right">{prettifyNumber(row.amount)}</td>
+                                <td className="text-right">{row.usdValue !== null ? formatCurrency(row.usdValue) : 'N/A'}</td>
+                                <td className="text-right">{prettifyNumber(row.share * 100)}%</td>
+                            </tr>
+                        ))}
+                        <tr className="font-semibold">
+                            <td>Total</td>
+                            <td></td>
+                            <td className="text-right">{formatCurrency(total)}</td>
+                            <td></td>
+                        </tr>
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            {/* Price shock on one token */}
+            <div className="mt-4 p-3 bg-base-200 rounded-lg text-sm">
+                <div className="flex flex-wrap items-center gap-3">
+                    <span>What if</span>
+                    <select
+                        className="select select-bordered select-xs"
+                        value={selectedMint}
+                        onChange={e => setStressMint(e.target.value)}
+                    >
+                        {rows.filter(r => r.usdValue !== null).map(r => (
+                            <option key={r.mint} value={r.mint}>{r.symbol}</option>
+                        ))}
+                    </select>
+                    <span>moves</span>
+                    <input
+                        type="range"
+                        min={-90}
+                        max={50}
+                        step={5}
+                        value={stressPct}
+                        onChange={e => setStressPct(Number(e.target.value))}
+                        className="range range-xs w-40"
+                    />
+                    <span className={`font-semibold ${stressPct < 0 ? 'text-error' : 'text-success'}`}>
+                        {stressPct > 0 ? '+' : ''}{stressPct}%
+                    </span>
+                </div>
+                <div className="mt-2">
+                    Open value {formatCurrency(stress.before)} → <span className="font-semibold">{formatCurrency(stress.after)}</span>
+                    {' '}(<span className={stress.change < 0 ? 'text-error' : 'text-success'}>
+                        {stress.change < 0 ? '-' : '+'}{formatCurrency(Math.abs(stress.change))}
+                    </span>)
+                    {selectedSymbol && <span className="opacity-60"> if {selectedSymbol} moves {stressPct}%</span>}
+                </div>
+                <div className="text-xs opacity-50 mt-1">
+                    Holdings are revalued as they are now; the pools would also shift your token mix as the price
+                    moves through your ranges.
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default TokenExposure;
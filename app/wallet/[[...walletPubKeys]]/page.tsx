@@ -1,76 +1,80 @@
 // app/wallet/[[...walletPubKeys]]/page.tsx
 'use client';
 
-import {usePathname, useSearchParams} from 'next/navigation';
-import React, {useEffect, useState} from 'react';
+import {usePathname, useRouter, useSearchParams} from 'next/navigation';
+import React, {useEffect, useRef, useState} from 'react';
+import Link from 'next/link';
 import TableComponent from '@/app/wallet/[[...walletPubKeys]]/TableComponent';
 import PortfolioOverview from '@/app/wallet/[[...walletPubKeys]]/PortfolioOverview';
+import CombinedPortfolio from '@/app/wallet/[[...walletPubKeys]]/CombinedPortfolio';
+import TokenExposure from '@/app/wallet/[[...walletPubKeys]]/TokenExposure';
+import EquityCurve from '@/app/wallet/[[...walletPubKeys]]/EquityCurve';
+import Recommendations from '@/app/wallet/[[...walletPubKeys]]/Recommendations';
+import {NATIVE_MINT} from '@solana/spl-token';
 import {fetchPortfolioOpen, PortfolioOpen, PortfolioOpenPool} from '@/app/utils/meteoraDataAPI';
-import DLMM, {LbPosition} from '@meteora-ag/dlmm';
-import {PublicKey} from '@solana/web3.js';
-import {formatTokenBalance} from "@/app/utils/solana";
-import {PoolData, PositionData, WalletData} from "@/app/types";
-import {bnToDate} from "@/app/utils/numberFormatting";
-import {fetchWithRetry} from "@/app/utils/rateLimitedFetch";
-import {fetchTokenPrice} from "@/app/utils/jup";
-import {FaChartBar, FaCheckDouble, FaTrashAlt} from 'react-icons/fa';
+import {fetchTokenUsdPrice} from '@/app/utils/jup';
+import {DammV2Position, WalletData} from "@/app/types";
+import {FaChartBar, FaCheckDouble, FaFileInvoiceDollar, FaTrashAlt} from 'react-icons/fa';
 import {formatPubKey} from "@/app/utils/formatters";
-import {getTokenMetadata} from "@/app/utils/tokenMetadata";
-import {getDefaultConnection} from "@/app/utils/cachedConnection";
-
-const createDataMap = async (wallet: string): Promise<Map<string, PoolData>> => {
-    const connection = getDefaultConnection();
-    const user = new PublicKey(wallet);
-    const positions = await fetchWithRetry(() => DLMM.getAllLbPairPositionsByUser(connection, user));
-    const map = new Map<string, PoolData>();
-    await Promise.all(Array.from(positions.entries()).map(async ([key, position]) => {
-        const tokenInfo = await fetchTokenPrice(position.tokenX.publicKey, position.tokenY.publicKey);
-        const tokenDecimalX = position.tokenX.mint.decimals;
-        const tokenDecimalY = position.tokenY.mint.decimals;
-        const lbPairPositionsData = position.lbPairPositionsData.map((pos: LbPosition): PositionData => {
-            const claimedFeeXAmount = pos.positionData.totalClaimedFeeXAmount.toString();
-            const claimedFeeYAmount = pos.positionData.totalClaimedFeeYAmount.toString();
-
-            return {
-                lastUpdatedAt: bnToDate(pos.positionData.lastUpdatedAt),
-                totalXAmount: formatTokenBalance(BigInt(pos.positionData.totalXAmount.split('.')[0]), tokenDecimalX),
-                totalYAmount: formatTokenBalance(BigInt(pos.positionData.totalYAmount.split('.')[0]), tokenDecimalY),
-                feeX: formatTokenBalance(BigInt(pos.positionData.feeX.toString()), tokenDecimalX),
-                feeY: formatTokenBalance(BigInt(pos.positionData.feeY.toString()), tokenDecimalY),
-                publicKey: pos.publicKey.toString(),
-                lowerBinId: pos.positionData.lowerBinId,
-                upperBinId: pos.positionData.upperBinId,
-                claimedFeeXAmount,
-                claimedFeeYAmount,
-                claimedFeeX: formatTokenBalance(BigInt(claimedFeeXAmount), tokenDecimalX),
-                claimedFeeY: formatTokenBalance(BigInt(claimedFeeYAmount), tokenDecimalY),
-            };
-        });
-        const mintInfoX = await getTokenMetadata(connection, position.tokenX.publicKey);
-        const mintInfoY = await getTokenMetadata(connection, position.tokenY.publicKey);
-        map.set(key, {
-            lbPairPositionsData,
-            nameX: mintInfoX?.symbol ?? 'Unknown Token X',
-            nameY: mintInfoY?.symbol ?? 'Unknown Token Y',
-            price: tokenInfo.price,
-            activeBin: position.lbPair.activeId,
-            tokenXDecimal: tokenDecimalX,
-            tokenYDecimal: tokenDecimalY
-        });
-    }));
-
-    return map;
+import {createDataMap, loadDammV2Positions} from '@/app/wallet/[[...walletPubKeys]]/walletData';
+import {LiveStatus, useLiveWallet} from '@/app/wallet/[[...walletPubKeys]]/useLiveWallet';
+import {recordSnapshot} from '@/app/utils/snapshots';
+
+const LIVE_STATUS_BADGES: Record<Exclude<LiveStatus, 'idle'>, { label: string; className: string; title: string }> = {
+    connecting: {label: 'Connecting', className: 'badge-ghost', title: 'Checking websocket support'},
+    live: {label: 'Live', className: 'badge-success', title: 'Updating from RPC account subscriptions'},
+    polling: {label: 'Polling', className: 'badge-warning', title: 'Websockets unavailable, refreshing every 30s'},
+};
+
+// Live position updates re-read the portfolio totals (and record a snapshot) at most this often
+const PORTFOLIO_REFRESH_MS = 5 * 60 * 1000;
+
+// DAMM v2 positions go into the snapshots as they go into the overview's totals, so the SOL price is
+// only looked up when a wallet has some
+const recordSnapshots = async (
+    portfolios: Map<string, PortfolioOpen | null>,
+    dammV2ByWallet: Map<string, DammV2Position[]>
+): Promise<void> => {
+    const hasDammV2 = Array.from(dammV2ByWallet.values()).some(positions => positions.length > 0);
+    const solUsd = hasDammV2 ? await fetchTokenUsdPrice(NATIVE_MINT).catch(() => -1) : -1;
+    await Promise.all(Array.from(portfolios.entries()).map(([wallet, portfolio]) =>
+        portfolio ? recordSnapshot(wallet, portfolio, dammV2ByWallet.get(wallet) ?? [], solUsd) : Promise.resolve()
+    ));
+};
+
+const LiveStatusBadge: React.FC<{ status: LiveStatus; lastUpdate: Date | null }> = ({status, lastUpdate}) => {
+    if (status === 'idle') return null;
+    const badge = LIVE_STATUS_BADGES[status];
+    return (
+        <div className="flex items-center gap-2 text-xs text-base-content/60">
+            {lastUpdate && <span>Updated {lastUpdate.toLocaleTimeString()}</span>}
+            <span className={`badge badge-sm gap-1 ${badge.className}`} title={badge.title}>
+                <span className={`inline-block w-2 h-2 rounded-full bg-current ${status === 'live' ? 'animate-pulse' : ''}`}></span>
+                {badge.label}
+            </span>
+        </div>
+    );
 };
 
 const WalletPage: React.FC = () => {
     const pathname = usePathname();
     const searchParams = useSearchParams();
+    const router = useRouter();
+    const walletQuery = searchParams.get('wallet');
+    const combined = searchParams.get('view') === 'combined';
     const [walletsData, setWalletsData] = useState<WalletData[]>([]);
     const [portfolios, setPortfolios] = useState<Map<string, PortfolioOpen | null>>(new Map());
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [selectedPositions, setSelectedPositions] = useState<Set<string>>(new Set());
     const [allPositions, setAllPositions] = useState<Set<string>>(new Set());
+    const [snapshotVersion, setSnapshotVersion] = useState(0);
+    const portfolioFetchedAt = useRef(0);
+    const portfoliosRef = useRef(portfolios);
+    portfoliosRef.current = portfolios;
+    const walletsDataRef = useRef(walletsData);
+    walletsDataRef.current = walletsData;
+    const {status: liveStatus, lastUpdate} = useLiveWallet(walletsData, setWalletsData);
 
     useEffect(() => {
         const fetchData = async () => {
@@ -81,11 +85,11 @@ const WalletPage: React.FC = () => {
                 if (pathWallets) {
                     wallets = decodeURIComponent(pathWallets).split(',');
                 }
-            } else if (searchParams.get('wallet')) {
-                wallets = decodeURIComponent(searchParams.get('wallet') || '').split(',');
+            } else if (walletQuery) {
+                wallets = decodeURIComponent(walletQuery).split(',');
             }
 
-            wallets = wallets.map(wallet => wallet.trim()).filter(Boolean);
+            wallets = Array.from(new Set(wallets.map(wallet => wallet.trim()).filter(Boolean)));
 
             if (wallets.length === 0) {
                 setError('No wallets specified. Please provide at least one wallet address.');
@@ -96,16 +100,22 @@ const WalletPage: React.FC = () => {
             try {
                 setIsLoading(true);
                 const walletsDataPromises = wallets.map(async (wallet) => {
-                    const [dataMap, portfolio] = await Promise.all([
+                    const [dataMap, dammV2Positions, portfolio] = await Promise.all([
                         createDataMap(wallet),
+                        loadDammV2Positions(wallet),
                         fetchPortfolioOpen(wallet),
                     ]);
-                    return { wallet, dataMap, portfolio };
+                    return { wallet, dataMap, dammV2Positions, portfolio };
                 });
 
                 const resolvedWalletsData = await Promise.all(walletsDataPromises);
-                setWalletsData(resolvedWalletsData.map(({wallet, dataMap}) => ({wallet, dataMap})));
-                setPortfolios(new Map(resolvedWalletsData.map(({wallet, portfolio}) => [wallet, portfolio])));
+                setWalletsData(resolvedWalletsData.map(({wallet, dataMap, dammV2Positions}) => ({wallet, dataMap, dammV2Positions})));
+                const portfolioMap = new Map(resolvedWalletsData.map(({wallet, portfolio}) => [wallet, portfolio]));
+                setPortfolios(portfolioMap);
+                portfolioFetchedAt.current = Date.now();
+                recordSnapshots(portfolioMap, new Map(resolvedWalletsData.map(({wallet, dammV2Positions}) => [wallet, dammV2Positions])))
+                    .then(() => setSnapshotVersion(v => v + 1))
+                    .catch(err => console.error('Error recording portfolio snapshots:', err));
 
                 const allPositionKeys = new Set<string>();
                 resolvedWalletsData.forEach(({ dataMap }) => {
@@ -125,7 +135,35 @@ const WalletPage: React.FC = () => {
         };
 
         fetchData();
-    }, [pathname, searchParams]);
+    }, [pathname, walletQuery]);
+
+    useEffect(() => {
+        if (!lastUpdate || Date.now() - portfolioFetchedAt.current < PORTFOLIO_REFRESH_MS) return;
+        portfolioFetchedAt.current = Date.now();
+        const previous = portfoliosRef.current;
+        const wallets = Array.from(previous.keys());
+        Promise.all(wallets.map(wallet => fetchPortfolioOpen(wallet)))
+            .then(results => {
+                // Keep the previous totals for a wallet whose refresh failed
+                const next = new Map(wallets.map((wallet, i) => [wallet, results[i] ?? previous.get(wallet) ?? null]));
+                setPortfolios(next);
+                const dammV2ByWallet = new Map(walletsDataRef.current.map(({wallet, dammV2Positions}) => [wallet, dammV2Positions]));
+                return recordSnapshots(new Map(wallets.map((wallet, i) => [wallet, results[i]])), dammV2ByWallet);
+            })
+            .then(() => setSnapshotVersion(v => v + 1))
+            .catch(err => console.error('Error refreshing portfolio totals:', err));
+    }, [lastUpdate]);
+
+    const setCombined = (value: boolean) => {
+        const params = new URLSearchParams(searchParams.toString());
+        if (value) {
+            params.set('view', 'combined');
+        } else {
+            params.delete('view');
+        }
+        const query = params.toString();
+        router.replace(query ? `${pathname}?${query}` : pathname);
+    };
 
     const handleSelectionChange = (newSelection: Set<string>) => {
         setSelectedPositions(newSelection);
@@ -182,7 +220,40 @@ const WalletPage: React.FC = () => {
     return (
         <>
             <div className="container mx-auto p-4 mb-16"> {/* Added margin-bottom to prevent footer overlap */}
-                {walletsData.map(({ wallet, dataMap }) => (
+                <div className="flex justify-between items-center mb-2">
+                    <Link
+                        href={`/cost-basis/${walletsData.map(({wallet}) => wallet).join(',')}`}
+                        className="btn btn-xs btn-ghost"
+                    >
+                        <FaFileInvoiceDollar className="mr-1"/> Cost Basis Report
+                    </Link>
+                    <div className="flex items-center gap-3">
+                        {walletsData.length > 1 && (
+                            <div className="join">
+                                <button
+                                    className={`join-item btn btn-xs ${combined ? 'btn-ghost' : 'btn-primary'}`}
+                                    onClick={() => setCombined(false)}
+                                >
+                                    Per wallet
+                                </button>
+                                <button
+                                    className={`join-item btn btn-xs ${combined ? 'btn-primary' : 'btn-ghost'}`}
+                                    onClick={() => setCombined(true)}
+                                >
+                                    Combined
+                                </button>
+                            </div>
+                        )}
+                        <LiveStatusBadge status={liveStatus} lastUpdate={lastUpdate}/>
+                    </div>
+                </div>
+                {combined && walletsData.length > 1 && (
+                    <CombinedPortfolio
+                        wallets={walletsData.map(({wallet}) => wallet)}
+                        portfolios={portfolios}
+                    />
+                )}
+                {walletsData.map(({ wallet, dataMap, dammV2Positions }) => (
                     <div key={wallet} className="mb-8">
                         <div className="border border-base-300 rounded-lg bg-base-100 p-4 mb-4">
                             <a
@@ -196,13 +267,21 @@ const WalletPage: React.FC = () => {
                                 </div>
                             </a>
                         </div>
-                        <PortfolioOverview
-                            wallet={wallet}
-                            portfolio={portfolios.get(wallet) ?? null}
-                        />
-                        {dataMap.size > 0 ? (
+                        {!(combined && walletsData.length > 1) && (
+                            <PortfolioOverview
+                                wallet={wallet}
+                                portfolio={portfolios.get(wallet) ?? null}
+                                dammV2Positions={dammV2Positions}
+                            />
+                        )}
+                        <EquityCurve wallet={wallet} version={snapshotVersion}/>
+                        {dataMap.size > 0 && <TokenExposure dataMap={dataMap}/>}
+                        {dataMap.size > 0 && <Recommendations dataMap={dataMap}/>}
+                        {dataMap.size > 0 || dammV2Positions.length > 0 ? (
                             <TableComponent
+                                wallet={wallet}
                                 dataMap={dataMap}
+                                dammV2Positions={dammV2Positions}
                                 selectedPositions={selectedPositions}
                                 onSelectionChange={handleSelectionChange}
                                 portfolioPools={new Map<string, PortfolioOpenPool>(
@@ -211,7 +290,7 @@ const WalletPage: React.FC = () => {
                             />
                         ) : (
                             <div className="text-center text-base-content/70 italic">
-                                No open DLMM positions found for this wallet.
+                                No open DLMM or DAMM v2 positions found for this wallet.
                             </div>
                         )}
                     </div>
@@ -0,0 +1,160 @@
+// app/wallet/[[...walletPubKeys]]/useLiveWallet.ts
+'use client';
+
+import React, {useEffect, useMemo, useRef, useState} from 'react';
+import {Connection, PublicKey} from '@solana/web3.js';
+import {WalletData} from "@/app/types";
+import {getRpcEndpoint} from "@/app/utils/rpcSettings";
+import {refreshPoolPositions} from '@/app/wallet/[[...walletPubKeys]]/walletData';
+
+export type LiveStatus = 'idle' | 'connecting' | 'live' | 'polling';
+
+// Notifications for a pool are coalesced into one refresh
+const REFRESH_DELAY_MS = 5_000;
+const POLL_INTERVAL_MS = 30_000;
+const WEBSOCKET_PROBE_TIMEOUT_MS = 5_000;
+// LbPair.active_id (i32): discriminator, StaticParameters (32), VariableParameters (32), bump_seed,
+// bin_step_seed and pair_type come first in the DLMM program IDL
+const LB_PAIR_ACTIVE_ID_OFFSET = 8 + 32 + 32 + 1 + 2 + 1;
+
+interface LiveTarget {
+    wallet: string;
+    pool: string;
+    positions: string[];
+    activeBin: number;
+}
+
+const toWebsocketUrl = (endpoint: string): string => endpoint.replace(/^http/i, 'ws');
+
+// Many public and custom RPCs only serve HTTP; check the websocket before subscribing
+const probeWebsocket = (url: string): Promise<boolean> => new Promise(resolve => {
+    if (typeof WebSocket === 'undefined') {
+        resolve(false);
+        return;
+    }
+    let settled = false;
+    const socket = new WebSocket(url);
+    const finish = (ok: boolean) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        socket.close();
+        resolve(ok);
+    };
+    const timer = setTimeout(() => finish(false), WEBSOCKET_PROBE_TIMEOUT_MS);
+    socket.onopen = () => finish(true);
+    socket.onerror = () => finish(false);
+});
+
+const liveTargets = (walletsData: WalletData[]): LiveTarget[] =>
+    walletsData.flatMap(({wallet, dataMap}) => Array.from(dataMap.entries()).map(([pool, poolData]) => ({
+        wallet,
+        pool,
+        positions: poolData.lbPairPositionsData.map(p => p.publicKey.toString()),
+        activeBin: poolData.activeBin,
+    })));
+
+// Keeps the active bin, position amounts and unclaimed fees current by subscribing to each pool's
+// lbPair account and each position account, falling back to polling without websocket support.
+export function useLiveWallet(
+    walletsData: WalletData[],
+    setWalletsData: React.Dispatch<React.SetStateAction<WalletData[]>>
+): { status: LiveStatus; lastUpdate: Date | null } {
+    const [status, setStatus] = useState<LiveStatus>('idle');
+    const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
+
+    // Resubscribe only when the set of watched accounts changes, not on every data refresh
+    const targets = useMemo(() => liveTargets(walletsData), [walletsData]);
+    const targetsKey = targets.map(t => `${t.wallet}:${t.pool}:${t.positions.join('+')}`).join('|');
+    const targetsRef = useRef(targets);
+    targetsRef.current = targets;
+
+    useEffect(() => {
+        if (!targetsKey) {
+            setStatus('idle');
+            return;
+        }
+
+        let cancelled = false;
+        const endpoint = getRpcEndpoint();
+        const wsEndpoint = toWebsocketUrl(endpoint);
+        const connection = new Connection(endpoint, {commitment: 'confirmed', wsEndpoint});
+        const watched = targetsRef.current;
+        const subscriptionIds: number[] = [];
+        const pending = new Map<string, ReturnType<typeof setTimeout>>();
+        let pollTimer: ReturnType<typeof setInterval> | undefined;
+
+        const refresh = async ({wallet, pool}: LiveTarget) => {
+            try {
+                const update = await refreshPoolPositions(connection, wallet, pool);
+                if (cancelled) return;
+                setWalletsData(prev => prev.map(data => {
+                    const current = data.dataMap.get(pool);
+                    if (data.wallet !== wallet || !current) return data;
+                    const dataMap = new Map(data.dataMap);
+                    if (update.lbPairPositionsData.length === 0) {
+                        dataMap.delete(pool);
+                    } else {
+                        dataMap.set(pool, {...current, ...update});
+                    }
+                    return {...data, dataMap};
+                }));
+                setLastUpdate(new Date());
+            } catch (err) {
+                console.error(`Error refreshing pool ${pool} for ${wallet}:`, err);
+            }
+        };
+
+        const scheduleRefresh = (target: LiveTarget) => {
+            const key = `${target.wallet}:${target.pool}`;
+            if (pending.has(key)) return;
+            pending.set(key, setTimeout(() => {
+                pending.delete(key);
+                refresh(target);
+            }, REFRESH_DELAY_MS));
+        };
+
+        // Every swap writes the lbPair account, but only a move of the active bin changes what is shown
+        const onPoolChange = (target: LiveTarget, data: Buffer) => {
+            if (data.length < LB_PAIR_ACTIVE_ID_OFFSET + 4) return;
+            const activeId = data.readInt32LE(LB_PAIR_ACTIVE_ID_OFFSET);
+            const current = targetsRef.current.find(t => t.wallet === target.wallet && t.pool === target.pool);
+            if (current && current.activeBin === activeId) return;
+            scheduleRefresh(target);
+        };
+
+        setStatus('connecting');
+        probeWebsocket(wsEndpoint).then(ok => {
+            if (cancelled) return;
+            if (ok) {
+                watched.forEach(target => {
+                    subscriptionIds.push(connection.onAccountChange(
+                        new PublicKey(target.pool), info => onPoolChange(target, info.data), 'confirmed'
+                    ));
+                    target.positions.forEach(account => {
+                        subscriptionIds.push(
+                            connection.onAccountChange(new PublicKey(account), () => scheduleRefresh(target), 'confirmed')
+                        );
+                    });
+                });
+                setStatus('live');
+            } else {
+                pollTimer = setInterval(() => watched.forEach(refresh), POLL_INTERVAL_MS);
+                setStatus('polling');
+            }
+        });
+
+        return () => {
+            cancelled = true;
+            clearInterval(pollTimer);
+            pending.forEach(timer => clearTimeout(timer));
+            subscriptionIds.forEach(id => {
+                connection.removeAccountChangeListener(id).catch(() => {
+                    // socket already closed
+                });
+            });
+        };
+    }, [targetsKey, setWalletsData]);
+
+    return {status, lastUpdate};
+}
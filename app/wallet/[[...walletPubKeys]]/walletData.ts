@@ -0,0 +1,89 @@
+// app/wallet/[[...walletPubKeys]]/walletData.ts
+import DLMM, {LbPosition} from '@meteora-ag/dlmm';
+import {Connection, PublicKey} from '@solana/web3.js';
+import {formatTokenBalance} from "@/app/utils/solana";
+import {DammV2Position, PoolData, PositionData} from "@/app/types";
+import {bnToDate} from "@/app/utils/numberFormatting";
+import {fetchWithRetry} from "@/app/utils/rateLimitedFetch";
+import {fetchTokenPrice} from "@/app/utils/jup";
+import {getTokenMetadata} from "@/app/utils/tokenMetadata";
+import {getDefaultConnection} from "@/app/utils/cachedConnection";
+import {fetchDammV2Positions} from "@/app/utils/dammV2";
+
+const toPositionData = (pos: LbPosition, tokenDecimalX: number, tokenDecimalY: number): PositionData => {
+    const claimedFeeXAmount = pos.positionData.totalClaimedFeeXAmount.toString();
+    const claimedFeeYAmount = pos.positionData.totalClaimedFeeYAmount.toString();
+
+    return {
+        lastUpdatedAt: bnToDate(pos.positionData.lastUpdatedAt),
+        totalXAmount: formatTokenBalance(BigInt(pos.positionData.totalXAmount.split('.')[0]), tokenDecimalX),
+        totalYAmount: formatTokenBalance(BigInt(pos.positionData.totalYAmount.split('.')[0]), tokenDecimalY),
+        feeX: formatTokenBalance(BigInt(pos.positionData.feeX.toString()), tokenDecimalX),
+        feeY: formatTokenBalance(BigInt(pos.positionData.feeY.toString()), tokenDecimalY),
+        publicKey: pos.publicKey.toString(),
+        lowerBinId: pos.positionData.lowerBinId,
+        upperBinId: pos.positionData.upperBinId,
+        claimedFeeXAmount,
+        claimedFeeYAmount,
+        claimedFeeX: formatTokenBalance(BigInt(claimedFeeXAmount), tokenDecimalX),
+        claimedFeeY: formatTokenBalance(BigInt(claimedFeeYAmount), tokenDecimalY),
+        bins: pos.positionData.positionBinData.map(bin => ({
+            binId: bin.binId,
+            price: parseFloat(bin.pricePerToken),
+            xAmount: formatTokenBalance(BigInt(bin.positionXAmount.split('.')[0]), tokenDecimalX),
+            yAmount: formatTokenBalance(BigInt(bin.positionYAmount.split('.')[0]), tokenDecimalY),
+        })),
+    };
+};
+
+export const createDataMap = async (wallet: string): Promise<Map<string, PoolData>> => {
+    const connection = getDefaultConnection();
+    const user = new PublicKey(wallet);
+    const positions = await fetchWithRetry(() => DLMM.getAllLbPairPositionsByUser(connection, user));
+    const map = new Map<string, PoolData>();
+    await Promise.all(Array.from(positions.entries()).map(async ([key, position]) => {
+        const tokenInfo = await fetchTokenPrice(position.tokenX.publicKey, position.tokenY.publicKey);
+        const tokenDecimalX = position.tokenX.mint.decimals;
+        const tokenDecimalY = position.tokenY.mint.decimals;
+        const lbPairPositionsData = position.lbPairPositionsData.map(pos => toPositionData(pos, tokenDecimalX, tokenDecimalY));
+        const mintInfoX = await getTokenMetadata(connection, position.tokenX.publicKey);
+        const mintInfoY = await getTokenMetadata(connection, position.tokenY.publicKey);
+        map.set(key, {
+            lbPairPositionsData,
+            nameX: mintInfoX?.symbol ?? 'Unknown Token X',
+            nameY: mintInfoY?.symbol ?? 'Unknown Token Y',
+            mintX: position.tokenX.publicKey.toString(),
+            mintY: position.tokenY.publicKey.toString(),
+            price: tokenInfo.price,
+            activeBin: position.lbPair.activeId,
+            tokenXDecimal: tokenDecimalX,
+            tokenYDecimal: tokenDecimalY
+        });
+    }));
+
+    return map;
+};
+
+// DAMM v2 positions are shown next to the DLMM ones; a failed lookup leaves them out rather than failing the page
+export const loadDammV2Positions = (wallet: string): Promise<DammV2Position[]> =>
+    fetchDammV2Positions(getDefaultConnection(), wallet).catch(err => {
+        console.error(`Error fetching DAMM v2 positions for ${wallet}:`, err);
+        return [];
+    });
+
+// Re-reads the active bin and the wallet's positions (amounts and unclaimed fees) for one pool.
+// Takes an uncached connection: the default one caches account reads for minutes.
+export const refreshPoolPositions = async (
+    connection: Connection,
+    wallet: string,
+    pool: string
+): Promise<Pick<PoolData, 'activeBin' | 'lbPairPositionsData'>> => {
+    const dlmm = await fetchWithRetry(() => DLMM.create(connection, new PublicKey(pool)));
+    const {activeBin, userPositions} = await fetchWithRetry(() => dlmm.getPositionsByUserAndLbPair(new PublicKey(wallet)));
+    const tokenDecimalX = dlmm.tokenX.mint.decimals;
+    const tokenDecimalY = dlmm.tokenY.mint.decimals;
+    return {
+        activeBin: activeBin.binId,
+        lbPairPositionsData: userPositions.map(pos => toPositionData(pos, tokenDecimalX, tokenDecimalY)),
+    };
+};
@@ -0,0 +1,12 @@
+// instrumentation.ts
+// Runs once per server start. Starts the leaderboard refresh timer when
+// LEADERBOARD_REFRESH_INTERVAL_MINUTES is set (long-running servers only; on
+// serverless hosts use the /api/leaderboard/refresh cron endpoint instead).
+
+export async function register() {
+    if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+    const minutes = Number(process.env.LEADERBOARD_REFRESH_INTERVAL_MINUTES);
+    if (!(minutes > 0)) return;
+    const {startRefreshTimer} = await import('@/app/utils/leaderboardRefresh');
+    startRefreshTimer(minutes * 60 * 1000);
+}